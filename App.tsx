@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { supabase } from './src/services/supabaseClient';
 import { dataService } from './src/services/dataService';
+import { canAccessView } from './src/services/permissions';
 import Background from './src/components/Background';
 import Navbar from './src/components/Navbar';
 import LoginPanel from './src/components/LoginPanel';
@@ -8,6 +9,7 @@ import Dashboard from './src/components/Dashboard';
 import KnowledgeBase from './src/components/KnowledgeBase';
 import ToolsPlatform from './src/components/ToolsPlatform';
 import AIRecon from './src/components/AIRecon'; 
+import AdminConsole from './src/components/AdminConsole';
 import AISprite from './src/components/AISprite'; 
 import { User } from '@supabase/supabase-js';
 import { Announcement, Profile } from './types';
@@ -102,6 +104,8 @@ const App: React.FC = () => {
 
   // Updated Navigation Handler to accept params
   const handleNavigate = (view: string, params?: any) => {
+    // 无权限的视图（包括语音助手跳转）直接忽略
+    if (!canAccessView(profile, view)) return;
     setCurrentView(view);
     if (params) {
        setAiParams(params);
@@ -133,6 +137,7 @@ const App: React.FC = () => {
             profile={profile}
             onOpenAuth={() => {}} 
             onLogout={handleLogout}
+            onOpenAdmin={canAccessView(profile, 'admin') ? () => handleNavigate('admin') : undefined}
           />
 
           <main className="flex-1 w-full px-4 sm:px-6 lg:px-8 py-8 sm:py-10 pt-24 sm:pt-28 flex flex-col gap-6 max-w-6xl mx-auto w-full">
@@ -146,20 +151,37 @@ const App: React.FC = () => {
               />
             )}
             
-            {currentView === 'knowledge' && (
-              <KnowledgeBase onBack={() => setCurrentView('dashboard')} />
+            {!canAccessView(profile, currentView) && (
+              <div className="flex flex-col items-center justify-center gap-3 py-24 text-center">
+                <p className="text-slate-300">当前账号无权访问该功能，请联系管理员开通</p>
+                <button
+                  onClick={() => setCurrentView('dashboard')}
+                  className="px-4 py-2 rounded-lg border border-white/10 text-sm text-slate-300 hover:bg-white/5"
+                >
+                  返回工作台
+                </button>
+              </div>
             )}
 
-            {currentView === 'tools' && (
+            {currentView === 'knowledge' && canAccessView(profile, 'knowledge') && (
+              <KnowledgeBase onBack={() => setCurrentView('dashboard')} profile={profile} />
+            )}
+
+            {currentView === 'tools' && canAccessView(profile, 'tools') && (
               <ToolsPlatform 
                  onBack={() => setCurrentView('dashboard')} 
+                 profile={profile}
                  aiParams={aiParams} // Pass params to tools
               />
             )}
 
-            {currentView === 'vision' && (
+            {currentView === 'vision' && canAccessView(profile, 'vision') && (
               <AIRecon onBack={() => setCurrentView('dashboard')} />
             )}
+
+            {currentView === 'admin' && canAccessView(profile, 'admin') && (
+              <AdminConsole onBack={() => setCurrentView('dashboard')} />
+            )}
           </main>
 
           <AISprite onNavigate={handleNavigate} />
@@ -1,7 +1,11 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ArrowLeft, Upload, Mic, ScanLine, X, Loader2, Play, Pause, AlertTriangle, Sparkles, ChevronUp, ChevronDown, StopCircle, Send } from 'lucide-react';
-import { aliyunService, VLMessage } from '../services/aliyunService';
+import { ArrowLeft, Upload, Mic, ScanLine, X, Loader2, Play, Pause, AlertTriangle, Sparkles, ChevronUp, ChevronDown, StopCircle, Send, Gauge } from 'lucide-react';
+import { VLMessage, isAbortError } from '../services/aliyunService';
+import { getLlmProvider } from '../services/llmGateway';
+import { isQuotaExceededError } from '../services/aiProxy';
 import { dataService } from '../services/dataService';
+import MarkdownContent from './MarkdownContent';
+import FeedbackControls from './FeedbackControls';
 
 interface AIReconProps {
   onBack: () => void;
@@ -83,8 +87,10 @@ const AnalysisResultContent = ({
   analysisText, 
   statusText, 
   errorMsg, 
+  quotaExceeded,
   handleAnalyze,
-  resultEndRef 
+  resultEndRef,
+  analysisMeta
 }: any) => (
   <div className="space-y-4">
       {promptInput && isDesktop && (
@@ -103,20 +109,26 @@ const AnalysisResultContent = ({
 
       {errorMsg ? (
           <div className="flex flex-col items-center justify-center py-10 text-center gap-4 animate-in zoom-in-95">
-              <div className="w-12 h-12 rounded-full bg-red-500/10 flex items-center justify-center text-red-400">
-                  <AlertTriangle size={24} />
+              <div className={`w-12 h-12 rounded-full flex items-center justify-center ${quotaExceeded ? 'bg-amber-500/10 text-amber-400' : 'bg-red-500/10 text-red-400'}`}>
+                  {quotaExceeded ? <Gauge size={24} /> : <AlertTriangle size={24} />}
               </div>
               <div className="space-y-1">
-                  <p className="text-white font-medium">任务中断</p>
-                  <p className="text-xs text-red-400 px-4 leading-relaxed">{errorMsg}</p>
-                  <button onClick={handleAnalyze} className="mt-4 px-4 py-1.5 text-xs bg-white/10 hover:bg-white/20 rounded-full transition-colors">
-                  重试
-                  </button>
+                  <p className="text-white font-medium">{quotaExceeded ? 'AI 额度已用完' : '任务中断'}</p>
+                  <p className={`text-xs px-4 leading-relaxed ${quotaExceeded ? 'text-amber-300' : 'text-red-400'}`}>{errorMsg}</p>
+                  {!quotaExceeded && (
+                    <button onClick={handleAnalyze} className="mt-4 px-4 py-1.5 text-xs bg-white/10 hover:bg-white/20 rounded-full transition-colors">
+                    重试
+                    </button>
+                  )}
               </div>
           </div>
       ) : (
-          <div className="prose prose-invert prose-sm max-w-none">
-              <p className="text-slate-300 leading-relaxed whitespace-pre-wrap text-base md:text-sm">{analysisText}</p>
+          <div className="max-w-none">
+              <MarkdownContent
+                  content={analysisText}
+                  streaming={isAnalyzing}
+                  className="text-slate-300 leading-relaxed text-base md:text-sm"
+              />
               {isAnalyzing && analysisText && (
                   <div className="flex gap-1.5 pt-2">
                       <span className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse"></span>
@@ -124,6 +136,16 @@ const AnalysisResultContent = ({
                       <span className="w-1.5 h-1.5 rounded-full bg-indigo-500 animate-pulse delay-300"></span>
                   </div>
               )}
+              {!isAnalyzing && analysisText && analysisMeta && (
+                  <FeedbackControls
+                      key={analysisMeta.id}
+                      feature="vision"
+                      prompt={analysisMeta.prompt}
+                      answer={analysisText}
+                      model={analysisMeta.model}
+                      latencyMs={analysisMeta.latencyMs}
+                  />
+              )}
           </div>
       )}
       <div ref={resultEndRef} />
@@ -144,6 +166,8 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [analysisText, setAnalysisText] = useState('');
+  // 最近一次完成的分析：用于回答反馈（提问与耗时）
+  const [analysisMeta, setAnalysisMeta] = useState<{ id: number; prompt: string; model: string; latencyMs: number } | null>(null);
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [statusText, setStatusText] = useState(''); 
@@ -152,6 +176,7 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
   const [promptInput, setPromptInput] = useState(''); 
   const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
 
   // Mobile Bottom Sheet State
   const [isResultExpanded, setIsResultExpanded] = useState(false);
@@ -238,6 +263,7 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
       
       // Reset States
       setAnalysisText(''); 
+      setAnalysisMeta(null);
       setErrorMsg(null);
       stopAudio();
       setIsResultExpanded(false);
@@ -269,6 +295,7 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
 
     setIsAnalyzing(true);
     setAnalysisText('');
+    setAnalysisMeta(null);
     setErrorMsg(null);
     stopAudio();
     if (!isDesktop) setIsResultExpanded(true);
@@ -307,6 +334,9 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
         }
       ];
 
+      const provider = await getLlmProvider('vision');
+      const model = provider.model('vision');
+
       const runStreamWithRetry = async () => {
         let attempt = 0;
         let hasReceivedFirstToken = false;
@@ -316,6 +346,7 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
           if (!hasReceivedFirstToken) {
             if (abortControllerRef.current) abortControllerRef.current.abort();
             setErrorMsg("请求超时：AI 响应时间过长，请检查网络或重试。");
+            setQuotaExceeded(false);
             setIsAnalyzing(false);
             setStatusText("");
           }
@@ -324,10 +355,10 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
         while (attempt < 2) {
           const timeoutId = startTimeoutGuard();
           try {
-            setStatusText(attempt === 0 ? "AI 正在深度分析 (Qwen-VL-Max)..." : "稳定通道重试中...");
+            setStatusText(attempt === 0 ? `AI 正在深度分析 (${model})...` : "稳定通道重试中...");
             fullResponse = "";
             hasReceivedFirstToken = false;
-            await aliyunService.chatVLStream(messages, (chunk) => {
+            await provider.vision(messages, (chunk) => {
               if (!hasReceivedFirstToken) {
                 hasReceivedFirstToken = true;
                 clearTimeout(timeoutId);
@@ -335,7 +366,7 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
               }
               fullResponse += chunk;
               setAnalysisText(prev => prev + chunk);
-            });
+            }, { signal: abortControllerRef.current?.signal });
 
             clearTimeout(timeoutId);
 
@@ -347,6 +378,8 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
             return fullResponse;
           } catch (innerErr) {
             clearTimeout(timeoutId);
+            // 超时或用户重置时主动中止、额度用尽，都不再重试
+            if (isAbortError(innerErr) || isQuotaExceededError(innerErr)) throw innerErr;
             console.error(`Stream attempt ${attempt + 1} failed`, innerErr);
             if (attempt === 0) {
               setStatusText("检测到不稳定，正在更换通道重试...");
@@ -361,12 +394,14 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
         return fullResponse;
       };
 
+      const startedAt = performance.now();
       const finalText = await runStreamWithRetry();
+      setAnalysisMeta({ id: Date.now(), prompt: finalPrompt, model, latencyMs: Math.round(performance.now() - startedAt) });
       setStatusText("");
       speakText(finalText);
 
     } catch (error: any) {
-      if (error.name === 'AbortError') return;
+      if (isAbortError(error)) return;
       console.error("Analysis Error:", error);
 
       let msg = error.message;
@@ -374,6 +409,7 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
         msg = "网络请求失败，可能是服务器繁忙或网络不通。";
       }
       setErrorMsg(msg);
+      setQuotaExceeded(isQuotaExceededError(error));
       setStatusText("");
     } finally {
       setIsAnalyzing(false);
@@ -405,6 +441,7 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
     setImagePreview(null);
     setUploadedFile(null);
     setAnalysisText('');
+    setAnalysisMeta(null);
     setPromptInput('');
     setStatusText('');
     setErrorMsg(null);
@@ -538,8 +575,10 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
                         analysisText={analysisText}
                         statusText={statusText}
                         errorMsg={errorMsg}
+                        quotaExceeded={quotaExceeded}
                         handleAnalyze={handleAnalyze}
                         resultEndRef={resultEndRef}
+                        analysisMeta={analysisMeta}
                     />
                 )}
              </div>
@@ -589,8 +628,10 @@ const AIRecon: React.FC<AIReconProps> = ({ onBack }) => {
                     analysisText={analysisText}
                     statusText={statusText}
                     errorMsg={errorMsg}
+                    quotaExceeded={quotaExceeded}
                     handleAnalyze={handleAnalyze}
                     resultEndRef={resultEndRef}
+                    analysisMeta={analysisMeta}
                 />
              </div>
              
@@ -1,6 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Bot, Mic, MicOff, Zap } from 'lucide-react';
-import useVoiceAssistant from '../hooks/useVoiceAssistant';
+import useVoiceAssistant, { VoiceConnection } from '../hooks/useVoiceAssistant';
 
 interface AISpriteProps {
   onNavigate: (view: string, params?: any) => void;
@@ -8,6 +8,25 @@ interface AISpriteProps {
 
 const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
 
+// 语音识别连接健康度：待命 / 已连接为绿，连接中为黄，不可用为红
+const CONNECTION_TONES: Record<VoiceConnection, string> = {
+  off: '',
+  idle: 'bg-emerald-400',
+  connected: 'bg-emerald-400',
+  connecting: 'bg-amber-400 animate-pulse',
+  reconnecting: 'bg-amber-400 animate-pulse',
+  failed: 'bg-red-500',
+};
+
+const CONNECTION_LABELS: Record<VoiceConnection, string> = {
+  off: '未开启',
+  idle: '语音服务待命',
+  connected: '语音服务已连接',
+  connecting: '正在连接语音服务',
+  reconnecting: '语音服务重连中',
+  failed: '语音服务不可用，点击重新开启',
+};
+
 const AISprite: React.FC<AISpriteProps> = ({ onNavigate }) => {
   const [isMobileView, setIsMobileView] = useState(
     typeof window !== 'undefined' ? window.innerWidth < 768 : false
@@ -29,7 +48,7 @@ const AISprite: React.FC<AISpriteProps> = ({ onNavigate }) => {
     onNavigate,
   });
 
-  const { assistantState, isListening, transcript, feedback, indicator } = status;
+  const { assistantState, isListening, speaking, connection, transcript, feedback, indicator } = status;
 
   useEffect(() => {
     const handleResize = () => {
@@ -112,7 +131,9 @@ const AISprite: React.FC<AISpriteProps> = ({ onNavigate }) => {
   const FeedbackBubble = () => {
     if (!statusText) return null;
     const tone =
-      assistantState === 'awake'
+      connection === 'failed'
+        ? 'bg-red-500/20 border-red-200/40 text-red-50'
+        : assistantState === 'awake'
         ? 'bg-emerald-500/20 border-emerald-200/40 text-emerald-50'
         : isListening
         ? 'bg-amber-400/20 border-amber-200/40 text-amber-50'
@@ -159,6 +180,7 @@ const AISprite: React.FC<AISpriteProps> = ({ onNavigate }) => {
           }}
         >
           <div className="absolute inset-0 rounded-full bg-white/30 mix-blend-overlay" />
+          {speaking && <div className="absolute -inset-1 rounded-full border-2 border-white/60 animate-ping" />}
           <div className="relative flex items-center justify-center">
             {assistantState === 'awake' ? (
               <Zap size={22} className="text-emerald-700" />
@@ -168,6 +190,12 @@ const AISprite: React.FC<AISpriteProps> = ({ onNavigate }) => {
               <MicOff size={22} className="text-slate-700" />
             )}
           </div>
+          {connection !== 'off' && (
+            <span
+              title={CONNECTION_LABELS[connection]}
+              className={`absolute right-0 bottom-0 h-3 w-3 rounded-full border-2 border-white ${CONNECTION_TONES[connection]}`}
+            />
+          )}
           <div className="absolute -left-6 -top-6">
             <div className="h-6 w-6 rounded-full bg-white/70 text-slate-800 flex items-center justify-center text-xs shadow">
               <Bot size={14} />
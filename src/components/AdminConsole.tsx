@@ -0,0 +1,636 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CheckCircle2,
+  Eye,
+  EyeOff,
+  Loader2,
+  Megaphone,
+  Plug,
+  Plus,
+  RefreshCw,
+  Save,
+  Settings2,
+  Trash2,
+  XCircle,
+  LayoutGrid,
+  ThumbsDown,
+} from 'lucide-react';
+import CustomSelect from './CustomSelect';
+import { AdminTable, AdminTableRows, adminService, testAsrWebSocket, testSqlGateway } from '../services/adminService';
+import { SETTING_SCHEMAS, parseSettingValue } from '../services/settingSchemas';
+import { dataService } from '../services/dataService';
+import { AiFeedbackFeature, AiFeedbackReportRow } from '../../types';
+
+interface AdminConsoleProps {
+  onBack: () => void;
+}
+
+// --- Form Definitions ---
+
+type FieldKind = 'text' | 'textarea' | 'json' | 'secret' | 'select' | 'switch';
+
+interface FieldDef {
+  name: string;
+  label: string;
+  kind: FieldKind;
+  required?: boolean;
+  // 记录的主键，已有记录不允许修改
+  identity?: boolean;
+  options?: Array<{ value: string; label: string }>;
+  placeholder?: string;
+}
+
+interface TableDef {
+  table: AdminTable;
+  label: string;
+  icon: React.ElementType;
+  fields: FieldDef[];
+  title: (row: any) => string;
+  subtitle: (row: any) => string;
+  blank: () => Record<string, any>;
+}
+
+const TABLES: TableDef[] = [
+  {
+    table: 'system_settings',
+    label: '系统参数',
+    icon: Settings2,
+    fields: [
+      { name: 'key', label: '参数键', kind: 'text', required: true, identity: true, placeholder: '例如 aliyun_config' },
+      { name: 'description', label: '说明', kind: 'text' },
+      { name: 'value', label: '参数值（JSON）', kind: 'json', required: true },
+    ],
+    title: (row) => row.key,
+    subtitle: (row) => row.description || '无说明',
+    blank: () => ({ key: '', description: '', value: {} }),
+  },
+  {
+    table: 'modules',
+    label: '功能模块',
+    icon: LayoutGrid,
+    fields: [
+      { name: 'key', label: '模块标识', kind: 'text', required: true, placeholder: 'knowledge / tools / vision' },
+      { name: 'title', label: '标题', kind: 'text', required: true },
+      { name: 'subtitle', label: '副标题', kind: 'text' },
+      { name: 'description', label: '描述', kind: 'textarea' },
+      {
+        name: 'icon',
+        label: '图标',
+        kind: 'select',
+        options: ['Database', 'Cpu', 'GraduationCap', 'Server'].map((v) => ({ value: v, label: v })),
+      },
+      { name: 'path', label: '路径', kind: 'text' },
+      {
+        name: 'status',
+        label: '状态',
+        kind: 'select',
+        required: true,
+        options: [
+          { value: 'active', label: '启用' },
+          { value: 'inactive', label: '停用' },
+        ],
+      },
+    ],
+    title: (row) => row.title || row.key,
+    subtitle: (row) => `${row.key} · ${row.status === 'active' ? '启用' : '停用'}`,
+    blank: () => ({ key: '', title: '', subtitle: '', description: '', icon: 'Database', path: '', status: 'active' }),
+  },
+  {
+    table: 'announcements',
+    label: '公告',
+    icon: Megaphone,
+    fields: [
+      { name: 'title', label: '标题', kind: 'text', required: true },
+      { name: 'content', label: '内容', kind: 'textarea' },
+      {
+        name: 'priority',
+        label: '优先级',
+        kind: 'select',
+        required: true,
+        options: [
+          { value: 'normal', label: '普通消息' },
+          { value: 'high', label: '重要紧急' },
+        ],
+      },
+      { name: 'is_active', label: '在首页展示', kind: 'switch' },
+    ],
+    title: (row) => row.title,
+    subtitle: (row) => `${row.priority === 'high' ? '重要紧急' : '普通消息'} · ${row.is_active ? '展示中' : '已下线'}`,
+    blank: () => ({ title: '', content: '', priority: 'normal', is_active: true }),
+  },
+  {
+    table: 'app_configs',
+    label: '接口配置',
+    icon: Plug,
+    fields: [
+      { name: 'config_name', label: '配置名', kind: 'text', required: true, identity: true, placeholder: 'local_sql_server' },
+      { name: 'api_url', label: '网关地址', kind: 'text', required: true, placeholder: 'https://erp.example.com 或 mock://' },
+      { name: 'api_token', label: '访问令牌', kind: 'secret' },
+      { name: 'description', label: '说明', kind: 'text' },
+    ],
+    title: (row) => row.config_name,
+    subtitle: (row) => row.api_url || '未填写地址',
+    blank: () => ({ config_name: '', api_url: '', api_token: '', description: '' }),
+  },
+];
+
+// 列表中识别记录用，与 adminService 的主键列一致
+const rowId = (table: AdminTable, row: any) =>
+  String(table === 'system_settings' ? row.key : table === 'app_configs' ? row.config_name : row.id);
+
+const MODULE_KEY_PATTERN = /^[a-z][a-z0-9_-]*$/;
+
+/** 表单级校验；json 字段另外按 system_settings 的 schema 校验 */
+function validateDraft(def: TableDef, draft: Record<string, any>, jsonText: string): string[] {
+  const errors: string[] = [];
+  def.fields.forEach((f) => {
+    if (f.required && f.kind !== 'json' && f.kind !== 'switch' && !String(draft[f.name] ?? '').trim()) {
+      errors.push(`${f.label}为必填项`);
+    }
+  });
+  if (def.table === 'system_settings') {
+    errors.push(...parseSettingValue(String(draft.key || ''), jsonText).errors);
+  }
+  if (def.table === 'modules' && draft.key && !MODULE_KEY_PATTERN.test(draft.key)) {
+    errors.push('模块标识只能包含小写字母、数字、- 和 _，且以字母开头');
+  }
+  if (def.table === 'app_configs' && draft.api_url && !/^(https?:\/\/|mock:)/.test(String(draft.api_url).trim())) {
+    errors.push('网关地址需以 http://、https:// 或 mock:// 开头');
+  }
+  return errors;
+}
+
+const inputClass =
+  'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none';
+
+// --- Sub Components ---
+
+const FieldInput = ({ field, value, disabled, jsonText, onJsonChange, onChange }: any) => {
+  const [showSecret, setShowSecret] = useState(false);
+
+  if (field.kind === 'json') {
+    return (
+      <textarea
+        rows={12}
+        value={jsonText}
+        onChange={(e) => onJsonChange(e.target.value)}
+        spellCheck={false}
+        className={`${inputClass} font-mono text-xs leading-relaxed`}
+      />
+    );
+  }
+  if (field.kind === 'textarea') {
+    return <textarea rows={4} value={value ?? ''} onChange={(e) => onChange(e.target.value)} className={inputClass} />;
+  }
+  if (field.kind === 'select') {
+    return <CustomSelect value={value} onChange={(v: any) => onChange(String(v))} options={field.options} className="w-full" />;
+  }
+  if (field.kind === 'switch') {
+    return (
+      <label className="inline-flex items-center gap-2 cursor-pointer text-sm text-slate-300">
+        <input type="checkbox" className="accent-indigo-500" checked={!!value} onChange={(e) => onChange(e.target.checked)} />
+        {value ? '是' : '否'}
+      </label>
+    );
+  }
+  if (field.kind === 'secret') {
+    return (
+      <div className="relative">
+        <input
+          type={showSecret ? 'text' : 'password'}
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          autoComplete="new-password"
+          className={`${inputClass} pr-9 font-mono`}
+        />
+        <button
+          type="button"
+          onClick={() => setShowSecret((v) => !v)}
+          className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-500 hover:text-white"
+        >
+          {showSecret ? <EyeOff size={14} /> : <Eye size={14} />}
+        </button>
+      </div>
+    );
+  }
+  return (
+    <input
+      type="text"
+      value={value ?? ''}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={field.placeholder}
+      className={`${inputClass} ${disabled ? 'opacity-60' : ''}`}
+    />
+  );
+};
+
+// 接口配置的连接测试，使用表单中尚未保存的值
+const ConnectionTests = ({ apiUrl, apiToken }: any) => {
+  const [results, setResults] = useState<Record<string, { running: boolean; ok?: boolean; text?: string }>>({});
+
+  const run = async (name: 'sql' | 'asr') => {
+    setResults((prev) => ({ ...prev, [name]: { running: true } }));
+    try {
+      const ms = name === 'sql' ? await testSqlGateway(apiUrl, apiToken) : await testAsrWebSocket(apiUrl);
+      setResults((prev) => ({ ...prev, [name]: { running: false, ok: true, text: `连接成功，耗时 ${ms}ms` } }));
+    } catch (err: any) {
+      setResults((prev) => ({ ...prev, [name]: { running: false, ok: false, text: err?.message || String(err) } }));
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-black/20 p-4 space-y-3">
+      <div className="text-xs font-medium text-slate-400">连接测试</div>
+      {[
+        { name: 'sql' as const, label: '测试 SQL 网关' },
+        { name: 'asr' as const, label: '测试语音识别 WebSocket' },
+      ].map((t) => {
+        const r = results[t.name];
+        return (
+          <div key={t.name} className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={() => run(t.name)}
+              disabled={!apiUrl || r?.running}
+              className="px-3 py-1.5 rounded-lg border border-white/10 text-xs text-slate-300 hover:bg-white/5 disabled:opacity-50 flex items-center gap-1.5"
+            >
+              {r?.running ? <Loader2 size={12} className="animate-spin" /> : <Plug size={12} />}
+              {t.label}
+            </button>
+            {r && !r.running && (
+              <span className={`text-xs flex items-center gap-1 ${r.ok ? 'text-emerald-400' : 'text-red-300'}`}>
+                {r.ok ? <CheckCircle2 size={12} /> : <XCircle size={12} />}
+                {r.text}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// --- Feedback Report ---
+
+const FEATURE_LABELS: Record<AiFeedbackFeature, string> = { knowledge: '知识库', vision: '图像识别' };
+
+// 评分最差的问题，附最近一次差评的回答、纠正内容和引用文档，便于定位需要修正的资料
+const FeedbackReport = ({ reloadKey }: any) => {
+  const [feature, setFeature] = useState<AiFeedbackFeature | null>(null);
+  const [rows, setRows] = useState<AiFeedbackReportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    dataService
+      .getWorstRatedQuestions(feature)
+      .then((data) => !cancelled && setRows(data))
+      .catch((err) => !cancelled && setError(err?.message || String(err)))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [feature, reloadKey]);
+
+  return (
+    <div className="rounded-2xl border border-white/5 bg-[#0F1629]/80 overflow-hidden">
+      <div className="px-4 py-3 border-b border-white/5 flex flex-wrap items-center justify-between gap-3">
+        <span className="text-xs text-slate-400">按平均评分从低到高，只列出收到过差评的问题</span>
+        <div className="flex gap-1.5">
+          {([null, 'knowledge', 'vision'] as Array<AiFeedbackFeature | null>).map((f) => (
+            <button
+              key={f || 'all'}
+              onClick={() => setFeature(f)}
+              className={`px-2.5 py-1 rounded-lg text-xs border transition-colors ${
+                feature === f ? 'bg-indigo-500/15 border-indigo-500/40 text-white' : 'border-white/10 text-slate-400 hover:text-white'
+              }`}
+            >
+              {f ? FEATURE_LABELS[f] : '全部'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-6 text-center text-sm text-red-300">{error}</div>
+      ) : loading && !rows.length ? (
+        <div className="p-6 text-center text-sm text-slate-500">
+          <Loader2 className="w-4 h-4 animate-spin inline-block mr-2" /> 加载中...
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="p-6 text-center text-sm text-slate-500">暂无差评</div>
+      ) : (
+        <div className="divide-y divide-white/5 max-h-[65vh] overflow-y-auto">
+          {rows.map((row) => {
+            const id = `${row.feature}:${row.question_key}`;
+            const open = expanded === id;
+            const docs = Array.from(new Set((row.doc_references || []).map((r) => r.docName)));
+            return (
+              <div key={id} className="px-4 py-3">
+                <button onClick={() => setExpanded(open ? null : id)} className="w-full text-left">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="text-sm text-slate-200 line-clamp-2">{row.question}</div>
+                    <span className={`shrink-0 text-xs font-mono ${row.score < 0 ? 'text-red-300' : 'text-amber-300'}`}>
+                      {row.score.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-500">
+                    <span>{FEATURE_LABELS[row.feature]}</span>
+                    <span>差评 {row.down_votes} / 共 {row.total}</span>
+                    {row.avg_latency_ms !== null && <span>平均耗时 {(row.avg_latency_ms / 1000).toFixed(1)}s</span>}
+                    <span>{new Date(row.last_feedback_at).toLocaleString()}</span>
+                    {docs.length > 0 && <span className="text-slate-400">引用：{docs.join('、')}</span>}
+                  </div>
+                </button>
+                {open && (
+                  <div className="mt-3 space-y-3 text-xs">
+                    {row.latest_correction && (
+                      <div>
+                        <div className="text-slate-500 mb-1">最近的纠正</div>
+                        <div className="rounded-lg bg-emerald-500/5 border border-emerald-500/20 p-3 text-emerald-100 whitespace-pre-wrap">
+                          {row.latest_correction}
+                        </div>
+                      </div>
+                    )}
+                    {row.latest_bad_answer && (
+                      <div>
+                        <div className="text-slate-500 mb-1">最近一次差评的回答</div>
+                        <div className="rounded-lg bg-black/20 border border-white/5 p-3 text-slate-300 whitespace-pre-wrap max-h-60 overflow-y-auto">
+                          {row.latest_bad_answer}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Main ---
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ onBack }) => {
+  const [activeTable, setActiveTable] = useState<AdminTable>('system_settings');
+  const [rows, setRows] = useState<any[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // 正在编辑的记录：original 为 null 表示新增
+  const [editing, setEditing] = useState<{ original: any | null; draft: Record<string, any> } | null>(null);
+  const [jsonText, setJsonText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // 「回答反馈」报表不是配置表，单独切换
+  const [showFeedback, setShowFeedback] = useState(false);
+  const [feedbackReloadKey, setFeedbackReloadKey] = useState(0);
+
+  const def = TABLES.find((t) => t.table === activeTable)!;
+
+  const load = async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      setRows(await adminService.list(activeTable));
+    } catch (err: any) {
+      setLoadError(err?.message || String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setEditing(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeTable]);
+
+  const startEdit = (row: any | null) => {
+    const draft = row ? { ...row } : def.blank();
+    setEditing({ original: row, draft });
+    setJsonText(JSON.stringify(draft.value ?? {}, null, 2));
+    setSaveError(null);
+  };
+
+  const updateDraft = (name: string, value: unknown) =>
+    setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, [name]: value } } : prev));
+
+  const errors = useMemo(
+    () => (editing ? validateDraft(def, editing.draft, jsonText) : []),
+    [def, editing, jsonText]
+  );
+
+  const handleSave = async () => {
+    if (!editing || errors.length) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const payload = { ...editing.draft };
+      if (activeTable === 'system_settings') payload.value = parseSettingValue(payload.key, jsonText).value;
+      if (activeTable === 'app_configs') payload.api_url = String(payload.api_url).trim();
+      const saved = await adminService.save(activeTable, payload as Partial<AdminTableRows[typeof activeTable]>, editing.original);
+      await load();
+      startEdit(saved);
+    } catch (err: any) {
+      setSaveError(err?.message || String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing?.original) return;
+    if (!window.confirm(`确定删除「${def.title(editing.original)}」吗？该操作无法撤销。`)) return;
+    setSaving(true);
+    try {
+      await adminService.remove(activeTable, editing.original);
+      setEditing(null);
+      await load();
+    } catch (err: any) {
+      setSaveError(err?.message || String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const schema = activeTable === 'system_settings' && editing ? SETTING_SCHEMAS[editing.draft.key] : undefined;
+
+  return (
+    <div className="w-full animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <button onClick={onBack} className="p-2 -ml-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold text-white">管理后台</h2>
+            <p className="text-xs text-slate-400">修改会立即生效，并记录到操作日志</p>
+          </div>
+        </div>
+        <button
+          onClick={() => (showFeedback ? setFeedbackReloadKey((k) => k + 1) : load())}
+          className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/5"
+          title="刷新"
+        >
+          <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-5 overflow-x-auto">
+        {TABLES.map((t) => (
+          <button
+            key={t.table}
+            onClick={() => {
+              setShowFeedback(false);
+              setActiveTable(t.table);
+            }}
+            className={`px-3 py-1.5 rounded-lg text-sm flex items-center gap-1.5 whitespace-nowrap border transition-colors ${
+              !showFeedback && activeTable === t.table
+                ? 'bg-indigo-500/15 border-indigo-500/40 text-white'
+                : 'border-white/10 text-slate-400 hover:text-white hover:bg-white/5'
+            }`}
+          >
+            <t.icon size={14} />
+            {t.label}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowFeedback(true)}
+          className={`px-3 py-1.5 rounded-lg text-sm flex items-center gap-1.5 whitespace-nowrap border transition-colors ${
+            showFeedback
+              ? 'bg-indigo-500/15 border-indigo-500/40 text-white'
+              : 'border-white/10 text-slate-400 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          <ThumbsDown size={14} />
+          回答反馈
+        </button>
+      </div>
+
+      {showFeedback ? (
+        <FeedbackReport reloadKey={feedbackReloadKey} />
+      ) : (
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-5">
+        {/* List */}
+        <div className="lg:col-span-2 rounded-2xl border border-white/5 bg-[#0F1629]/80 overflow-hidden">
+          <div className="px-4 py-3 border-b border-white/5 flex items-center justify-between">
+            <span className="text-xs text-slate-400">共 {rows.length} 条</span>
+            <button
+              onClick={() => startEdit(null)}
+              className="px-2.5 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs flex items-center gap-1"
+            >
+              <Plus size={12} /> 新增
+            </button>
+          </div>
+          {loadError ? (
+            <div className="p-6 text-center text-sm text-red-300">{loadError}</div>
+          ) : loading && !rows.length ? (
+            <div className="p-6 text-center text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin inline-block mr-2" /> 加载中...
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="p-6 text-center text-sm text-slate-500">暂无数据</div>
+          ) : (
+            <div className="divide-y divide-white/5 max-h-[60vh] overflow-y-auto">
+              {rows.map((row) => {
+                const active = !!editing?.original && rowId(activeTable, editing.original) === rowId(activeTable, row);
+                return (
+                  <button
+                    key={rowId(activeTable, row)}
+                    onClick={() => startEdit(row)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${active ? 'bg-indigo-500/10' : 'hover:bg-white/[0.03]'}`}
+                  >
+                    <div className="text-sm text-slate-200 truncate">{def.title(row)}</div>
+                    <div className="text-[11px] text-slate-500 truncate">{def.subtitle(row)}</div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Form */}
+        <div className="lg:col-span-3 rounded-2xl border border-white/5 bg-[#0F1629]/80 p-5">
+          {!editing ? (
+            <div className="py-16 text-center text-sm text-slate-500">选择左侧记录进行编辑，或点击「新增」</div>
+          ) : (
+            <div className="space-y-4">
+              <h3 className="font-bold text-white text-sm">
+                {editing.original ? `编辑${def.label}` : `新增${def.label}`}
+              </h3>
+
+              {def.fields.map((field) => (
+                <div key={field.name} className="space-y-1.5">
+                  <label className="text-xs font-medium text-slate-400">
+                    {field.label}
+                    {field.required && <span className="text-red-400 ml-0.5">*</span>}
+                  </label>
+                  <FieldInput
+                    field={field}
+                    value={editing.draft[field.name]}
+                    disabled={field.identity && !!editing.original}
+                    jsonText={jsonText}
+                    onJsonChange={setJsonText}
+                    onChange={(v: unknown) => updateDraft(field.name, v)}
+                  />
+                  {field.kind === 'json' && schema && (
+                    <p className="text-[11px] text-slate-500">
+                      已登记结构：必填 {(schema.required || []).join('、') || '无'}
+                    </p>
+                  )}
+                </div>
+              ))}
+
+              {activeTable === 'app_configs' && (
+                <ConnectionTests apiUrl={String(editing.draft.api_url || '').trim()} apiToken={editing.draft.api_token || ''} />
+              )}
+
+              {errors.length > 0 && (
+                <div className="rounded-lg border border-amber-500/20 bg-amber-500/5 p-3 space-y-1">
+                  {errors.map((e) => (
+                    <div key={e} className="text-xs text-amber-300 flex items-start gap-1.5">
+                      <AlertTriangle size={12} className="mt-0.5 shrink-0" /> {e}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {saveError && <div className="text-xs text-red-300">{saveError}</div>}
+
+              <div className="flex items-center justify-between pt-2">
+                {editing.original ? (
+                  <button
+                    onClick={handleDelete}
+                    disabled={saving}
+                    className="px-3 py-2 rounded-lg text-sm text-red-300 hover:bg-red-500/10 flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                    <Trash2 size={14} /> 删除
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={saving || errors.length > 0}
+                  className="px-5 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                >
+                  {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save size={14} />} 保存
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminConsole;
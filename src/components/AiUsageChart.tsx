@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Gauge, Loader2 } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { fetchAiProxyStatus } from '../services/aiProxy';
+import { can } from '../services/permissions';
+import { AiQuotaMetric, AiQuotaUsage, AiUsageDailyRow, Profile } from '../../types';
+
+interface AiUsageChartProps {
+  userId: string;
+  profile: Profile | null;
+}
+
+type ChartMetric = 'tokens' | 'cost' | 'requests';
+
+const DAYS = 14;
+// 超过 4 个模型时，其余合并为「其他」
+const MAX_SERIES = 4;
+const SERIES_COLORS = ['bg-blue-500', 'bg-emerald-500', 'bg-purple-500', 'bg-amber-500', 'bg-slate-500'];
+
+const METRIC_LABELS: Record<ChartMetric, string> = { tokens: 'Token', cost: '费用', requests: '次数' };
+const QUOTA_SCOPE_LABELS = { user: '个人', department: '部门' };
+const QUOTA_PERIOD_LABELS = { daily: '今日', monthly: '本月' };
+const QUOTA_METRIC_LABELS: Record<AiQuotaMetric, string> = { requests: '次数', tokens: ' Token', cost: '费用' };
+
+const valueOf = (row: AiUsageDailyRow, metric: ChartMetric) =>
+  metric === 'tokens' ? row.input_tokens + row.output_tokens : metric === 'cost' ? row.cost : row.requests;
+
+const formatValue = (metric: ChartMetric | AiQuotaMetric, value: number) => {
+  if (metric === 'cost') return `¥${value.toFixed(2)}`;
+  if (value >= 10000) return `${(value / 10000).toFixed(1)}万`;
+  return Math.round(value).toLocaleString();
+};
+
+// 与 ai_usage_daily 一致按 UTC 日期分组
+const lastDays = () =>
+  Array.from({ length: DAYS }, (_, i) => new Date(Date.now() - (DAYS - 1 - i) * 86400000).toISOString().slice(0, 10));
+
+const QuotaBar = ({ usage, metric }: any) => {
+  const used = usage.used[metric];
+  const limit = usage.limit[metric];
+  const ratio = limit > 0 ? Math.min(1, used / limit) : 1;
+  const color = ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500';
+  return (
+    <div>
+      <div className="flex justify-between text-[11px] text-slate-500 mb-1">
+        <span>
+          {QUOTA_SCOPE_LABELS[usage.scope as keyof typeof QUOTA_SCOPE_LABELS]}
+          {QUOTA_PERIOD_LABELS[usage.period as keyof typeof QUOTA_PERIOD_LABELS]}
+          {QUOTA_METRIC_LABELS[metric as AiQuotaMetric]}
+        </span>
+        <span className="font-mono">
+          {formatValue(metric, used)} / {formatValue(metric, limit)}
+        </span>
+      </div>
+      <div className="h-1.5 w-full bg-slate-800/50 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${ratio * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+/** 首页 AI 用量：最近两周按模型堆叠的柱状图，以及个人 / 部门额度的使用进度 */
+const AiUsageChart: React.FC<AiUsageChartProps> = ({ userId, profile }) => {
+  const canViewAll = can(profile, 'usage:view_all');
+  const [scope, setScope] = useState<'mine' | 'all'>('mine');
+  const [metric, setMetric] = useState<ChartMetric>('tokens');
+  const [rows, setRows] = useState<AiUsageDailyRow[]>([]);
+  const [quota, setQuota] = useState<AiQuotaUsage[] | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    dataService.getAiUsageDaily(DAYS, scope === 'all' ? null : userId).then((data) => {
+      if (cancelled) return;
+      setRows(data);
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, scope]);
+
+  useEffect(() => {
+    fetchAiProxyStatus()
+      .then((status) => setQuota(status.quota))
+      .catch((err) => console.warn('AI quota unavailable', err));
+  }, [userId]);
+
+  const chart = useMemo(() => {
+    const totals = new Map<string, number>();
+    rows.forEach((row) => totals.set(row.model, (totals.get(row.model) || 0) + valueOf(row, metric)));
+    const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+    const named = ranked.slice(0, MAX_SERIES).map(([model]) => model);
+    const series = ranked.length > MAX_SERIES ? [...named, '其他'] : named;
+    const seriesOf = (model: string) => (named.includes(model) ? model : '其他');
+
+    const days = lastDays().map((day) => {
+      const values: Record<string, number> = {};
+      rows
+        .filter((row) => row.day === day)
+        .forEach((row) => {
+          const key = seriesOf(row.model);
+          values[key] = (values[key] || 0) + valueOf(row, metric);
+        });
+      return { day, values, total: Object.values(values).reduce((a, b) => a + b, 0) };
+    });
+
+    const legend = series.map((name) => ({
+      name,
+      total: name === '其他' ? ranked.slice(MAX_SERIES).reduce((sum, [, v]) => sum + v, 0) : totals.get(name) || 0,
+    }));
+    return { series, days, legend, max: Math.max(0, ...days.map((d) => d.total)), total: ranked.reduce((sum, [, v]) => sum + v, 0) };
+  }, [rows, metric]);
+
+  const limitedQuota = (quota || []).flatMap((usage) =>
+    (Object.keys(usage.limit) as AiQuotaMetric[]).filter((m) => typeof usage.limit[m] === 'number').map((m) => ({ usage, metric: m }))
+  );
+
+  return (
+    <div className="rounded-[24px] bg-[#0F1629]/90 border border-white/5 p-6 flex flex-col gap-5 backdrop-blur-xl">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <Gauge className="w-4 h-4" />
+          AI 用量
+        </h4>
+        <div className="flex gap-1">
+          {(Object.keys(METRIC_LABELS) as ChartMetric[]).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMetric(m)}
+              className={`px-2 py-0.5 rounded-md text-[11px] transition-colors ${metric === m ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-white'}`}
+            >
+              {METRIC_LABELS[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {canViewAll && (
+        <div className="flex gap-1 text-[11px]">
+          {(['mine', 'all'] as const).map((s) => (
+            <button
+              key={s}
+              onClick={() => setScope(s)}
+              className={`px-2 py-0.5 rounded-md border transition-colors ${
+                scope === s ? 'border-blue-500/40 bg-blue-500/10 text-blue-200' : 'border-white/10 text-slate-500 hover:text-white'
+              }`}
+            >
+              {s === 'mine' ? '我的' : '全公司'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-baseline justify-between mb-3">
+          <span className="text-2xl font-bold text-white tabular-nums">{formatValue(metric, chart.total)}</span>
+          <span className="text-[11px] text-slate-500">近 {DAYS} 天</span>
+        </div>
+        {loading ? (
+          <div className="h-28 flex items-center justify-center text-slate-600">
+            <Loader2 className="w-4 h-4 animate-spin" />
+          </div>
+        ) : (
+          <div className="h-28 flex items-end gap-1">
+            {chart.days.map(({ day, values, total }) => (
+              <div
+                key={day}
+                className="flex-1 h-full flex flex-col-reverse rounded-sm overflow-hidden bg-white/[0.03]"
+                title={`${day}：${formatValue(metric, total)}`}
+              >
+                {chart.series.map((name, i) =>
+                  values[name] ? (
+                    <div
+                      key={name}
+                      className={SERIES_COLORS[i]}
+                      style={{ height: `${chart.max ? (values[name] / chart.max) * 100 : 0}%` }}
+                    />
+                  ) : null
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {!loading && chart.total === 0 && <p className="mt-2 text-[11px] text-slate-500">近期没有 AI 调用记录</p>}
+        {chart.legend.length > 0 && (
+          <div className="mt-3 space-y-1">
+            {chart.legend.map(({ name, total }, i) => (
+              <div key={name} className="flex items-center justify-between text-[11px] text-slate-400">
+                <span className="flex items-center gap-1.5 min-w-0">
+                  <span className={`w-2 h-2 rounded-sm shrink-0 ${SERIES_COLORS[i]}`} />
+                  <span className="truncate">{name}</span>
+                </span>
+                <span className="font-mono text-slate-500">{formatValue(metric, total)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {limitedQuota.length > 0 && (
+        <div className="pt-4 border-t border-white/5 space-y-3">
+          {limitedQuota.map(({ usage, metric: m }) => (
+            <QuotaBar key={`${usage.scope}-${usage.period}-${m}`} usage={usage} metric={m} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiUsageChart;
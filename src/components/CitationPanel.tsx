@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { FileText, X } from 'lucide-react';
+import { markCitedSentences } from '../services/citations';
+import { DocReference } from '../../types';
+
+interface CitationPanelProps {
+  references: DocReference[];
+  activeIndex: number;
+  // 引用该来源的回答，用于标出片段中被引用的句子
+  answer: string;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+const CitationPanel: React.FC<CitationPanelProps> = ({ references, activeIndex, answer, onSelect, onClose }) => {
+  const active = references.find((r) => r.index === activeIndex) || references[0];
+  const segments = useMemo(() => (active ? markCitedSentences(active.text, answer) : []), [active, answer]);
+
+  if (!active) return null;
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-30 w-full sm:w-96 bg-[#0B1224]/95 backdrop-blur-xl border-l border-white/10 shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="h-16 px-5 border-b border-white/5 flex items-center justify-between shrink-0">
+        <div className="flex items-center gap-2 text-sm font-bold text-slate-200">
+          <FileText className="w-4 h-4 text-emerald-400" /> 引用来源
+        </div>
+        <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-5 py-3 border-b border-white/5 flex flex-wrap gap-1.5 shrink-0">
+        {references.map((ref) => (
+          <button
+            key={ref.index}
+            onClick={() => onSelect(ref.index)}
+            className={`px-2 py-0.5 rounded-md text-xs font-mono border transition-colors ${
+              ref.index === active.index
+                ? 'border-emerald-500/50 bg-emerald-500/15 text-emerald-200'
+                : 'border-white/10 text-slate-400 hover:text-white'
+            }`}
+          >
+            [{ref.index}]
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-4">
+        <div>
+          <div className="text-sm font-medium text-white break-all">{active.docName}</div>
+          <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-500">
+            {active.title && active.title !== active.docName && <span>章节：{active.title}</span>}
+            {active.pageNumber !== null && <span>第 {active.pageNumber} 页</span>}
+            {active.score !== null && <span>相关度 {active.score.toFixed(2)}</span>}
+          </div>
+        </div>
+
+        {active.text ? (
+          <p className="text-[13px] leading-relaxed text-slate-400 whitespace-pre-wrap">
+            {segments.map((seg, i) =>
+              seg.cited ? (
+                <mark key={i} className="bg-emerald-500/20 text-emerald-100 rounded px-0.5">
+                  {seg.text}
+                </mark>
+              ) : (
+                <span key={i}>{seg.text}</span>
+              )
+            )}
+          </p>
+        ) : (
+          <p className="text-xs text-slate-500">该来源没有返回片段内容</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CitationPanel;
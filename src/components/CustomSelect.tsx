@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown } from 'lucide-react';
+
+const CustomSelect = ({ value, onChange, options, placeholder = '请选择', icon: Icon, className = '' }: any) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const selectedLabel =
+    options.find((opt: any) => String(opt.value) === String(value))?.label || placeholder;
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className={`relative ${className}`} ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center justify-between bg-black/20 border transition-all duration-200 rounded-lg px-3 py-2 text-sm text-white focus:outline-none 
+          ${isOpen ? 'border-indigo-500/50 bg-black/40 ring-1 ring-indigo-500/20' : 'border-white/10 hover:bg-white/5'}
+        `}
+      >
+        <div className="flex items-center gap-2 truncate">
+          {Icon && <Icon className="w-4 h-4 text-slate-500" />}
+          <span className={!value ? 'text-slate-500' : 'text-slate-200'}>{selectedLabel}</span>
+        </div>
+        <ChevronDown
+          className={`w-4 h-4 text-slate-500 transition-transform duration-300 ${isOpen ? 'rotate-180 text-indigo-400' : ''}`}
+        />
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-50 w-full mt-2 overflow-hidden bg-[#1E293B] border border-white/10 rounded-xl shadow-[0_10px_40px_-10px_rgba(0,0,0,0.5)] backdrop-blur-xl animate-in fade-in zoom-in-95 duration-200">
+          <div className="max-h-60 overflow-y-auto scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent py-1">
+            {options.length > 0 ? (
+              options.map((opt: any) => (
+                <div
+                  key={opt.value}
+                  onClick={() => {
+                    onChange(opt.value);
+                    setIsOpen(false);
+                  }}
+                  className={`
+                      relative px-3 py-2.5 text-sm cursor-pointer flex items-center justify-between transition-colors
+                      ${String(value) === String(opt.value)
+                        ? 'bg-indigo-600/10 text-indigo-300'
+                        : 'text-slate-300 hover:bg-white/5 hover:text-white'}
+                    `}
+                >
+                  <span>{opt.label}</span>
+                  {String(value) === String(opt.value) && (
+                    <Check className="w-3.5 h-3.5 text-indigo-400" />
+                  )}
+                </div>
+              ))
+            ) : (
+              <div className="px-3 py-3 text-xs text-slate-500 text-center">无选项</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomSelect;
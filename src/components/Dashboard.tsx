@@ -22,6 +22,8 @@ import {
   Info
 } from 'lucide-react';
 import { dataService } from '../services/dataService';
+import { ROLE_LABELS, canAccessView, normalizeRole } from '../services/permissions';
+import AiUsageChart from './AiUsageChart';
 import { Module, DashboardStats, Profile, Announcement } from '../../types';
 
 interface DashboardProps {
@@ -70,6 +72,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, profile, announcements, onP
     }
   };
 
+  // 只展示当前角色有权进入的模块
+  const visibleModules = modules.filter((module) => canAccessView(profile, module.key));
+
   const handleModuleClick = async (module: Module) => {
     await dataService.logActivity(
       user.id, 
@@ -160,7 +165,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, profile, announcements, onP
 
       {/* Mobile Quick Shortcuts - compress into icon chips */}
       <div className="md:hidden grid grid-cols-2 gap-3 mb-5">
-        {modules.map((module) => (
+        {visibleModules.map((module) => (
           <button
             key={module.id}
             onClick={() => handleModuleClick(module)}
@@ -203,7 +208,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, profile, announcements, onP
                 <div className="h-48 rounded-3xl bg-white/5 animate-pulse border border-white/5" />
               </>
             ) : (
-              modules.map((module) => (
+              visibleModules.map((module) => (
                 <div 
                   key={module.id}
                   onClick={() => handleModuleClick(module)}
@@ -239,7 +244,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, profile, announcements, onP
               ))
             )}
             
-            {!loading && modules.length < 4 && (
+            {!loading && visibleModules.length < 4 && (
                <div className="rounded-[24px] border border-dashed border-white/10 bg-[#0F1629]/40 p-6 flex flex-col items-center justify-center text-center group hover:border-white/20 transition-colors min-h-[180px]">
                   <div className="w-10 h-10 rounded-full bg-white/5 flex items-center justify-center mb-3 group-hover:scale-110 transition-transform">
                     <span className="text-xl text-slate-500 group-hover:text-white">+</span>
@@ -291,7 +296,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, profile, announcements, onP
               </div>
 
               <h3 className="text-xl font-bold text-white">{profile?.full_name || '未命名'}</h3>
-              <p className="text-sm text-slate-400 mt-1">{profile?.department || '产品研发部'} · {profile?.role === 'admin' ? '管理员' : '成员'}</p>
+              <p className="text-sm text-slate-400 mt-1">{profile?.department || '产品研发部'} · {ROLE_LABELS[normalizeRole(profile?.role)]}</p>
 
               <div className="mt-6 w-full pt-6 border-t border-white/5 flex justify-between items-center text-xs text-slate-500">
                  <span className="flex items-center gap-1.5">
@@ -346,6 +351,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, profile, announcements, onP
                <span className="text-emerald-400"> +12.5% 增长</span>
             </div>
           </div>
+
+          <AiUsageChart userId={user.id} profile={profile} />
         </div>
       </div>
 
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { CheckCircle2, Layers, Loader2, X, XCircle } from 'lucide-react';
+import CustomSelect from './CustomSelect';
+import { STATUS_OPTIONS, today } from './EmployeeEditorModal';
+import { EmployeePatch } from '../services/sqlGateway';
+import { Department } from '../../types';
+
+export interface BulkOutcome {
+  P_emp_no: string;
+  employeename: string;
+  ok: boolean;
+  error?: string;
+}
+
+interface EmployeeBulkBarProps {
+  selectedCount: number;
+  departments: Department[];
+  running: boolean;
+  progress: { done: number; total: number } | null;
+  results: BulkOutcome[] | null;
+  onApply: (fields: EmployeePatch) => void;
+  onClear: () => void;
+  onCloseResults: () => void;
+}
+
+type BulkField = 'Departmentid' | 'P_emp_Status';
+
+const FIELD_OPTIONS = [
+  { value: 'Departmentid', label: '调整部门' },
+  { value: 'P_emp_Status', label: '变更状态' },
+];
+
+const EmployeeBulkBar: React.FC<EmployeeBulkBarProps> = ({
+  selectedCount,
+  departments,
+  running,
+  progress,
+  results,
+  onApply,
+  onClear,
+  onCloseResults,
+}) => {
+  const [field, setField] = useState<BulkField>('Departmentid');
+  const [value, setValue] = useState<string | number>('');
+  const [leaveDate, setLeaveDate] = useState(today());
+
+  const valueOptions =
+    field === 'Departmentid'
+      ? departments.map((d) => ({ value: d.Departmentid, label: d.departmentname }))
+      : STATUS_OPTIONS;
+
+  const handleApply = () => {
+    if (value === '') return;
+    if (field === 'Departmentid') {
+      onApply({ Departmentid: Number(value) || 0 });
+    } else if (value === '离职') {
+      onApply({ P_emp_Status: '离职', P_emp_leavedt: leaveDate });
+    } else {
+      // 改回在职状态时一并清空离职日期
+      onApply({ P_emp_Status: String(value), P_emp_leavedt: '' });
+    }
+  };
+
+  const failed = results?.filter((r) => !r.ok) || [];
+
+  return (
+    <>
+      {selectedCount > 0 && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-3xl rounded-2xl border border-indigo-500/30 bg-[#0F1629]/95 backdrop-blur-xl shadow-[0_20px_60px_-20px_rgba(79,70,229,0.6)] px-4 py-3 flex flex-wrap items-center gap-3 animate-in slide-in-from-bottom-4">
+          <div className="flex items-center gap-2 text-sm text-indigo-100">
+            <Layers size={16} className="text-indigo-400" />
+            已选择 <span className="font-mono font-bold">{selectedCount}</span> 人
+          </div>
+          <CustomSelect
+            value={field}
+            onChange={(val: any) => {
+              setField(val);
+              setValue('');
+            }}
+            options={FIELD_OPTIONS}
+            className="w-32"
+          />
+          <CustomSelect
+            value={value}
+            onChange={(val: any) => setValue(val)}
+            options={valueOptions}
+            placeholder={field === 'Departmentid' ? '目标部门' : '目标状态'}
+            className="w-36"
+          />
+          {field === 'P_emp_Status' && value === '离职' && (
+            <input
+              type="date"
+              value={leaveDate}
+              onChange={(e) => setLeaveDate(e.target.value)}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:outline-none"
+              title="离职日期"
+            />
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            {running && progress && (
+              <span className="text-xs text-slate-400 font-mono">
+                {progress.done}/{progress.total}
+              </span>
+            )}
+            <button
+              onClick={onClear}
+              disabled={running}
+              className="px-3 py-2 rounded-lg text-xs text-slate-300 hover:bg-white/5 disabled:opacity-50"
+            >
+              取消选择
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={running || value === ''}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              {running && <Loader2 className="w-3.5 h-3.5 animate-spin" />} 批量应用
+            </button>
+          </div>
+        </div>
+      )}
+
+      {results && (
+        <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-sm" onClick={onCloseResults} />
+          <div className="relative w-full max-w-lg bg-[#0F1629] border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95">
+            <div className="px-6 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between">
+              <div>
+                <h3 className="font-bold text-white text-base">批量修改结果</h3>
+                <p className="text-xs text-slate-400">
+                  成功 {results.length - failed.length} 条 · 失败 {failed.length} 条
+                </p>
+              </div>
+              <button
+                onClick={onCloseResults}
+                className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white"
+              >
+                <X size={18} />
+              </button>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto divide-y divide-white/5">
+              {results.map((r) => (
+                <div key={r.P_emp_no} className="px-6 py-3 flex items-center gap-3 text-sm">
+                  {r.ok ? (
+                    <CheckCircle2 size={16} className="text-emerald-400 shrink-0" />
+                  ) : (
+                    <XCircle size={16} className="text-red-400 shrink-0" />
+                  )}
+                  <span className="text-slate-200">{r.employeename}</span>
+                  <span className="text-xs text-slate-500 font-mono">{r.P_emp_no}</span>
+                  {!r.ok && <span className="ml-auto text-xs text-red-300 truncate max-w-[50%]">{r.error}</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default EmployeeBulkBar;
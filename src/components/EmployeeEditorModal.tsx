@@ -0,0 +1,451 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, EyeOff, History, Loader2, RotateCcw, UserMinus, UserPlus, X } from 'lucide-react';
+import CustomSelect from './CustomSelect';
+import { AUDIT_FIELD_LABELS, isAuditedField } from '../services/employeeAudit';
+import { maskValue } from '../services/maskingPolicy';
+import { Department, Employee, EmployeeAuditAction, EmployeeAuditLog } from '../../types';
+
+export type EditorMode = 'create' | 'edit';
+
+interface EmployeeEditorModalProps {
+  mode: EditorMode;
+  employee: Employee;
+  departments: Department[];
+  saving: boolean;
+  // 只读：无编辑权限时仅查看
+  readOnly?: boolean;
+  empNoError?: string | null;
+  // 按脱敏策略需要遮挡的字段；遮挡的字段只读
+  maskedFields?: string[];
+  revealed?: boolean;
+  onToggleReveal?: () => void;
+  onChange: (emp: Employee) => void;
+  onEmpNoBlur?: () => void;
+  onClose: () => void;
+  onSave: () => void;
+  onArchive?: (leaveDate: string) => void;
+  history?: EmployeeAuditLog[] | null;
+  historyLoading?: boolean;
+  historyError?: string | null;
+  revertingId?: number | null;
+  onOpenHistory?: () => void;
+  onRevert?: (entry: EmployeeAuditLog) => void;
+}
+
+type EditorTab = 'profile' | 'history';
+
+const ACTION_LABELS: Record<EmployeeAuditAction, string> = {
+  create: '新建档案',
+  update: '编辑信息',
+  archive: '办理离职',
+  bulk_update: '批量修改',
+  import: '表格导入',
+  revert: '还原字段',
+};
+
+export const STATUS_OPTIONS = [
+  { value: '正式', label: '正式员工' },
+  { value: '试用', label: '试用期' },
+  { value: '离职', label: '已离职' },
+];
+
+export const toDateInput = (value?: string | null) => (value ? String(value).split('T')[0] : '');
+
+export const today = () => new Date().toISOString().split('T')[0];
+
+// 同一次保存的多条字段变更合并成时间线上的一个节点
+const HistoryTimeline = ({ employee, departments, history, loading, error, revertingId, maskedFields, onRevert }: any) => {
+  if (loading) {
+    return (
+      <div className="py-12 text-center text-sm text-slate-500">
+        <Loader2 className="w-4 h-4 animate-spin inline-block mr-2" /> 加载历史记录...
+      </div>
+    );
+  }
+  if (error) return <div className="py-12 text-center text-sm text-red-300">{error}</div>;
+  if (!history?.length) return <div className="py-12 text-center text-sm text-slate-500">暂无变更记录</div>;
+
+  const display = (field: string, value: string | null) => {
+    if (value === null || value === '') return <span className="text-slate-600">空</span>;
+    if (field === 'Departmentid') {
+      return departments.find((d: Department) => String(d.Departmentid) === value)?.departmentname || value;
+    }
+    return maskedFields?.includes(field) ? maskValue(field, value) : value;
+  };
+
+  const groups: EmployeeAuditLog[][] = [];
+  history.forEach((entry: EmployeeAuditLog) => {
+    const last = groups[groups.length - 1];
+    if (last && entry.batch_id && last[0].batch_id === entry.batch_id) last.push(entry);
+    else groups.push([entry]);
+  });
+
+  return (
+    <div className="relative pl-5 space-y-5 before:absolute before:left-[7px] before:top-2 before:bottom-2 before:w-px before:bg-white/10">
+      {groups.map((group) => {
+        const head = group[0];
+        return (
+          <div key={head.id} className="relative">
+            <div className="absolute -left-5 top-1 w-3.5 h-3.5 rounded-full bg-[#0F1629] border-2 border-indigo-500/60" />
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+              <span className="font-medium text-indigo-200">{ACTION_LABELS[head.action] || head.action}</span>
+              <span className="text-slate-400">{head.editor_name || '未知用户'}</span>
+              <span className="text-slate-500 font-mono">{new Date(head.created_at).toLocaleString('zh-CN')}</span>
+            </div>
+            <div className="mt-2 rounded-xl border border-white/5 bg-black/20 divide-y divide-white/5">
+              {group.map((entry) => {
+                const canRevert =
+                  isAuditedField(entry.field) &&
+                  String(employee[entry.field] ?? '').split('T')[0] !== (entry.old_value ?? '');
+                return (
+                  <div key={entry.id} className="px-3 py-2 flex items-center gap-3 text-xs">
+                    <span className="w-16 shrink-0 text-slate-400">
+                      {isAuditedField(entry.field) ? AUDIT_FIELD_LABELS[entry.field] : entry.field}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate text-slate-300">
+                      <span className="line-through decoration-slate-600">{display(entry.field, entry.old_value)}</span>
+                      <span className="mx-2 text-slate-600">→</span>
+                      {display(entry.field, entry.new_value)}
+                    </span>
+                    {onRevert && canRevert && (
+                      <button
+                        onClick={() => onRevert(entry)}
+                        disabled={revertingId !== null && revertingId !== undefined}
+                        className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-md text-amber-300 hover:bg-amber-500/10 disabled:opacity-50"
+                        title="把该字段恢复为修改前的值"
+                      >
+                        {revertingId === entry.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />}
+                        还原
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const inputClass =
+  'w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none';
+
+const EmployeeEditorModal: React.FC<EmployeeEditorModalProps> = ({
+  mode,
+  employee,
+  departments,
+  saving,
+  readOnly = false,
+  empNoError,
+  maskedFields = [],
+  revealed = false,
+  onToggleReveal,
+  onChange,
+  onEmpNoBlur,
+  onClose,
+  onSave,
+  onArchive,
+  history,
+  historyLoading,
+  historyError,
+  revertingId,
+  onOpenHistory,
+  onRevert,
+}) => {
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [leaveDate, setLeaveDate] = useState(today());
+  const [tab, setTab] = useState<EditorTab>('profile');
+
+  useEffect(() => {
+    setIsArchiving(false);
+    setLeaveDate(today());
+    setTab('profile');
+  }, [employee.P_emp_no, mode]);
+
+  const openTab = (next: EditorTab) => {
+    setTab(next);
+    if (next === 'history') onOpenHistory?.();
+  };
+
+  const isCreate = mode === 'create';
+  const isResigned = employee.P_emp_Status === '离职';
+  const deptOptions = departments.map((d) => ({ value: d.Departmentid, label: d.departmentname }));
+  // 离职需走「办理离职」流程以记录离职日期，编辑时不能直接改成离职
+  const statusOptions = isCreate || !isResigned ? STATUS_OPTIONS.filter((o) => o.value !== '离职') : STATUS_OPTIONS;
+
+  const isMasked = (field: string) => maskedFields.includes(field);
+  const maskedInput = (field: string) => (
+    <input type="text" value={maskValue(field, employee[field])} disabled className={`${inputClass} opacity-60 font-mono`} title="敏感信息已脱敏" />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start md:items-center justify-center p-3 sm:p-4">
+      <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative w-full max-w-lg md:max-w-2xl bg-[#0F1629] border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 h-[90vh] md:h-auto flex flex-col">
+        <div className="px-6 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-slate-800 border border-white/10 overflow-hidden flex items-center justify-center">
+              {employee.webbmp ? (
+                <img src={employee.webbmp} className="w-full h-full object-cover" />
+              ) : isCreate ? (
+                <UserPlus size={18} className="text-indigo-300" />
+              ) : (
+                <span className="font-bold text-slate-400">{employee.employeename?.[0] || 'U'}</span>
+              )}
+            </div>
+            <div>
+              <h3 className="font-bold text-white text-base">{isCreate ? '新增员工' : readOnly ? '员工信息' : '编辑员工信息'}</h3>
+              <p className="text-xs text-slate-400">{isCreate ? '工号保存后不可修改' : `工号: ${employee.P_emp_no}`}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {!isCreate && onToggleReveal && (maskedFields.length > 0 || revealed) && (
+              <button
+                onClick={onToggleReveal}
+                className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white"
+                title={revealed ? '隐藏敏感信息' : '显示敏感信息（将记录查看日志）'}
+              >
+                {revealed ? <EyeOff size={16} /> : <Eye size={16} />}
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white">
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {!isCreate && onOpenHistory && (
+          <div className="px-6 border-b border-white/5 flex items-center gap-4 text-sm">
+            {[
+              { key: 'profile' as EditorTab, label: '基本信息' },
+              { key: 'history' as EditorTab, label: '历史记录' },
+            ].map((t) => (
+              <button
+                key={t.key}
+                onClick={() => openTab(t.key)}
+                className={`py-2.5 border-b-2 -mb-px flex items-center gap-1.5 transition-colors ${
+                  tab === t.key ? 'border-indigo-500 text-white' : 'border-transparent text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {t.key === 'history' && <History size={14} />}
+                {t.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {tab === 'history' ? (
+          <div className="p-6 overflow-y-auto flex-1">
+            <HistoryTimeline
+              employee={employee}
+              departments={departments}
+              history={history}
+              loading={historyLoading}
+              error={historyError}
+              revertingId={revertingId}
+              maskedFields={maskedFields}
+              onRevert={onRevert}
+            />
+          </div>
+        ) : (
+          <fieldset disabled={readOnly} className="p-6 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-5 overflow-y-auto flex-1 min-w-0">
+            {isCreate && (
+              <div className="col-span-full space-y-1.5">
+                <label className="text-xs font-medium text-slate-400">工号</label>
+                <input
+                  type="text"
+                  value={employee.P_emp_no}
+                  onChange={(e) => onChange({ ...employee, P_emp_no: e.target.value.trim() })}
+                  onBlur={onEmpNoBlur}
+                  className={`${inputClass} font-mono ${empNoError ? 'border-red-500/50' : ''}`}
+                  placeholder="例如 LS0100"
+                />
+                {empNoError && <p className="text-[11px] text-red-400">{empNoError}</p>}
+              </div>
+            )}
+
+            <div className="col-span-1 space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">姓名</label>
+              <input
+                type="text"
+                value={employee.employeename}
+                onChange={(e) => onChange({ ...employee, employeename: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+
+            <div className="col-span-1 space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">联系电话</label>
+              {isMasked('p_emp_phone') ? (
+                maskedInput('p_emp_phone')
+              ) : (
+                <input
+                  type="text"
+                  value={employee.p_emp_phone}
+                  onChange={(e) => onChange({ ...employee, p_emp_phone: e.target.value })}
+                  className={inputClass}
+                />
+              )}
+            </div>
+
+            <div className="col-span-1 space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">性别</label>
+              <div className="flex gap-4 pt-1">
+                {['男', '女'].map((g) => (
+                  <label
+                    key={g}
+                    className="flex items-center gap-2 cursor-pointer bg-black/20 px-3 py-1.5 rounded-lg border border-white/5 hover:bg-white/5"
+                  >
+                    <input
+                      type="radio"
+                      className="accent-indigo-500"
+                      checked={employee.P_emp_sex === g}
+                      onChange={() => onChange({ ...employee, P_emp_sex: g })}
+                    />
+                    <span className="text-sm text-slate-300">{g}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="col-span-1 space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">部门</label>
+              <CustomSelect
+                value={employee.Departmentid}
+                onChange={(val: any) => onChange({ ...employee, Departmentid: val })}
+                options={deptOptions}
+                placeholder="选择部门"
+                className="w-full"
+              />
+            </div>
+
+            <div className="col-span-1 space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">员工状态</label>
+              <CustomSelect
+                value={employee.P_emp_Status}
+                onChange={(val: any) => onChange({ ...employee, P_emp_Status: String(val) })}
+                options={statusOptions}
+                placeholder="选择状态"
+                className="w-full"
+              />
+            </div>
+
+            <div className="col-span-1 space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">学历</label>
+              {isMasked('p_emp_degree') ? (
+                maskedInput('p_emp_degree')
+              ) : (
+                <input
+                  type="text"
+                  value={employee.p_emp_degree}
+                  onChange={(e) => onChange({ ...employee, p_emp_degree: e.target.value })}
+                  className={inputClass}
+                  placeholder="本科 / 硕士 / 博士"
+                />
+              )}
+            </div>
+
+            <div className="col-span-1 space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">入职日期</label>
+              {isMasked('P_emp_workJoindt') ? (
+                maskedInput('P_emp_workJoindt')
+              ) : (
+                <input
+                  type="date"
+                  value={toDateInput(employee.P_emp_workJoindt)}
+                  onChange={(e) => onChange({ ...employee, P_emp_workJoindt: e.target.value })}
+                  className={inputClass}
+                />
+              )}
+            </div>
+
+            {isResigned && !isCreate && (
+              <div className="col-span-1 space-y-1.5">
+                <label className="text-xs font-medium text-slate-400">离职日期</label>
+                {isMasked('P_emp_leavedt') ? (
+                  maskedInput('P_emp_leavedt')
+                ) : (
+                  <input type="date" value={toDateInput(employee.P_emp_leavedt)} disabled className={`${inputClass} opacity-60`} />
+                )}
+              </div>
+            )}
+
+            <div className="col-span-full space-y-1.5">
+              <label className="text-xs font-medium text-slate-400">备注</label>
+              {isMasked('remark') ? (
+                maskedInput('remark')
+              ) : (
+                <textarea
+                  rows={3}
+                  value={employee.remark || ''}
+                  onChange={(e) => onChange({ ...employee, remark: e.target.value })}
+                  className={inputClass}
+                  placeholder="补充说明，例如证件情况、紧急联系人等"
+                />
+              )}
+            </div>
+          </fieldset>
+        )}
+
+        {isArchiving && tab === 'profile' && (
+          <div className="px-6 py-3 border-t border-red-500/20 bg-red-500/5 flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-red-200">确认为 {employee.employeename} 办理离职，离职日期：</span>
+            <input
+              type="date"
+              value={leaveDate}
+              onChange={(e) => setLeaveDate(e.target.value)}
+              className="bg-black/20 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-white focus:outline-none"
+            />
+            <div className="flex items-center gap-2 ml-auto">
+              <button
+                onClick={() => setIsArchiving(false)}
+                className="px-3 py-1.5 rounded-lg text-xs text-slate-300 hover:bg-white/5"
+              >
+                取消
+              </button>
+              <button
+                onClick={() => onArchive?.(leaveDate)}
+                disabled={saving || !leaveDate}
+                className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-500 text-white text-xs font-medium flex items-center gap-1.5 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />} 确认离职
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="px-6 py-4 border-t border-white/5 bg-white/[0.02] flex items-center gap-3">
+          {tab === 'profile' && !readOnly && !isCreate && !isResigned && onArchive && !isArchiving && (
+            <button
+              onClick={() => setIsArchiving(true)}
+              className="px-3 py-2 rounded-lg border border-red-500/20 text-red-300 hover:bg-red-500/10 text-sm flex items-center gap-2"
+            >
+              <UserMinus size={14} /> 办理离职
+            </button>
+          )}
+          <div className="flex items-center gap-3 ml-auto">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5 text-sm"
+            >
+              取消
+            </button>
+            {tab === 'profile' && !readOnly && (
+              <button
+                onClick={onSave}
+                disabled={saving || !!empNoError}
+                className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                {saving && <Loader2 className="w-4 h-4 animate-spin" />} {isCreate ? '创建员工' : '保存更改'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmployeeEditorModal;
@@ -0,0 +1,414 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowRight, CheckCircle2, FileSpreadsheet, Loader2, Upload, X, XCircle } from 'lucide-react';
+import CustomSelect from './CustomSelect';
+import { sqlGateway } from '../services/sqlGateway';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  ImportedEmployee,
+  ParsedSheet,
+  buildImportRows,
+  parseSpreadsheet,
+  suggestMapping,
+} from '../services/employeeImport';
+import { Department } from '../../types';
+
+interface EmployeeImportWizardProps {
+  departments: Department[];
+  dictionary: Record<string, string>;
+  onClose: () => void;
+  // 只传入写入成功的行
+  onImported: (rows: ImportedEmployee[]) => void;
+}
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'result';
+
+interface ImportOutcome {
+  line: number;
+  P_emp_no: string;
+  employeename: string;
+  ok: boolean;
+  error?: string;
+}
+
+// 每批提交的行数；批与批之间串行，批内由 sqlGateway.batch 并发执行
+const BATCH_SIZE = 50;
+
+const STEPS: Array<{ key: WizardStep; label: string }> = [
+  { key: 'upload', label: '选择文件' },
+  { key: 'mapping', label: '字段映射' },
+  { key: 'preview', label: '校验预览' },
+  { key: 'result', label: '导入结果' },
+];
+
+const EmployeeImportWizard: React.FC<EmployeeImportWizardProps> = ({ departments, dictionary, onClose, onImported }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [parsing, setParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [onlyErrors, setOnlyErrors] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [outcomes, setOutcomes] = useState<ImportOutcome[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fieldOptions = [
+    { value: '', label: '— 忽略此列 —' },
+    ...IMPORT_FIELDS.map((f) => ({ value: f.key, label: `${f.label}${f.required ? ' *' : ''}` })),
+  ];
+
+  const missingRequired = IMPORT_FIELDS.filter((f) => f.required && !Object.values(mapping).includes(f.key));
+
+  const importRows = useMemo<ImportRow[]>(
+    () => (sheet && step !== 'upload' ? buildImportRows(sheet, mapping, departments) : []),
+    [sheet, mapping, departments, step]
+  );
+  const validRows = importRows.filter((r) => r.errors.length === 0);
+  const invalidCount = importRows.length - validRows.length;
+  const previewRows = onlyErrors ? importRows.filter((r) => r.errors.length > 0) : importRows;
+
+  const handleFile = async (file?: File | null) => {
+    if (!file) return;
+    setParsing(true);
+    setParseError(null);
+    try {
+      const parsed = await parseSpreadsheet(file);
+      if (!parsed.rows.length) throw new Error('表格中没有数据行');
+      setSheet(parsed);
+      setMapping(suggestMapping(parsed.headers, dictionary));
+      setStep('mapping');
+    } catch (err: any) {
+      console.error(err);
+      setParseError(`文件解析失败: ${err?.message || String(err)}`);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  // 一个字段只能对应一列：选中已被占用的字段时，清空原来那一列
+  const updateMapping = (header: string, field: ImportField | '') => {
+    setMapping((prev) => {
+      const next: ColumnMapping = { ...prev };
+      if (field) {
+        Object.keys(next).forEach((h) => {
+          if (next[h] === field) next[h] = '';
+        });
+      }
+      next[header] = field;
+      return next;
+    });
+  };
+
+  const runImport = async () => {
+    if (!validRows.length) return;
+    setImporting(true);
+    setProgress({ done: 0, total: validRows.length });
+    const collected: ImportOutcome[] = [];
+    const imported: ImportedEmployee[] = [];
+    const outcomeOf = (row: ImportRow, error?: string): ImportOutcome => ({
+      line: row.line,
+      P_emp_no: row.params.P_emp_no,
+      employeename: row.params.fields.employeename,
+      ok: !error,
+      error,
+    });
+
+    try {
+      for (let start = 0; start < validRows.length; start += BATCH_SIZE) {
+        const chunk = validRows.slice(start, start + BATCH_SIZE);
+        // 先读取现有记录：row_version 用于并发校验，记录本身作为修改历史中的修改前值
+        const lookups = await Promise.allSettled(
+          chunk.map((row) => sqlGateway.rows('employee.get', { P_emp_no: row.params.P_emp_no }))
+        );
+        const ready: Array<{ row: ImportRow; previous: ImportedEmployee['previous'] }> = [];
+        lookups.forEach((lookup, i) => {
+          if (lookup.status === 'fulfilled') ready.push({ row: chunk[i], previous: lookup.value[0] ?? null });
+          else collected.push(outcomeOf(chunk[i], `读取现有记录失败: ${lookup.reason?.message || String(lookup.reason)}`));
+        });
+        const skipped = chunk.length - ready.length;
+        if (skipped) setProgress({ done: start + skipped, total: validRows.length });
+
+        const results = await sqlGateway.batch(
+          'employee.upsert',
+          ready.map(({ row, previous }) => ({
+            ...row.params,
+            expectedVersion: previous ? String(previous.row_version ?? '') : null,
+          })),
+          (done) => setProgress({ done: start + skipped + done, total: validRows.length })
+        );
+        results.forEach((r) => {
+          const { row, previous } = ready[r.index];
+          if (r.ok) imported.push({ ...row.params, previous });
+          // 未影响任何记录：读取之后该工号又被他人修改、删除或新建
+          collected.push(outcomeOf(row, r.ok ? undefined : r.error));
+        });
+      }
+    } finally {
+      setOutcomes(collected.sort((a, b) => a.line - b.line));
+      setImporting(false);
+      setStep('result');
+      if (imported.length) onImported(imported);
+    }
+  };
+
+  const failedOutcomes = outcomes.filter((o) => !o.ok);
+  const stepIndex = STEPS.findIndex((s) => s.key === step);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-start md:items-center justify-center p-3 sm:p-4">
+      <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-sm" onClick={() => !importing && onClose()} />
+      <div className="relative w-full max-w-4xl bg-[#0F1629] border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-emerald-500/10 text-emerald-400">
+              <FileSpreadsheet size={18} />
+            </div>
+            <div>
+              <h3 className="font-bold text-white text-base">批量导入员工</h3>
+              <p className="text-xs text-slate-400">{sheet ? `${sheet.fileName} · ${sheet.rows.length} 行` : '支持 .xlsx / .xls / .csv，读取第一个工作表'}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={importing}
+            className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white disabled:opacity-50"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        {/* Step indicator */}
+        <div className="px-6 py-3 border-b border-white/5 flex items-center gap-2 text-xs overflow-x-auto">
+          {STEPS.map((s, i) => (
+            <React.Fragment key={s.key}>
+              {i > 0 && <ArrowRight size={12} className="text-slate-600 shrink-0" />}
+              <span
+                className={`px-2.5 py-1 rounded-full whitespace-nowrap ${
+                  i === stepIndex
+                    ? 'bg-indigo-500/20 text-indigo-200 border border-indigo-500/30'
+                    : i < stepIndex
+                      ? 'text-emerald-300'
+                      : 'text-slate-500'
+                }`}
+              >
+                {i + 1}. {s.label}
+              </span>
+            </React.Fragment>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {step === 'upload' && (
+            <div className="p-6">
+              <div
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleFile(e.dataTransfer.files?.[0]);
+                }}
+                className="border-2 border-dashed border-white/10 hover:border-indigo-500/40 rounded-2xl p-10 flex flex-col items-center gap-3 text-center cursor-pointer transition-colors"
+              >
+                {parsing ? (
+                  <Loader2 className="w-8 h-8 animate-spin text-indigo-400" />
+                ) : (
+                  <Upload className="w-8 h-8 text-slate-400" />
+                )}
+                <div className="text-sm text-slate-200">点击或拖拽表格文件到此处</div>
+                <div className="text-xs text-slate-500">
+                  表头会按数据字典自动匹配字段（如「性别」→ P_emp_sex），部门可填写名称或编号
+                </div>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+              {parseError && (
+                <div className="mt-4 px-4 py-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-300 flex items-center gap-2">
+                  <AlertTriangle size={16} /> {parseError}
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'mapping' && sheet && (
+            <div className="p-6 space-y-3">
+              {missingRequired.length > 0 && (
+                <div className="px-4 py-3 rounded-lg bg-amber-500/10 border border-amber-500/20 text-xs text-amber-200 flex items-center gap-2">
+                  <AlertTriangle size={14} /> 尚未映射必填字段：{missingRequired.map((f) => f.label).join('、')}
+                </div>
+              )}
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-400">
+                  <tr>
+                    <th className="text-left font-medium py-2">表格列</th>
+                    <th className="text-left font-medium py-2">示例值</th>
+                    <th className="text-left font-medium py-2 w-56">对应字段</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5">
+                  {sheet.headers.map((header) => (
+                    <tr key={header}>
+                      <td className="py-2 pr-4 text-slate-200">{header}</td>
+                      <td className="py-2 pr-4 text-slate-500 font-mono text-xs truncate max-w-[200px]">
+                        {sheet.rows.find((r) => r.cells[header])?.cells[header] || '-'}
+                      </td>
+                      <td className="py-2">
+                        <CustomSelect
+                          value={mapping[header] || ''}
+                          onChange={(val: any) => updateMapping(header, val)}
+                          options={fieldOptions}
+                          className="w-full"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="p-6 space-y-3">
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="px-2.5 py-1 rounded-full bg-emerald-500/10 text-emerald-300 border border-emerald-500/20">
+                  可导入 {validRows.length} 行
+                </span>
+                <span className="px-2.5 py-1 rounded-full bg-red-500/10 text-red-300 border border-red-500/20">
+                  有错误 {invalidCount} 行（将跳过）
+                </span>
+                <label className="ml-auto flex items-center gap-2 text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="accent-indigo-500"
+                    checked={onlyErrors}
+                    onChange={(e) => setOnlyErrors(e.target.checked)}
+                  />
+                  仅显示错误行
+                </label>
+              </div>
+              <div className="overflow-x-auto rounded-xl border border-white/5">
+                <table className="w-full text-xs">
+                  <thead className="bg-white/[0.03] text-slate-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">行</th>
+                      <th className="px-3 py-2 text-left font-medium">工号</th>
+                      <th className="px-3 py-2 text-left font-medium">姓名</th>
+                      <th className="px-3 py-2 text-left font-medium">部门</th>
+                      <th className="px-3 py-2 text-left font-medium">状态</th>
+                      <th className="px-3 py-2 text-left font-medium">入职日期</th>
+                      <th className="px-3 py-2 text-left font-medium">校验结果</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/5">
+                    {previewRows.map((row) => (
+                      <tr key={row.line} className={row.errors.length ? 'bg-red-500/[0.04]' : ''}>
+                        <td className="px-3 py-2 text-slate-500 font-mono">{row.line}</td>
+                        <td className="px-3 py-2 text-slate-300 font-mono">{row.params.P_emp_no || '-'}</td>
+                        <td className="px-3 py-2 text-slate-200">{row.params.fields.employeename || '-'}</td>
+                        <td className="px-3 py-2 text-slate-300">
+                          {departments.find((d) => Number(d.Departmentid) === row.params.fields.Departmentid)?.departmentname || '-'}
+                        </td>
+                        <td className="px-3 py-2 text-slate-300">
+                          {row.params.fields.P_emp_Status || <span className="text-slate-500">不变（新建为试用）</span>}
+                        </td>
+                        <td className="px-3 py-2 text-slate-400 font-mono">{row.params.fields.P_emp_workJoindt || '-'}</td>
+                        <td className="px-3 py-2">
+                          {row.errors.length ? (
+                            <span className="text-red-300">{row.errors.join('；')}</span>
+                          ) : (
+                            <CheckCircle2 size={14} className="text-emerald-400" />
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'result' && (
+            <div className="p-6 space-y-4">
+              <div className="flex items-center gap-3 text-sm">
+                <CheckCircle2 size={18} className="text-emerald-400" />
+                <span className="text-slate-200">
+                  成功 {outcomes.length - failedOutcomes.length} 行 · 失败 {failedOutcomes.length} 行 · 跳过 {invalidCount} 行
+                </span>
+              </div>
+              {failedOutcomes.length > 0 && (
+                <div className="rounded-xl border border-white/5 divide-y divide-white/5">
+                  {failedOutcomes.map((o) => (
+                    <div key={o.line} className="px-4 py-2.5 flex items-center gap-3 text-sm">
+                      <XCircle size={16} className="text-red-400 shrink-0" />
+                      <span className="text-xs text-slate-500 font-mono">第 {o.line} 行</span>
+                      <span className="text-slate-200">{o.employeename}</span>
+                      <span className="text-xs text-slate-500 font-mono">{o.P_emp_no}</span>
+                      <span className="ml-auto text-xs text-red-300 truncate max-w-[50%]">{o.error}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 bg-white/[0.02] flex items-center gap-3">
+          {importing && (
+            <span className="text-xs text-slate-400 font-mono">
+              正在导入 {progress.done}/{progress.total}
+            </span>
+          )}
+          <div className="flex items-center gap-3 ml-auto">
+            {(step === 'mapping' || step === 'preview') && (
+              <button
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'upload')}
+                disabled={importing}
+                className="px-4 py-2 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5 text-sm disabled:opacity-50"
+              >
+                上一步
+              </button>
+            )}
+            {step === 'mapping' && (
+              <button
+                onClick={() => setStep('preview')}
+                disabled={missingRequired.length > 0}
+                className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium disabled:opacity-50"
+              >
+                校验数据
+              </button>
+            )}
+            {step === 'preview' && (
+              <button
+                onClick={runImport}
+                disabled={importing || validRows.length === 0}
+                className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+              >
+                {importing && <Loader2 className="w-4 h-4 animate-spin" />} 导入 {validRows.length} 行
+              </button>
+            )}
+            {step === 'result' && (
+              <button
+                onClick={onClose}
+                className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium"
+              >
+                完成
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmployeeImportWizard;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { GitMerge, Loader2, X } from 'lucide-react';
+import { AUDIT_FIELD_LABELS, AuditedField } from '../services/employeeAudit';
+import { MergeResult, MergeSide } from '../services/employeeMerge';
+import { maskValue } from '../services/maskingPolicy';
+import { Department, Employee } from '../../types';
+
+interface EmployeeMergeDialogProps {
+  result: MergeResult;
+  theirs: Employee;
+  departments: Department[];
+  // 当前用户无权查看明文的字段
+  maskedFields?: string[];
+  saving: boolean;
+  onResolve: (choices: Partial<Record<AuditedField, MergeSide>>) => void;
+  onCancel: () => void;
+}
+
+const EmployeeMergeDialog: React.FC<EmployeeMergeDialogProps> = ({
+  result,
+  theirs,
+  departments,
+  maskedFields = [],
+  saving,
+  onResolve,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<Partial<Record<AuditedField, MergeSide>>>({});
+
+  // 默认保留自己的修改
+  useEffect(() => {
+    setChoices(Object.fromEntries(result.conflicts.map((c) => [c.field, 'mine' as MergeSide])));
+  }, [result]);
+
+  const display = (field: AuditedField, value: string | null) => {
+    if (value === null) return <span className="text-slate-600">空</span>;
+    if (field === 'Departmentid') {
+      return departments.find((d) => String(d.Departmentid) === value)?.departmentname || value;
+    }
+    return maskedFields.includes(field) ? maskValue(field, value) : value;
+  };
+
+  const optionClass = (active: boolean) =>
+    `w-full text-left px-3 py-2 rounded-lg border text-xs transition-colors ${
+      active ? 'border-indigo-500/60 bg-indigo-500/10 text-white' : 'border-white/10 text-slate-400 hover:bg-white/5'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm" onClick={() => !saving && onCancel()} />
+      <div className="relative w-full max-w-2xl bg-[#0F1629] border border-amber-500/20 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-white/5 bg-amber-500/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-amber-500/10 text-amber-400">
+              <GitMerge size={18} />
+            </div>
+            <div>
+              <h3 className="font-bold text-white text-base">保存冲突</h3>
+              <p className="text-xs text-slate-400">
+                {theirs.employeename}（{theirs.P_emp_no}）在你编辑期间已被他人修改，请逐项确认要保留的值
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white disabled:opacity-50"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          {result.conflicts.map((c) => (
+            <div key={c.field} className="rounded-xl border border-white/5 bg-black/20 p-4 space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-slate-200">{AUDIT_FIELD_LABELS[c.field]}</span>
+                <span className="text-xs text-slate-500">原值：{display(c.field, c.base)}</span>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={() => setChoices((prev) => ({ ...prev, [c.field]: 'mine' }))} className={optionClass(choices[c.field] === 'mine')}>
+                  <div className="text-[11px] text-slate-500 mb-1">我的修改</div>
+                  {display(c.field, c.mine)}
+                </button>
+                <button onClick={() => setChoices((prev) => ({ ...prev, [c.field]: 'theirs' }))} className={optionClass(choices[c.field] === 'theirs')}>
+                  <div className="text-[11px] text-slate-500 mb-1">对方的修改</div>
+                  {display(c.field, c.theirs)}
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {result.theirsApplied.length > 0 && (
+            <div className="text-xs text-slate-400 px-1">
+              已自动合并对方修改的字段：{result.theirsApplied.map((f) => AUDIT_FIELD_LABELS[f]).join('、')}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-white/5 bg-white/[0.02] flex items-center justify-end gap-3">
+          <button
+            onClick={onCancel}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5 text-sm disabled:opacity-50"
+          >
+            返回编辑
+          </button>
+          <button
+            onClick={() => onResolve(choices)}
+            disabled={saving}
+            className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />} 合并并保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmployeeMergeDialog;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { AiFeedback, AiFeedbackFeature, DocReference } from '../../types';
+
+interface FeedbackControlsProps {
+  feature: AiFeedbackFeature;
+  prompt: string;
+  answer: string;
+  // 历史会话中打开的回答没有记录模型
+  model?: string | null;
+  // 从发起请求到回答结束的耗时；历史会话中打开的回答没有该数据
+  latencyMs?: number | null;
+  conversationId?: string | null;
+  messageId?: number;
+  references?: DocReference[];
+  // 之前已提交的评价
+  initial?: AiFeedback | null;
+}
+
+const FeedbackControls: React.FC<FeedbackControlsProps> = ({
+  feature,
+  prompt,
+  answer,
+  model = null,
+  latencyMs = null,
+  conversationId = null,
+  messageId,
+  references,
+  initial = null,
+}) => {
+  const [feedback, setFeedback] = useState<AiFeedback | null>(initial);
+  const [correctionOpen, setCorrectionOpen] = useState(false);
+  const [correction, setCorrection] = useState(initial?.correction || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setFeedback(initial);
+    setCorrection(initial?.correction || '');
+  }, [initial?.id]);
+
+  const save = async (rating: 1 | -1, correctionText: string | null) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const saved = await dataService.saveFeedback({
+        id: feedback?.id,
+        feature,
+        rating,
+        correction: correctionText,
+        prompt,
+        answer,
+        model,
+        latency_ms: latencyMs,
+        conversation_id: conversationId,
+        message_id: messageId ?? null,
+        doc_references: references?.length ? references : null,
+      });
+      setFeedback(saved);
+      return true;
+    } catch (err: any) {
+      setError(err?.message || String(err));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rate = async (rating: 1 | -1) => {
+    if (saving || feedback?.rating === rating) {
+      if (rating === -1) setCorrectionOpen((open) => !open);
+      return;
+    }
+    // 改为好评时清空之前的纠正内容
+    const ok = await save(rating, rating === -1 ? feedback?.correction ?? null : null);
+    if (ok) setCorrectionOpen(rating === -1);
+  };
+
+  const submitCorrection = async () => {
+    if (await save(-1, correction.trim() || null)) setCorrectionOpen(false);
+  };
+
+  return (
+    <div className="mt-3 text-[11px] text-slate-500">
+      <div className="flex items-center gap-1.5">
+        <span className="mr-1">{feedback ? '感谢反馈' : '回答有帮助吗？'}</span>
+        <button
+          onClick={() => rate(1)}
+          disabled={saving}
+          className={`p-1.5 rounded-md transition-colors ${
+            feedback?.rating === 1 ? 'text-emerald-300 bg-emerald-500/15' : 'hover:text-white hover:bg-white/10'
+          }`}
+          title="有帮助"
+        >
+          <ThumbsUp className="w-3.5 h-3.5" />
+        </button>
+        <button
+          onClick={() => rate(-1)}
+          disabled={saving}
+          className={`p-1.5 rounded-md transition-colors ${
+            feedback?.rating === -1 ? 'text-red-300 bg-red-500/15' : 'hover:text-white hover:bg-white/10'
+          }`}
+          title="没帮助，填写纠正"
+        >
+          <ThumbsDown className="w-3.5 h-3.5" />
+        </button>
+        {saving && <Loader2 className="w-3 h-3 animate-spin" />}
+        {feedback?.rating === -1 && feedback.correction && !correctionOpen && <span className="text-slate-400">已记录纠正</span>}
+        {error && <span className="text-red-300">{error}</span>}
+      </div>
+
+      {correctionOpen && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            rows={3}
+            placeholder="哪里不对？可以写下正确答案或应参考的文档（可选）"
+            className="w-full rounded-lg bg-black/20 border border-white/10 p-2 text-xs text-slate-200 placeholder-slate-500 focus:outline-none focus:border-emerald-500/40 resize-y"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setCorrectionOpen(false)} className="px-3 py-1 rounded-md hover:bg-white/10 hover:text-white">
+              取消
+            </button>
+            <button
+              onClick={submitCorrection}
+              disabled={saving}
+              className="px-3 py-1 rounded-md bg-white/10 text-slate-200 hover:bg-white/20 disabled:opacity-50"
+            >
+              提交纠正
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeedbackControls;
@@ -1,20 +1,142 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, ArrowLeft, Bot, User, Loader2, Eraser, Paperclip, AlertCircle, Clock, Search, BookOpen, MoreVertical } from 'lucide-react';
-import { aliyunService, ChatMessage } from '../services/aliyunService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { Send, ArrowLeft, Bot, User, Loader2, Eraser, Paperclip, AlertCircle, Clock, Search, BookOpen, MoreVertical, Layers, RotateCcw, Pin, PinOff, Pencil, Trash2, Plus, Square, RefreshCw, Gauge } from 'lucide-react';
+import { ChatMessage, isAbortError } from '../services/aliyunService';
+import { getLlmProvider } from '../services/llmGateway';
+import { isQuotaExceededError } from '../services/aiProxy';
+import { dataService } from '../services/dataService';
+import { CONTEXT_TOKEN_BUDGET, buildContextWindow, makeConversationTitle } from '../services/chatContext';
+import { normalizeCitationMarkers } from '../services/citations';
+import { knowledgeDocuments } from '../services/knowledgeDocuments';
+import { buildPassagePrompt, passagesToReferences } from '../services/documentIndexer';
+import { can } from '../services/permissions';
+import CitationPanel from './CitationPanel';
+import MarkdownContent from './MarkdownContent';
+import FeedbackControls from './FeedbackControls';
+import KnowledgeDocuments from './KnowledgeDocuments';
 import { APP_LOGO } from '../constants';
+import { AiFeedback, DocReference, KbConversation, KbSearchHit, Profile } from '../../types';
 
 interface KnowledgeBaseProps {
   onBack: () => void;
+  profile: Profile | null;
 }
 
-const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
+const GREETING: ChatMessage = {
+  role: 'assistant',
+  content: '你好！我是公司的智能知识库助手。\n你可以问我关于公司制度、技术文档或项目资料的任何问题。',
+};
+
+// 报错提示和空的占位消息不属于对话内容，也不会保存
+const isDialogue = (m: ChatMessage) => !!m.content && !m.error;
+
+// 截取关键词前后的一段文字作为搜索摘要
+const snippetAround = (text: string, keyword: string, radius: number = 18) => {
+  const at = text.toLowerCase().indexOf(keyword.toLowerCase());
+  if (at < 0) return text.slice(0, radius * 2);
+  const start = Math.max(0, at - radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, at + keyword.length + radius)}`;
+};
+
+const Highlight = ({ text, keyword }: any) => {
+  if (!keyword) return text;
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const parts = text.split(new RegExp(`(${escaped})`, 'ig'));
+  return parts.map((part: string, i: number) =>
+    part.toLowerCase() === keyword.toLowerCase() ? <mark key={i} className="bg-emerald-500/30 text-emerald-100 rounded px-0.5">{part}</mark> : part
+  );
+};
+
+const ConversationItem = ({
+  conversation,
+  active,
+  snippet,
+  keyword,
+  renaming,
+  renameText,
+  onRenameText,
+  onCommitRename,
+  onCancelRename,
+  onOpen,
+  onStartRename,
+  onTogglePin,
+  onDelete,
+}: any) => {
+  if (renaming) {
+    return (
+      <input
+        autoFocus
+        value={renameText}
+        onChange={(e) => onRenameText(e.target.value)}
+        onBlur={onCommitRename}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onCommitRename();
+          if (e.key === 'Escape') onCancelRename();
+        }}
+        className="w-full bg-black/30 border border-emerald-500/40 rounded-lg px-3 py-2 text-sm text-white focus:outline-none"
+      />
+    );
+  }
+  return (
+    <div
+      onClick={onOpen}
+      className={`group w-full text-left px-3 py-2 rounded-lg text-sm transition-colors cursor-pointer ${
+        active ? 'bg-emerald-500/10 text-white' : 'text-slate-400 hover:text-white hover:bg-white/5'
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        {conversation.pinned ? <Pin className="w-3.5 h-3.5 text-emerald-400 shrink-0" /> : <Clock className="w-3.5 h-3.5 opacity-50 shrink-0" />}
+        <span className="truncate flex-1">
+          <Highlight text={conversation.title} keyword={keyword} />
+        </span>
+        <span className="hidden group-hover:flex items-center gap-0.5 shrink-0" onClick={(e) => e.stopPropagation()}>
+          <button onClick={onTogglePin} className="p-1 rounded hover:bg-white/10" title={conversation.pinned ? '取消置顶' : '置顶'}>
+            {conversation.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+          </button>
+          <button onClick={onStartRename} className="p-1 rounded hover:bg-white/10" title="重命名">
+            <Pencil className="w-3 h-3" />
+          </button>
+          <button onClick={onDelete} className="p-1 rounded hover:bg-red-500/20 hover:text-red-300" title="删除">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </span>
+      </div>
+      {snippet && (
+        <div className="mt-1 pl-5 text-[11px] text-slate-500 line-clamp-2">
+          <Highlight text={snippetAround(snippet, keyword)} keyword={keyword} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack, profile }) => {
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { role: 'assistant', content: '你好！我是公司的智能知识库助手。\n你可以问我关于公司制度、技术文档或项目资料的任何问题。' }
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>([GREETING]);
   const [loading, setLoading] = useState(false);
+  // 上下文起点：该下标之前的消息不再发送给模型（0 号是本地欢迎语，始终不发送）
+  const [contextStart, setContextStart] = useState(1);
+  const [showContext, setShowContext] = useState(false);
+
+  // 历史会话
+  const [conversations, setConversations] = useState<KbConversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [historyQuery, setHistoryQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<KbSearchHit[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  // 当前打开的引用：哪条回答的第几个来源
+  const [citation, setCitation] = useState<{ messageIndex: number; refIndex: number } | null>(null);
+  const [showDocuments, setShowDocuments] = useState(false);
+  // 正在编辑的用户消息下标；提交后从该处分叉出新的对话
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editText, setEditText] = useState('');
+  // 当前会话中已提交的回答评价，按 message_id 索引
+  const [feedbackByMessage, setFeedbackByMessage] = useState<Record<number, AiFeedback>>({});
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom
   const scrollToBottom = () => {
@@ -25,58 +147,323 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
     scrollToBottom();
   }, [messages]);
 
+  const conversation = (list: ChatMessage[], start: number = contextStart) => list.slice(start).filter(isDialogue);
+
+  // 下一次提问时会带上的历史
+  const contextWindow = useMemo(() => buildContextWindow(conversation(messages)), [messages, contextStart]);
+  const inContext = new Set(contextWindow.messages);
+
+  const resetContext = () => {
+    setContextStart(messages.length);
+    setShowContext(false);
+    // 保存的是边界之前已落库的消息条数（报错消息不落库）
+    if (activeId) {
+      dataService
+        .updateConversation(activeId, { context_start: messages.slice(1).filter(isDialogue).length })
+        .catch((err) => console.error(err));
+    }
+  };
+
+  const startNewConversation = () => {
+    if (loading) return;
+    setActiveId(null);
+    setEditingIndex(null);
+    setFeedbackByMessage({});
+    setMessages([GREETING]);
+    setContextStart(1);
+    setShowContext(false);
+    setCitation(null);
+  };
+
+  // --- History ---
+  const loadConversations = async () => setConversations(await dataService.listConversations());
+
+  useEffect(() => {
+    loadConversations();
+  }, []);
+
+  useEffect(() => {
+    const keyword = historyQuery.trim();
+    if (!keyword) {
+      setSearchHits(null);
+      setSearching(false);
+      return;
+    }
+    setSearching(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        setSearchHits(await dataService.searchConversations(keyword));
+      } catch (err) {
+        console.error(err);
+        setSearchHits([]);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+    return () => window.clearTimeout(timer);
+  }, [historyQuery]);
+
+  const openConversation = async (conv: KbConversation) => {
+    if (loading || conv.id === activeId) return;
+    setActiveId(conv.id);
+    setShowContext(false);
+    setEditingIndex(null);
+    try {
+      const [stored, feedback] = await Promise.all([
+        dataService.getConversationMessages(conv.id),
+        dataService.getConversationFeedback(conv.id),
+      ]);
+      setFeedbackByMessage(feedback);
+      setMessages([
+        GREETING,
+        ...stored.map((m) => ({ id: m.id, role: m.role, content: m.content, references: m.doc_references || undefined })),
+      ]);
+      setCitation(null);
+      setContextStart(1 + conv.context_start);
+    } catch (err: any) {
+      setMessages([GREETING, { role: 'assistant', content: '', error: err?.message || '对话记录加载失败' }]);
+      setContextStart(1);
+    }
+  };
+
+  // 每轮问答完成后落库；第一轮时用问题生成标题并创建会话
+  const persistTurn = async (question: string, answer: string, references: DocReference[]) => {
+    try {
+      let id = activeId;
+      if (!id) {
+        const created = await dataService.createConversation(makeConversationTitle(question));
+        id = created.id;
+        setActiveId(id);
+      }
+      const saved = await dataService.appendConversationMessages(id, [
+        { role: 'user', content: question },
+        { role: 'assistant', content: answer, doc_references: references.length ? references : null },
+      ]);
+      if (saved?.length === 2) {
+        setMessages((prev) => {
+          const next = [...prev];
+          next[next.length - 2] = { ...next[next.length - 2], id: saved[0].id };
+          next[next.length - 1] = { ...next[next.length - 1], id: saved[1].id };
+          return next;
+        });
+      }
+      await loadConversations();
+    } catch (err) {
+      console.error('Failed to save conversation', err);
+    }
+  };
+
+  // 编辑历史提问后另存为新会话：复制编辑点之前的消息，原会话保持不变
+  const persistFork = async (base: ChatMessage[], start: number, question: string, answer: string, references: DocReference[]) => {
+    try {
+      const source = conversations.find((c) => c.id === activeId);
+      const created = await dataService.createConversation(`${source?.title || makeConversationTitle(question)}（分支）`);
+      const history = base.slice(1).filter(isDialogue);
+      const saved = await dataService.appendConversationMessages(created.id, [
+        ...history.map((m) => ({
+          role: m.role as 'user' | 'assistant',
+          content: m.content,
+          doc_references: m.references?.length ? m.references : null,
+        })),
+        { role: 'user', content: question },
+        { role: 'assistant', content: answer, doc_references: references.length ? references : null },
+      ]);
+      if (start > 1) {
+        await dataService.updateConversation(created.id, { context_start: base.slice(1, start).filter(isDialogue).length });
+      }
+      setActiveId(created.id);
+      if (saved) {
+        setMessages((prev) => {
+          let k = 0;
+          return prev.map((m, i) => (i > 0 && isDialogue(m) ? { ...m, id: saved[k++]?.id } : m));
+        });
+      }
+      await loadConversations();
+    } catch (err) {
+      console.error('Failed to fork conversation', err);
+    }
+  };
+
+  const updateLocal = (id: string, patch: Partial<KbConversation>) => {
+    setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+    setSearchHits((prev) => prev && prev.map((h) => (h.conversation.id === id ? { ...h, conversation: { ...h.conversation, ...patch } } : h)));
+  };
+
+  const commitRename = async () => {
+    const id = renamingId;
+    const title = renameText.trim();
+    setRenamingId(null);
+    if (!id || !title) return;
+    try {
+      await dataService.updateConversation(id, { title });
+      updateLocal(id, { title });
+    } catch (err: any) {
+      alert(err?.message || String(err));
+    }
+  };
+
+  const togglePin = async (conv: KbConversation) => {
+    try {
+      await dataService.updateConversation(conv.id, { pinned: !conv.pinned });
+      updateLocal(conv.id, { pinned: !conv.pinned });
+      await loadConversations();
+    } catch (err: any) {
+      alert(err?.message || String(err));
+    }
+  };
+
+  const removeConversation = async (conv: KbConversation) => {
+    if (!window.confirm(`确定删除对话「${conv.title}」吗？`)) return;
+    try {
+      await dataService.deleteConversation(conv.id);
+      if (conv.id === activeId) startNewConversation();
+      setSearchHits((prev) => prev && prev.filter((h) => h.conversation.id !== conv.id));
+      await loadConversations();
+    } catch (err: any) {
+      alert(err?.message || String(err));
+    }
+  };
+
   // Focus input on mount
   useEffect(() => {
     inputRef.current?.focus();
   }, []);
 
-  const handleSend = async () => {
-    if (!input.trim() || loading) return;
+  // 离开页面时中止仍在进行的请求
+  useEffect(() => () => abortRef.current?.abort(), []);
 
-    const userMsg: ChatMessage = { role: 'user', content: input };
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+  const patchLast = (patch: Partial<ChatMessage>) =>
+    setMessages((prev) => {
+      const next = [...prev];
+      next[next.length - 1] = { ...next[next.length - 1], ...patch };
+      return next;
+    });
+
+  /**
+   * 在 base 之后发起一轮问答
+   * start 为本轮使用的上下文起点；persist 负责落库（正常结束或用户停止时调用，出错时不保存）
+   */
+  const runTurn = async (
+    base: ChatMessage[],
+    question: string,
+    start: number,
+    persist: (answer: string, references: DocReference[]) => Promise<void>
+  ) => {
+    const userMsg: ChatMessage = { role: 'user', content: question };
+    setMessages([...base, userMsg, { role: 'assistant', content: '' }]);
     setLoading(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let fullText = "";
+    let references: DocReference[] = [];
+
     try {
-      // Create a placeholder for assistant response
-      const assistantMsg: ChatMessage = { role: 'assistant', content: '' };
-      setMessages(prev => [...prev, assistantMsg]);
-
-      // Stream response
-      let fullText = "";
-      await aliyunService.chatStream([...messages, userMsg], (chunk) => {
-        fullText += chunk;
-        setMessages(prev => {
-           const newMsgs = [...prev];
-           newMsgs[newMsgs.length - 1].content = fullText;
-           return newMsgs;
-        });
-      });
-      
+      // Stream response (带上裁剪后的历史窗口)
+      const { messages: windowMsgs } = buildContextWindow([...conversation(base, start), userMsg]);
+      // 新上传的文档可能尚未同步到百炼知识库，命中的片段作为系统提示一并发送
+      const passages = await knowledgeDocuments.search(question);
+      const requestMsgs: ChatMessage[] = passages.length
+        ? [{ role: 'system', content: buildPassagePrompt(passages) }, ...windowMsgs]
+        : windowMsgs;
+
+      const provider = await getLlmProvider('knowledge');
+      const startedAt = performance.now();
+      try {
+        await provider.chatStream(
+          requestMsgs,
+          (chunk) => {
+            fullText += chunk;
+            patchLast({ content: fullText });
+          },
+          {
+            signal: controller.signal,
+            onReferences: (refs) => {
+              references = refs;
+              patchLast({ references: refs });
+            },
+          }
+        );
+      } catch (error) {
+        if (!isAbortError(error)) throw error;
+        patchLast({ stopped: true });
+      }
+      patchLast({ latencyMs: Math.round(performance.now() - startedAt), model: provider.model('knowledge') });
+
+      if (passages.length) {
+        const lastIndex = references.length ? references[references.length - 1].index : 0;
+        references = [...references, ...passagesToReferences(passages, lastIndex + 1)];
+        patchLast({ references });
+      }
+
+      if (fullText) await persist(fullText, references);
     } catch (error: any) {
-      // Remove the empty loading placeholder if it exists and is empty
-      setMessages(prev => {
-        const lastMsg = prev[prev.length - 1];
-        if (lastMsg.role === 'assistant' && lastMsg.content === '') {
-          return prev.slice(0, -1);
-        }
-        return prev;
-      });
-
-      // Show error message
-      setMessages(prev => [...prev, { 
-        role: 'assistant', 
-        content: `❌ 出错了: ${error.message || '连接知识库失败'}` 
-      }]);
+      // 保留已收到的部分内容，错误单独展示，不混入回答
+      patchLast({ error: error?.message || '连接知识库失败', quotaExceeded: isQuotaExceededError(error) });
       console.error(error);
     } finally {
+      abortRef.current = null;
       setLoading(false);
       // Refocus input after sending
       setTimeout(() => inputRef.current?.focus(), 100);
     }
   };
 
+  const handleSend = () => {
+    if (!input.trim() || loading) return;
+    const question = input;
+    setInput('');
+    setEditingIndex(null);
+    runTurn(messages, question, contextStart, (answer, references) => persistTurn(question, answer, references));
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  // 重新生成最后一个回答：替换库中的最后一轮
+  const handleRegenerate = () => {
+    if (loading) return;
+    let userIdx = messages.length - 1;
+    while (userIdx > 0 && messages[userIdx].role !== 'user') userIdx--;
+    if (userIdx < 1) return;
+
+    const question = messages[userIdx].content;
+    const storedId = messages[userIdx].id;
+    const convId = activeId;
+    runTurn(messages.slice(0, userIdx), question, Math.min(contextStart, userIdx), async (answer, references) => {
+      if (convId && storedId !== undefined) {
+        try {
+          await dataService.deleteConversationMessagesFrom(convId, storedId);
+        } catch (err) {
+          console.error(err);
+          return;
+        }
+      }
+      await persistTurn(question, answer, references);
+    });
+  };
+
+  const startEdit = (index: number) => {
+    if (loading) return;
+    setEditingIndex(index);
+    setEditText(messages[index].content);
+  };
+
+  // 修改历史提问并重新发送：编辑点之后已保存过内容时另存为分支会话
+  const submitEdit = () => {
+    const index = editingIndex;
+    const question = editText.trim();
+    setEditingIndex(null);
+    if (index === null || !question || loading) return;
+
+    const base = messages.slice(0, index);
+    const start = Math.min(contextStart, index);
+    const fork = !!activeId && messages.slice(index).some((m) => m.id !== undefined);
+    setContextStart(start);
+    runTurn(base, question, start, (answer, references) =>
+      fork ? persistFork(base, start, question, answer, references) : persistTurn(question, answer, references)
+    );
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -99,19 +486,53 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
            <BookOpen className="w-5 h-5 text-emerald-500" />
            <span className="font-bold text-slate-200">知识库索引</span>
         </div>
-        <div className="p-3">
+        <div className="p-3 flex-1 min-h-0 flex flex-col">
+           <button
+             onClick={startNewConversation}
+             disabled={loading}
+             className="mb-3 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg border border-emerald-500/30 text-sm text-emerald-300 hover:bg-emerald-500/10 transition-colors disabled:opacity-50"
+           >
+             <Plus className="w-4 h-4" /> 新对话
+           </button>
            <div className="relative mb-4">
              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
-             <input type="text" placeholder="搜索历史..." className="w-full bg-black/20 border border-white/10 rounded-lg pl-9 pr-3 py-2 text-xs text-white focus:outline-none focus:border-emerald-500/50" />
+             <input
+               type="text"
+               value={historyQuery}
+               onChange={(e) => setHistoryQuery(e.target.value)}
+               placeholder="搜索历史..."
+               className="w-full bg-black/20 border border-white/10 rounded-lg pl-9 pr-3 py-2 text-xs text-white focus:outline-none focus:border-emerald-500/50"
+             />
+             {searching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-500 animate-spin" />}
            </div>
-           
-           <div className="space-y-1">
-             <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 pl-2">最近对话</div>
-             {['公司行政制度查询', 'API 接口文档 v2', 'Q3 季度报销流程'].map((item, i) => (
-               <button key={i} className="w-full text-left px-3 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5 transition-colors flex items-center gap-2 truncate">
-                 <Clock className="w-3.5 h-3.5 opacity-50" />
-                 <span className="truncate">{item}</span>
-               </button>
+
+           <div className="space-y-1 flex-1 min-h-0 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-800">
+             <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 pl-2">
+               {searchHits ? `搜索结果 (${searchHits.length})` : '最近对话'}
+             </div>
+             {(searchHits ? searchHits.map((h) => h.conversation) : conversations).length === 0 && (
+               <div className="px-3 py-4 text-xs text-slate-600">{searchHits ? '没有匹配的对话' : '还没有对话记录'}</div>
+             )}
+             {(searchHits || conversations.map((c) => ({ conversation: c, snippet: null }))).map(({ conversation: conv, snippet }) => (
+               <ConversationItem
+                 key={conv.id}
+                 conversation={conv}
+                 active={conv.id === activeId}
+                 snippet={snippet}
+                 keyword={searchHits ? historyQuery.trim() : ''}
+                 renaming={renamingId === conv.id}
+                 renameText={renameText}
+                 onRenameText={setRenameText}
+                 onCommitRename={commitRename}
+                 onCancelRename={() => setRenamingId(null)}
+                 onOpen={() => openConversation(conv)}
+                 onStartRename={() => {
+                   setRenamingId(conv.id);
+                   setRenameText(conv.title);
+                 }}
+                 onTogglePin={() => togglePin(conv)}
+                 onDelete={() => removeConversation(conv)}
+               />
              ))}
            </div>
         </div>
@@ -143,11 +564,44 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
              </div>
           </div>
           
-          <div className="flex items-center gap-2">
+          <div className="relative flex items-center gap-2">
+             <button
+               onClick={() => setShowContext((v) => !v)}
+               className={`px-2.5 py-1.5 text-xs flex items-center gap-1.5 rounded-lg transition-colors ${showContext ? 'bg-white/10 text-white' : 'text-slate-500 hover:text-white hover:bg-white/5'}`}
+               title="查看当前上下文"
+             >
+               <Layers className="w-4 h-4" />
+               <span className="hidden sm:inline">上下文 {contextWindow.messages.length} 条</span>
+             </button>
+             {showContext && (
+               <div className="absolute right-0 top-11 z-20 w-80 max-h-96 overflow-y-auto rounded-xl border border-white/10 bg-[#0F1629] shadow-2xl p-3 space-y-2">
+                 <div className="flex items-center justify-between text-[11px] text-slate-400">
+                   <span>约 {contextWindow.tokens} / {CONTEXT_TOKEN_BUDGET} tokens</span>
+                   {contextWindow.dropped > 0 && <span>较早的 {contextWindow.dropped} 条已省略</span>}
+                 </div>
+                 {contextWindow.messages.length === 0 ? (
+                   <div className="py-4 text-center text-xs text-slate-500">暂无上下文，下一个问题将作为新话题</div>
+                 ) : (
+                   contextWindow.messages.map((m, i) => (
+                     <div key={i} className="text-xs rounded-lg bg-black/20 px-2.5 py-1.5">
+                       <span className={m.role === 'user' ? 'text-blue-300' : 'text-emerald-300'}>{m.role === 'user' ? '我' : '助手'}：</span>
+                       <span className="text-slate-300 line-clamp-2">{m.content}</span>
+                     </div>
+                   ))
+                 )}
+                 <button
+                   onClick={resetContext}
+                   disabled={loading || contextWindow.messages.length === 0}
+                   className="w-full mt-1 py-1.5 rounded-lg border border-white/10 text-xs text-slate-300 hover:bg-white/5 flex items-center justify-center gap-1.5 disabled:opacity-50"
+                 >
+                   <RotateCcw className="w-3.5 h-3.5" /> 重置上下文（保留聊天记录）
+                 </button>
+               </div>
+             )}
              <button 
-               onClick={() => setMessages([messages[0]])}
+               onClick={startNewConversation}
                className="p-2 text-slate-500 hover:text-white transition-colors hover:bg-white/5 rounded-lg"
-               title="清空对话"
+               title="新对话"
              >
                <Eraser className="w-5 h-5" />
              </button>
@@ -159,38 +613,160 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
 
         {/* Chat Stream */}
         <div className="flex-1 overflow-y-auto p-4 md:p-8 space-y-8 scrollbar-thin scrollbar-thumb-slate-800 scrollbar-track-transparent bg-white/5 border-t border-b border-white/5">
-          {messages.map((msg, idx) => (
+          {messages.map((msg, idx) => {
+            const outOfContext = idx > 0 && !loading && isDialogue(msg) && !inContext.has(msg);
+            const isLast = idx === messages.length - 1;
+            const failed = !!msg.error && !msg.content;
+            return (
+            <React.Fragment key={idx}>
+            {idx === contextStart && idx > 1 && (
+              <div className="flex items-center gap-3 text-[11px] text-slate-500">
+                <div className="flex-1 h-px bg-white/10" />
+                上下文已重置，之前的对话不再参与回答
+                <div className="flex-1 h-px bg-white/10" />
+              </div>
+            )}
             <div 
-              key={idx} 
-              className={`flex gap-4 md:gap-6 ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-2 duration-300`}
+              className={`group flex gap-4 md:gap-6 ${msg.role === 'user' ? 'justify-end' : 'justify-start'} ${outOfContext ? 'opacity-50' : ''} animate-in slide-in-from-bottom-2 duration-300`}
+              title={outOfContext ? '不在当前上下文中' : undefined}
             >
               {msg.role === 'assistant' && (
                 <div className="w-10 h-10 rounded-full bg-[#0F1629] border border-white/10 flex items-center justify-center shrink-0 mt-1 shadow-lg">
-                   {msg.content.startsWith('❌') ? (
+                   {failed && msg.quotaExceeded ? (
+                     <Gauge className="w-5 h-5 text-amber-400" />
+                   ) : failed ? (
                      <AlertCircle className="w-5 h-5 text-red-400" />
                    ) : (
                      <img src={APP_LOGO} className="w-6 h-6 opacity-90" alt="AI" />
                    )}
                 </div>
               )}
-              
+
+              {msg.role === 'user' && !loading && editingIndex !== idx && (
+                <button
+                  onClick={() => startEdit(idx)}
+                  className="self-center p-1.5 rounded-md text-slate-500 opacity-0 group-hover:opacity-100 hover:text-white hover:bg-white/10 transition-opacity"
+                  title="编辑并重新发送"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+
               <div className={`
-                max-w-[85%] md:max-w-[70%] rounded-2xl px-6 py-4 text-[15px] leading-relaxed whitespace-pre-wrap shadow-md
+                max-w-[85%] md:max-w-[70%] rounded-2xl px-6 py-4 text-[15px] leading-relaxed shadow-md
                 ${msg.role === 'user'
-                  ? 'bg-gradient-to-br from-blue-500 to-indigo-600 text-white rounded-tr-sm shadow-[0_15px_45px_-30px_rgba(79,70,229,0.9)]'
-                  : msg.content.startsWith('❌')
-                    ? 'bg-red-950/30 text-red-200 border border-red-500/20 rounded-tl-sm'
+                  ? `bg-gradient-to-br from-blue-500 to-indigo-600 text-white rounded-tr-sm whitespace-pre-wrap shadow-[0_15px_45px_-30px_rgba(79,70,229,0.9)] ${editingIndex === idx ? 'w-full' : ''}`
+                  : failed && msg.quotaExceeded
+                    ? 'bg-amber-950/30 text-amber-100 border border-amber-500/20 rounded-tl-sm whitespace-pre-wrap'
+                  : failed
+                    ? 'bg-red-950/30 text-red-200 border border-red-500/20 rounded-tl-sm whitespace-pre-wrap'
                     : 'bg-[#0f1628]/80 backdrop-blur-xl text-slate-100 border border-white/5 rounded-tl-sm shadow-[0_15px_45px_-30px_rgba(15,23,42,0.8)]'}
               `}>
-                {msg.role === 'assistant' && msg.content === '' && loading ? (
+                {msg.role === 'assistant' && msg.content === '' && !msg.error && loading ? (
                    <div className="flex gap-1.5 items-center h-6">
                       <span className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce delay-0"></span>
                       <span className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce delay-150"></span>
                       <span className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce delay-300"></span>
                    </div>
+                ) : msg.role === 'assistant' ? (
+                  <>
+                    {msg.content && (
+                      <MarkdownContent
+                        content={normalizeCitationMarkers(msg.content)}
+                        streaming={loading && isLast}
+                      />
+                    )}
+                    {msg.error && msg.quotaExceeded ? (
+                      <div className={`flex items-start gap-2 text-sm text-amber-200 ${msg.content ? 'mt-3 pt-3 border-t border-amber-500/20' : ''}`}>
+                        {!!msg.content && <Gauge className="w-4 h-4 mt-0.5 shrink-0" />}
+                        <span>AI 额度已用完：{msg.error}</span>
+                      </div>
+                    ) : msg.error && (
+                      <div className={`flex items-start gap-2 text-sm text-red-300 ${msg.content ? 'mt-3 pt-3 border-t border-red-500/20' : ''}`}>
+                        {!!msg.content && <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />}
+                        <span>出错了：{msg.error}</span>
+                      </div>
+                    )}
+                    {msg.stopped && <div className="mt-2 text-[11px] text-slate-500">已停止生成</div>}
+                  </>
+                ) : editingIndex === idx ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          submitEdit();
+                        }
+                        if (e.key === 'Escape') setEditingIndex(null);
+                      }}
+                      autoFocus
+                      rows={3}
+                      className="w-full min-w-[240px] bg-black/20 rounded-lg p-2 text-sm text-white placeholder-blue-200/60 focus:outline-none resize-y"
+                    />
+                    <div className="flex justify-end gap-2 text-xs">
+                      <button onClick={() => setEditingIndex(null)} className="px-3 py-1 rounded-md bg-white/10 hover:bg-white/20">
+                        取消
+                      </button>
+                      <button
+                        onClick={submitEdit}
+                        disabled={!editText.trim()}
+                        className="px-3 py-1 rounded-md bg-white text-indigo-700 font-medium hover:bg-blue-50 disabled:opacity-50"
+                      >
+                        发送
+                      </button>
+                    </div>
+                  </div>
                 ) : (
                   msg.content
                 )}
+                {msg.role === 'assistant' && !!msg.references?.length && (
+                  <div className="mt-3 pt-3 border-t border-white/5 flex flex-wrap gap-1.5">
+                    {msg.references.map((ref) => (
+                      <button
+                        key={ref.index}
+                        onClick={() => {
+                          setShowDocuments(false);
+                          setCitation({ messageIndex: idx, refIndex: ref.index });
+                        }}
+                        className={`max-w-full flex items-center gap-1.5 px-2 py-1 rounded-md border text-[11px] transition-colors ${
+                          citation?.messageIndex === idx && citation.refIndex === ref.index
+                            ? 'border-emerald-500/50 bg-emerald-500/15 text-emerald-200'
+                            : 'border-white/10 text-slate-400 hover:text-white hover:bg-white/5'
+                        }`}
+                        title={ref.docName}
+                      >
+                        <span className="font-mono">[{ref.index}]</span>
+                        <span className="truncate max-w-[180px]">{ref.docName}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {msg.role === 'assistant' && idx > 1 && isDialogue(msg) && !(loading && isLast) && (
+                  <FeedbackControls
+                    key={`${activeId}-${msg.id ?? idx}`}
+                    feature="knowledge"
+                    prompt={messages[idx - 1]?.role === 'user' ? messages[idx - 1].content : ''}
+                    answer={msg.content}
+                    model={msg.model}
+                    latencyMs={msg.latencyMs}
+                    conversationId={activeId}
+                    messageId={msg.id}
+                    references={msg.references}
+                    initial={msg.id !== undefined ? feedbackByMessage[msg.id] : null}
+                  />
+                )}
+                {msg.role === 'assistant' && isLast && idx > 1 && !loading && !msg.quotaExceeded && (
+                  <div className="mt-3 flex justify-end">
+                    <button
+                      onClick={handleRegenerate}
+                      className="flex items-center gap-1.5 text-[11px] text-slate-400 hover:text-white transition-colors"
+                    >
+                      <RefreshCw className="w-3 h-3" /> {msg.error ? '重试' : '重新生成'}
+                    </button>
+                  </div>
+                )}
               </div>
 
               {msg.role === 'user' && (
@@ -199,7 +775,9 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
                 </div>
               )}
             </div>
-          ))}
+            </React.Fragment>
+            );
+          })}
           <div ref={messagesEndRef} className="h-4" />
         </div>
 
@@ -209,7 +787,14 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
              {/* Glass Container */}
             <div className="relative flex items-end gap-3 p-2 rounded-2xl bg-[#1E293B]/80 border border-white/10 focus-within:border-emerald-500/40 focus-within:bg-[#1E293B] transition-all shadow-2xl backdrop-blur-xl">
               
-              <button className="p-3 text-slate-400 hover:text-emerald-400 transition-colors rounded-xl hover:bg-white/5 mb-0.5">
+              <button
+                onClick={() => {
+                  setCitation(null);
+                  setShowDocuments(true);
+                }}
+                className="p-3 text-slate-400 hover:text-emerald-400 transition-colors rounded-xl hover:bg-white/5 mb-0.5"
+                title="知识库文档"
+              >
                 <Paperclip className="w-5 h-5" />
               </button>
 
@@ -224,18 +809,28 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
                 style={{ height: 'auto', minHeight: '50px' }} 
               />
 
-              <button
-                onClick={handleSend}
-                disabled={!input.trim() || loading}
-                className={`
-                  p-3 rounded-xl mb-0.5 transition-all duration-300 flex items-center justify-center
-                  ${!input.trim() || loading 
-                    ? 'bg-white/5 text-slate-500 cursor-not-allowed' 
-                    : 'bg-emerald-500 text-white shadow-[0_0_20px_rgba(16,185,129,0.4)] hover:bg-emerald-400 hover:scale-105 active:scale-95'}
-                `}
-              >
-                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
-              </button>
+              {loading ? (
+                <button
+                  onClick={handleStop}
+                  className="p-3 rounded-xl mb-0.5 flex items-center justify-center bg-white/10 text-slate-200 hover:bg-red-500/80 hover:text-white transition-all duration-300"
+                  title="停止生成"
+                >
+                  <Square className="w-5 h-5 fill-current" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSend}
+                  disabled={!input.trim()}
+                  className={`
+                    p-3 rounded-xl mb-0.5 transition-all duration-300 flex items-center justify-center
+                    ${!input.trim()
+                      ? 'bg-white/5 text-slate-500 cursor-not-allowed' 
+                      : 'bg-emerald-500 text-white shadow-[0_0_20px_rgba(16,185,129,0.4)] hover:bg-emerald-400 hover:scale-105 active:scale-95'}
+                  `}
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
             </div>
             <div className="text-center mt-3">
               <p className="text-[10px] text-slate-500 font-medium tracking-wide">
@@ -245,6 +840,18 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ onBack }) => {
           </div>
         </div>
 
+        {citation && messages[citation.messageIndex]?.references && (
+          <CitationPanel
+            references={messages[citation.messageIndex].references!}
+            activeIndex={citation.refIndex}
+            answer={messages[citation.messageIndex].content}
+            onSelect={(refIndex) => setCitation({ ...citation, refIndex })}
+            onClose={() => setCitation(null)}
+          />
+        )}
+        {showDocuments && (
+          <KnowledgeDocuments canManage={can(profile, 'knowledge:upload')} onClose={() => setShowDocuments(false)} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, FileText, Loader2, RefreshCw, Trash2, Upload, X } from 'lucide-react';
+import { knowledgeDocuments } from '../services/knowledgeDocuments';
+import { DOCUMENT_ACCEPT } from '../services/documentParser';
+import { KbDocument, KbDocumentStatus } from '../../types';
+
+interface KnowledgeDocumentsProps {
+  // 管理员与人事经理可以上传、重建索引和删除，其他角色只能查看
+  canManage: boolean;
+  onClose: () => void;
+}
+
+const STATUS_META: Record<KbDocumentStatus, { label: string; className: string }> = {
+  uploading: { label: '上传中', className: 'text-sky-300 bg-sky-500/10 border-sky-500/30' },
+  parsing: { label: '解析中', className: 'text-sky-300 bg-sky-500/10 border-sky-500/30' },
+  indexing: { label: '索引中', className: 'text-amber-300 bg-amber-500/10 border-amber-500/30' },
+  ready: { label: '已就绪', className: 'text-emerald-300 bg-emerald-500/10 border-emerald-500/30' },
+  failed: { label: '失败', className: 'text-red-300 bg-red-500/10 border-red-500/30' },
+};
+
+const isBusy = (status: KbDocumentStatus) => status === 'uploading' || status === 'parsing' || status === 'indexing';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const KnowledgeDocuments: React.FC<KnowledgeDocumentsProps> = ({ canManage, onClose }) => {
+  const [documents, setDocuments] = useState<KbDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDocuments = async () => {
+    setLoading(true);
+    setDocuments(await knowledgeDocuments.list());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadDocuments();
+  }, []);
+
+  // 流程中的每次状态变化都替换（或插入）列表中的对应文档
+  const applyUpdate = (doc: KbDocument) =>
+    setDocuments((prev) => (prev.some((d) => d.id === doc.id) ? prev.map((d) => (d.id === doc.id ? doc : d)) : [doc, ...prev]));
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setUploadError(null);
+    // 逐个处理，避免同时解析多个大文件占满内存
+    for (const file of Array.from(files)) {
+      try {
+        await knowledgeDocuments.upload(file, applyUpdate);
+      } catch (err: any) {
+        setUploadError(`${file.name}：${err?.message || String(err)}`);
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleReindex = (doc: KbDocument) => knowledgeDocuments.reindex(doc, applyUpdate);
+
+  const handleRemove = async (doc: KbDocument) => {
+    if (!window.confirm(`确定删除「${doc.file_name}」及其索引吗？`)) return;
+    try {
+      await knowledgeDocuments.remove(doc);
+      setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+    } catch (err: any) {
+      alert(err?.message || String(err));
+    }
+  };
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-30 w-full sm:w-[420px] bg-[#0B1224]/95 backdrop-blur-xl border-l border-white/10 shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="h-16 px-5 border-b border-white/5 flex items-center justify-between shrink-0">
+        <div className="flex items-center gap-2 text-sm font-bold text-slate-200">
+          <FileText className="w-4 h-4 text-emerald-400" /> 知识库文档
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={loadDocuments} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10" title="刷新">
+            <RefreshCw size={15} className={loading ? 'animate-spin' : ''} />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="px-5 py-4 border-b border-white/5 shrink-0">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={DOCUMENT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-dashed border-emerald-500/40 text-emerald-300 text-sm hover:bg-emerald-500/10 transition-colors"
+          >
+            <Upload size={16} /> 上传 PDF / DOCX / Markdown
+          </button>
+          <p className="mt-2 text-[11px] text-slate-500">上传后自动解析并建立索引，就绪后即可在问答中检索到</p>
+          {uploadError && (
+            <div className="mt-2 flex items-start gap-1.5 text-xs text-red-300">
+              <AlertCircle size={13} className="mt-0.5 shrink-0" /> {uploadError}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {!loading && documents.length === 0 && (
+          <div className="py-12 text-center text-xs text-slate-500">还没有上传任何文档</div>
+        )}
+        {documents.map((doc) => {
+          const meta = STATUS_META[doc.status];
+          return (
+            <div key={doc.id} className="p-3 rounded-xl border border-white/5 bg-white/[0.02]">
+              <div className="flex items-start gap-3">
+                <FileText size={16} className="mt-0.5 text-slate-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-slate-200 truncate" title={doc.file_name}>{doc.file_name}</div>
+                  <div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px] text-slate-500">
+                    <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border ${meta.className}`}>
+                      {isBusy(doc.status) && <Loader2 size={10} className="animate-spin" />}
+                      {doc.status === 'ready' && <CheckCircle2 size={10} />}
+                      {meta.label}
+                    </span>
+                    <span>{formatSize(doc.size_bytes)}</span>
+                    {doc.status === 'ready' && <span>{doc.chunk_count} 个分片</span>}
+                    <span>{new Date(doc.created_at).toLocaleDateString()}</span>
+                  </div>
+                  {doc.status === 'failed' && doc.error && <div className="mt-1.5 text-[11px] text-red-300/90 break-all">{doc.error}</div>}
+                </div>
+                {canManage && !isBusy(doc.status) && (
+                  <div className="flex items-center gap-0.5 shrink-0">
+                    <button
+                      onClick={() => handleReindex(doc)}
+                      className="p-1.5 rounded-md text-slate-500 hover:text-white hover:bg-white/10"
+                      title="重新索引"
+                    >
+                      <RefreshCw size={13} />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(doc)}
+                      className="p-1.5 rounded-md text-slate-500 hover:text-red-300 hover:bg-red-500/10"
+                      title="删除"
+                    >
+                      <Trash2 size={13} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeDocuments;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { MdBlock, MdInline, parseInline, parseMarkdown, texToText } from '../services/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  // 正在流式输出：末尾未闭合的语法按进行中处理
+  streaming?: boolean;
+  className?: string;
+}
+
+const HEADING_CLASSES = [
+  'text-lg font-bold text-white mt-4 mb-2',
+  'text-base font-bold text-white mt-4 mb-2',
+  'text-[15px] font-semibold text-white mt-3 mb-1.5',
+  'text-sm font-semibold text-slate-100 mt-3 mb-1',
+  'text-sm font-semibold text-slate-200 mt-2 mb-1',
+  'text-sm font-medium text-slate-300 mt-2 mb-1',
+];
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const CodeBlock = ({ lang, code, closed }: any) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    } catch (e) {
+      console.warn('Copy failed', e);
+    }
+  };
+
+  return (
+    <div className="my-3 rounded-xl border border-white/10 bg-black/40 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/5 text-[11px] text-slate-500">
+        <span className="font-mono">{lang || 'text'}</span>
+        {closed && (
+          <button onClick={handleCopy} className="flex items-center gap-1 hover:text-white transition-colors">
+            {copied ? <Check size={12} className="text-emerald-400" /> : <Copy size={12} />}
+            {copied ? '已复制' : '复制'}
+          </button>
+        )}
+      </div>
+      <pre className="p-3 overflow-x-auto text-[13px] leading-relaxed text-slate-200 font-mono whitespace-pre">
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+};
+
+const renderInline = (nodes: MdInline[], keyPrefix: string = ''): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    const key = `${keyPrefix}${i}`;
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={key}>{node.text}</React.Fragment>;
+      case 'break':
+        return <br key={key} />;
+      case 'strong':
+        return <strong key={key} className="font-semibold text-white">{renderInline(node.children, `${key}-`)}</strong>;
+      case 'em':
+        return <em key={key}>{renderInline(node.children, `${key}-`)}</em>;
+      case 'del':
+        return <del key={key} className="text-slate-500">{renderInline(node.children, `${key}-`)}</del>;
+      case 'code':
+        return (
+          <code key={key} className="px-1.5 py-0.5 rounded bg-white/10 text-emerald-200 font-mono text-[0.9em] break-words">
+            {node.text}
+          </code>
+        );
+      case 'math':
+        return (
+          <span key={key} className="font-mono italic text-sky-200" title={node.tex}>
+            {texToText(node.tex)}
+          </span>
+        );
+      case 'link':
+        return (
+          <a key={key} href={node.href} target="_blank" rel="noopener noreferrer" className="text-emerald-300 underline underline-offset-2 hover:text-emerald-200 break-all">
+            {renderInline(node.children, `${key}-`)}
+          </a>
+        );
+    }
+  });
+
+// open 只作用于最后一个块：流式输出时未闭合的行内标记延伸到末尾
+const renderBlocks = (blocks: MdBlock[], open: boolean, keyPrefix: string = ''): React.ReactNode[] =>
+  blocks.map((block, i) => {
+    const key = `${keyPrefix}${i}`;
+    const isOpen = open && i === blocks.length - 1;
+    const inline = (text: string) => renderInline(parseInline(text, isOpen));
+
+    switch (block.type) {
+      case 'heading': {
+        const Tag = `h${block.level}` as keyof JSX.IntrinsicElements;
+        return <Tag key={key} className={HEADING_CLASSES[block.level - 1]}>{inline(block.text)}</Tag>;
+      }
+      case 'paragraph':
+        return <p key={key} className="my-2 first:mt-0 last:mb-0">{inline(block.text)}</p>;
+      case 'code':
+        return <CodeBlock key={key} lang={block.lang} code={block.code} closed={block.closed} />;
+      case 'math':
+        return (
+          <div key={key} className="my-3 px-3 py-2 rounded-lg bg-white/5 font-mono text-sky-200 text-center whitespace-pre-wrap" title={block.tex}>
+            {texToText(block.tex)}
+          </div>
+        );
+      case 'hr':
+        return <hr key={key} className="my-4 border-white/10" />;
+      case 'quote':
+        return (
+          <blockquote key={key} className="my-3 pl-3 border-l-2 border-emerald-500/40 text-slate-400">
+            {renderBlocks(block.blocks, isOpen, `${key}-`)}
+          </blockquote>
+        );
+      case 'list': {
+        const ListTag = block.ordered ? 'ol' : 'ul';
+        return (
+          <ListTag
+            key={key}
+            start={block.ordered ? block.start : undefined}
+            className={`my-2 pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'} marker:text-slate-500`}
+          >
+            {block.items.map((item, j) => {
+              const itemOpen = isOpen && j === block.items.length - 1;
+              return (
+                <li key={j} className={item.checked !== null ? 'list-none -ml-5' : ''}>
+                  {item.checked !== null && (
+                    <input type="checkbox" checked={item.checked} readOnly className="mr-2 align-middle accent-emerald-500" />
+                  )}
+                  {renderInline(parseInline(item.text, itemOpen && !item.children.length))}
+                  {!!item.children.length && renderBlocks(item.children, itemOpen, `${key}-${j}-`)}
+                </li>
+              );
+            })}
+          </ListTag>
+        );
+      }
+      case 'table':
+        return (
+          <div key={key} className="my-3 overflow-x-auto rounded-lg border border-white/10">
+            <table className="w-full text-[13px] border-collapse">
+              <thead className="bg-white/5 text-slate-200">
+                <tr>
+                  {block.header.map((cell, c) => (
+                    <th key={c} className={`px-3 py-2 font-semibold border-b border-white/10 whitespace-nowrap ${ALIGN_CLASSES[block.align[c] || 'left']}`}>
+                      {renderInline(parseInline(cell))}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                    {row.map((cell, c) => (
+                      <td key={c} className={`px-3 py-2 align-top text-slate-300 ${ALIGN_CLASSES[block.align[c] || 'left']}`}>
+                        {renderInline(parseInline(cell, isOpen && r === block.rows.length - 1))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+    }
+  });
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, streaming = false, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(content, streaming), [content, streaming]);
+  return <div className={`break-words ${className}`}>{renderBlocks(blocks, streaming)}</div>;
+};
+
+export default MarkdownContent;
@@ -9,9 +9,11 @@ interface NavbarProps {
   profile?: Profile | null;
   onOpenAuth: () => void;
   onLogout: () => void;
+  // 仅管理员传入
+  onOpenAdmin?: () => void;
 }
 
-const Navbar: React.FC<NavbarProps> = ({ user, profile, onLogout }) => {
+const Navbar: React.FC<NavbarProps> = ({ user, profile, onLogout, onOpenAdmin }) => {
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 bg-[#020617]/60 backdrop-blur-md border-b border-white/5">
       <div className="max-w-7xl mx-auto px-3 sm:px-6 lg:px-8">
@@ -36,9 +38,15 @@ const Navbar: React.FC<NavbarProps> = ({ user, profile, onLogout }) => {
                   <span className="absolute top-2 right-2 w-2 h-2 bg-red-500 rounded-full border-2 border-[#020617]"></span>
                 </button>
 
-                <button className="hidden sm:inline-flex p-2 text-slate-400 hover:text-white hover:bg-white/5 rounded-full transition-all">
-                  <Settings size={18} />
-                </button>
+                {onOpenAdmin && (
+                  <button
+                    onClick={onOpenAdmin}
+                    className="inline-flex p-2 text-slate-400 hover:text-white hover:bg-white/5 rounded-full transition-all"
+                    title="管理后台"
+                  >
+                    <Settings size={18} />
+                  </button>
+                )}
 
                 <div className="hidden sm:block h-4 w-[1px] bg-white/10 mx-1"></div>
 
@@ -1,7 +1,30 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { aliyunService } from '../services/aliyunService';
+import { getLlmProvider } from '../services/llmGateway';
+import { isQuotaExceededError } from '../services/aiProxy';
 import { dataService } from '../services/dataService';
-import { fetchAppConfig } from '../services/appConfig';
+import { EmployeePatch, EmployeeStats, EmployeeUpdateParams, isSqlPermissionError, sqlGateway } from '../services/sqlGateway';
+import useEmployeeArchive from '../hooks/useEmployeeArchive';
+import CustomSelect from './CustomSelect';
+import EmployeeEditorModal, { EditorMode, toDateInput, today } from './EmployeeEditorModal';
+import EmployeeBulkBar, { BulkOutcome } from './EmployeeBulkBar';
+import EmployeeImportWizard from './EmployeeImportWizard';
+import { ImportedEmployee } from '../services/employeeImport';
+import { exportEmployees, exportReport, EmployeeExportFormat } from '../services/exportService';
+import { AuditedField, diffEmployee, isAuditedField, toPatchValue } from '../services/employeeAudit';
+import { MergeResult, MergeSide, resolveConflicts, threeWayMerge } from '../services/employeeMerge';
+import EmployeeMergeDialog from './EmployeeMergeDialog';
+import { can, getDepartmentScope } from '../services/permissions';
+import {
+  DEFAULT_MASKING_POLICY,
+  MaskingPolicy,
+  canUnmask,
+  fetchMaskingPolicy,
+  isSensitiveField,
+  maskValue,
+  redactSchema,
+  sensitiveFieldsOf,
+} from '../services/maskingPolicy';
+import { AIReport, ChartConfig, Department, Employee, EmployeeAuditLog, Profile } from '../../types';
 import {
   ArrowLeft,
   Search,
@@ -13,8 +36,6 @@ import {
   Edit2,
   X,
   Filter,
-  ChevronDown,
-  Check,
   BarChart3,
   PieChart,
   BrainCircuit,
@@ -33,140 +54,202 @@ import {
   ShieldAlert,
   Activity,
   Briefcase,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  UserPlus,
+  FileSpreadsheet,
+  Download,
 } from 'lucide-react';
 
 // --- Types ---
-interface Department {
-  Departmentid: string | number;
-  departmentname: string;
-}
-
-interface Employee {
-  employeename: string;
-  webbmp?: string | null;
-  P_emp_no: string;
-  Departmentid: string | number;
-  P_emp_sex: string;
-  p_emp_phone: string;
-  P_emp_Status: string;
-  p_emp_degree: string;
-  P_emp_workJoindt: string;
-  [key: string]: any;
-}
+// 一次员工档案变更记录：工号、字段变更、操作类型、所属部门
+type AuditEntry = Parameters<typeof dataService.logEmployeeChanges>;
 
 interface ToolsPlatformProps {
   onBack: () => void;
   aiParams?: any;
-}
-
-interface ChartConfig {
-  id: string;
-  type: 'stat' | 'pie' | 'bar';
-  title: string;
-  field: string;
-  operation?: 'count' | 'distinct';
-  color?: string;
-  description?: string;
-  insight?: string;
-}
-
-interface AIReport {
-  summary: string;
-  charts: ChartConfig[];
-  risks: Array<{ title: string; level: 'high' | 'medium' | 'low'; desc: string }>;
-  suggestions: Array<{ title: string; action: string; priority?: string }>;
-  prediction: string;
+  profile: Profile | null;
 }
 
 // --- Custom UI Components ---
-const CustomSelect = ({ value, onChange, options, placeholder = '请选择', icon: Icon, className = '' }: any) => {
+const SortHeader = ({ label, field, sortBy, sortDir, onSort, className = '', prefix }: any) => (
+  <th className={className}>
+    {prefix && <span className="mr-2 inline-flex align-middle">{prefix}</span>}
+    <button
+      type="button"
+      onClick={() => onSort(field)}
+      className={`inline-flex items-center gap-1 transition-colors hover:text-white ${sortBy === field ? 'text-indigo-300' : ''}`}
+    >
+      {label}
+      {sortBy !== field ? (
+        <ArrowUpDown size={12} className="opacity-40" />
+      ) : sortDir === 'asc' ? (
+        <ArrowUp size={12} />
+      ) : (
+        <ArrowDown size={12} />
+      )}
+    </button>
+  </th>
+);
+
+const RowCheckbox = ({ checked, onToggle, title }: any) => (
+  <input
+    type="checkbox"
+    checked={checked}
+    onChange={onToggle}
+    onClick={(e) => e.stopPropagation()}
+    onDoubleClick={(e) => e.stopPropagation()}
+    className="w-3.5 h-3.5 shrink-0 accent-indigo-500 cursor-pointer"
+    title={title}
+  />
+);
+
+// 导出下拉菜单：items 为 { label, hint?, onSelect }
+const ExportMenu = ({ items, busy, buttonClassName = '', children }: any) => {
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
-  const selectedLabel =
-    options.find((opt: any) => String(opt.value) === String(value))?.label || placeholder;
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
-        setIsOpen(false);
-      }
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) setIsOpen(false);
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
   return (
-    <div className={`relative ${className}`} ref={containerRef}>
-      <button
-        type="button"
-        onClick={() => setIsOpen(!isOpen)}
-        className={`w-full flex items-center justify-between bg-black/20 border transition-all duration-200 rounded-lg px-3 py-2 text-sm text-white focus:outline-none 
-          ${isOpen ? 'border-indigo-500/50 bg-black/40 ring-1 ring-indigo-500/20' : 'border-white/10 hover:bg-white/5'}
-        `}
-      >
-        <div className="flex items-center gap-2 truncate">
-          {Icon && <Icon className="w-4 h-4 text-slate-500" />}
-          <span className={!value ? 'text-slate-500' : 'text-slate-200'}>{selectedLabel}</span>
-        </div>
-        <ChevronDown
-          className={`w-4 h-4 text-slate-500 transition-transform duration-300 ${isOpen ? 'rotate-180 text-indigo-400' : ''}`}
-        />
+    <div className="relative" ref={containerRef}>
+      <button type="button" disabled={busy} onClick={() => setIsOpen(!isOpen)} className={`${buttonClassName} disabled:opacity-50`}>
+        {busy ? <Loader2 size={14} className="animate-spin" /> : null}
+        {children}
       </button>
-
       {isOpen && (
-        <div className="absolute z-50 w-full mt-2 overflow-hidden bg-[#1E293B] border border-white/10 rounded-xl shadow-[0_10px_40px_-10px_rgba(0,0,0,0.5)] backdrop-blur-xl animate-in fade-in zoom-in-95 duration-200">
-          <div className="max-h-60 overflow-y-auto scrollbar-thin scrollbar-thumb-white/10 scrollbar-track-transparent py-1">
-            {options.length > 0 ? (
-              options.map((opt: any) => (
-                <div
-                  key={opt.value}
-                  onClick={() => {
-                    onChange(opt.value);
-                    setIsOpen(false);
-                  }}
-                  className={`
-                      relative px-3 py-2.5 text-sm cursor-pointer flex items-center justify-between transition-colors
-                      ${String(value) === String(opt.value)
-                        ? 'bg-indigo-600/10 text-indigo-300'
-                        : 'text-slate-300 hover:bg-white/5 hover:text-white'}
-                    `}
-                >
-                  <span>{opt.label}</span>
-                  {String(value) === String(opt.value) && (
-                    <Check className="w-3.5 h-3.5 text-indigo-400" />
-                  )}
-                </div>
-              ))
-            ) : (
-              <div className="px-3 py-3 text-xs text-slate-500 text-center">无选项</div>
-            )}
-          </div>
+        <div className="absolute right-0 z-50 mt-2 w-48 overflow-hidden bg-[#1E293B] border border-white/10 rounded-xl shadow-[0_10px_40px_-10px_rgba(0,0,0,0.5)] py-1 animate-in fade-in zoom-in-95 duration-200">
+          {items.map((item: any) => (
+            <button
+              key={item.label}
+              type="button"
+              onClick={() => {
+                setIsOpen(false);
+                item.onSelect();
+              }}
+              className="w-full text-left px-3 py-2 text-sm text-slate-300 hover:bg-white/5 hover:text-white"
+            >
+              {item.label}
+              {item.hint && <div className="text-[11px] text-slate-500">{item.hint}</div>}
+            </button>
+          ))}
         </div>
       )}
+    </div>
+  );
+};
 
-      </div>
+// 移动端无限滚动：哨兵进入视口时加载下一页
+const LoadMoreSentinel = ({ onVisible, hasMore, loading }: any) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!hasMore || !sentinelRef.current) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onVisible();
+      },
+      { rootMargin: '200px' }
     );
-  };
+    observer.observe(sentinelRef.current);
+    return () => observer.disconnect();
+  }, [hasMore, onVisible]);
+
+  return (
+    <div ref={sentinelRef} className="py-4 text-center text-xs text-slate-500">
+      {loading ? (
+        <span className="inline-flex items-center gap-2">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" /> 加载中...
+        </span>
+      ) : hasMore ? (
+        '上滑加载更多'
+      ) : (
+        '已经到底了'
+      )}
+    </div>
+  );
+};
+
+type RecruitmentTrend = { year: string; count: number }[];
+
+// 最近五年每年入职人数
+const recruitmentTrendOf = (emps: Employee[]): RecruitmentTrend => {
+  const trendMap: Record<string, number> = {};
+  emps.forEach((e) => {
+    if (e.P_emp_workJoindt) {
+      const year = String(e.P_emp_workJoindt).split('T')[0].substring(0, 4);
+      if (year && !isNaN(Number(year))) {
+        trendMap[year] = (trendMap[year] || 0) + 1;
+      }
+    }
+  });
+
+  return Object.entries(trendMap)
+    .map(([year, count]) => ({ year, count }))
+    .sort((a, b) => a.year.localeCompare(b.year))
+    .slice(-5);
+};
 
 // --- Main Component ---
-const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
+const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams, profile }) => {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // 全量员工样本只供 AI 驾驶舱统计，首次运行分析时才加载；概览卡片使用网关汇总的 overview
   const [employees, setEmployees] = useState<Employee[]>([]);
+  const [overview, setOverview] = useState<EmployeeStats | null>(null);
   const [departments, setDepartments] = useState<Department[]>([]);
+  const analysisSampleRef = useRef<Promise<{ emps: Employee[]; trend: RecruitmentTrend }> | null>(null);
 
   // Dynamic Schema State
   const [dataSchema, setDataSchema] = useState<Record<string, string>>({});
 
   // States
-  const [visiblePhones, setVisiblePhones] = useState<Set<string>>(new Set());
+  // 本次会话中手动显示过敏感信息的员工
+  const [revealedRows, setRevealedRows] = useState<Set<string>>(new Set());
+  const [maskingPolicy, setMaskingPolicy] = useState<MaskingPolicy>(DEFAULT_MASKING_POLICY);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [isSchemaOpen, setIsSchemaOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [originalEmp, setOriginalEmp] = useState<Employee | null>(null);
+  const [history, setHistory] = useState<EmployeeAuditLog[] | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [mergeState, setMergeState] = useState<{ result: MergeResult; theirs: Employee } | null>(null);
   const [currentEmp, setCurrentEmp] = useState<Employee | null>(null);
-  const [keyword, setKeyword] = useState('');
-  const [selectedDept, setSelectedDept] = useState<string | number>('');
+  const [editorMode, setEditorMode] = useState<EditorMode>('edit');
+  const [empNoError, setEmpNoError] = useState<string | null>(null);
+
+  // Bulk Edit State
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [bulkResults, setBulkResults] = useState<BulkOutcome[] | null>(null);
+
+  // --- Permissions ---
+  const departmentScope = getDepartmentScope(profile);
+  const canCreate = can(profile, 'employee:create');
+  const canEdit = can(profile, 'employee:edit');
+  const canArchive = can(profile, 'employee:archive');
+  const canBulk = can(profile, 'employee:bulk');
+  const canImport = can(profile, 'employee:import');
+  const canExport = can(profile, 'employee:export');
+  const canReveal = canUnmask(maskingPolicy, profile);
+
+  // Archive List (server-side paging / sorting / filtering)
+  const archive = useEmployeeArchive({ departmentScope });
 
   // BI Dashboard State (Dynamic)
   const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
@@ -179,7 +262,7 @@ const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
 
 
   // Recruitment Trend Data (Calculated)
-  const [recruitmentTrend, setRecruitmentTrend] = useState<{ year: string; count: number }[]>([]);
+  const [recruitmentTrend, setRecruitmentTrend] = useState<RecruitmentTrend>([]);
 
   const smartQueryPresets = useMemo(
     () => [
@@ -311,26 +394,26 @@ const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
   }, [employees, departments, recruitmentTrend]);
 
   const heroStats = useMemo(() => {
-    const avgDataHealth = Math.round(
-      dataQualityMetrics.reduce((acc, metric) => acc + metric.value, 0) / (dataQualityMetrics.length || 1)
-    );
+    const total = overview?.total ?? 0;
+    const filled = overview ? overview.phoneFilled + overview.degreeFilled + overview.joinDateFilled : 0;
+    const avgDataHealth = Math.round((filled / (3 * (total || 1))) * 100);
 
     return [
       {
         label: '在册员工',
-        value: baselineStats.total,
+        value: total,
         hint: '实时样本量',
         accent: 'from-emerald-500/30 via-emerald-500/10 to-emerald-500/0',
       },
       {
         label: '覆盖部门',
-        value: baselineStats.deptTotal,
+        value: overview?.departments || departments.length,
         hint: '组织层级数',
         accent: 'from-blue-500/30 via-blue-500/10 to-blue-500/0',
       },
       {
         label: '最新入职',
-        value: baselineStats.recentHires,
+        value: overview?.latestJoinYearHires ?? 0,
         hint: '最近年度新增',
         accent: 'from-indigo-500/30 via-indigo-500/10 to-indigo-500/0',
       },
@@ -341,7 +424,7 @@ const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
         accent: 'from-amber-500/30 via-amber-500/10 to-amber-500/0',
       },
     ];
-  }, [baselineStats, dataQualityMetrics]);
+  }, [overview, departments]);
 
   const deptSnapshots = useMemo(() => {
     const map: Record<string, { count: number; male: number; female: number; degreeFilled: number }> = {};
@@ -377,71 +460,29 @@ const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
   const codeContainerRef = useRef<HTMLDivElement>(null);
 
   // --- API Handling ---
-  const getApiConfig = async () => {
-    const { apiUrl, apiToken } = await fetchAppConfig();
-    return { api_url: apiUrl, api_token: apiToken };
-  };
-
   const loadData = async (triggerParams?: any) => {
     setLoading(true);
     setError(null);
     try {
-      // 1. Fetch Dynamic Schema (Dictionary)
-      const schema = await dataService.getDataDictionary('p_employeetab');
+      // 1. Fetch Dynamic Schema (Dictionary) & Masking Policy
+      const [schema, policy] = await Promise.all([
+        dataService.getDataDictionary('p_employeetab'),
+        fetchMaskingPolicy(),
+      ]);
       setDataSchema(schema);
+      setMaskingPolicy(policy);
 
-      // 2. Fetch Real Data
-      const { api_url, api_token } = await getApiConfig();
-
-      const fetchTable = async (sql: string) => {
-        const res = await fetch(api_url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ Token: api_token, Sql: sql }),
-        });
-        if (!res.ok) throw new Error(`API Error: ${res.status}`);
-        const json = await res.json();
-        return Array.isArray(json) ? json : json.data || [];
-      };
-
-      const [empData, deptData] = await Promise.all([
-        fetchTable('select * from p_employeetab'),
-        fetchTable('select Departmentid, departmentname from P_DepartmentTab'),
+      // 2. 概览只取汇总值；档案列表由 useEmployeeArchive 分页加载，全量样本在运行分析时再取
+      const [stats, deptData] = await Promise.all([
+        sqlGateway.rows('employee.stats', {}),
+        sqlGateway.rows('department.list', {}),
       ]);
-
-      const safeEmps = Array.isArray(empData) ? empData : [];
-      setEmployees(safeEmps);
-      setDepartments(Array.isArray(deptData) ? deptData : []);
-
-      // Calculate Trends immediately
-      const trendMap: Record<string, number> = {};
-      safeEmps.forEach((e: Employee) => {
-        if (e.P_emp_workJoindt) {
-          const year = String(e.P_emp_workJoindt).split('T')[0].substring(0, 4);
-          if (year && !isNaN(Number(year))) {
-            trendMap[year] = (trendMap[year] || 0) + 1;
-          }
-        }
-      });
-
-      const trendArray = Object.entries(trendMap)
-        .map(([year, count]) => ({ year, count }))
-        .sort((a, b) => a.year.localeCompare(b.year))
-        .slice(-5);
-
-      setRecruitmentTrend(trendArray);
+      const safeDepts = Array.isArray(deptData) ? deptData : [];
+      setOverview(stats[0] ?? null);
+      setDepartments(safeDepts);
 
       if (triggerParams?.mode === 'analysis') {
-        setIsAnalysisOpen(true);
-        setTimeout(() => {
-          generateDynamicAnalysis(
-            triggerParams.query,
-            safeEmps,
-            Array.isArray(deptData) ? deptData : [],
-            schema,
-            trendArray
-          );
-        }, 500);
+        setTimeout(() => runAnalysis(triggerParams.query, safeDepts, schema, policy), 500);
       }
     } catch (err: any) {
       console.error(err);
@@ -451,13 +492,50 @@ const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
     }
   };
 
+  // 全量样本加载一次后复用，刷新时作废；加载失败允许下次重试
+  const loadAnalysisSample = () => {
+    if (!analysisSampleRef.current) {
+      const pending = sqlGateway.rows('employee.list', {}).then((rows) => {
+        const emps = Array.isArray(rows) ? rows : [];
+        const trend = recruitmentTrendOf(emps);
+        setEmployees(emps);
+        setRecruitmentTrend(trend);
+        return { emps, trend };
+      });
+      pending.catch(() => {
+        if (analysisSampleRef.current === pending) analysisSampleRef.current = null;
+      });
+      analysisSampleRef.current = pending;
+    }
+    return analysisSampleRef.current;
+  };
+
+  const runAnalysis = async (
+    query: string,
+    currentDepts: Department[] = departments,
+    currentSchema: Record<string, string> = dataSchema,
+    policy: MaskingPolicy = maskingPolicy
+  ) => {
+    setIsAnalysisOpen(true);
+    setIsAiGenerating(true);
+    try {
+      const { emps, trend } = await loadAnalysisSample();
+      await generateDynamicAnalysis(query, emps, currentDepts, currentSchema, trend, policy);
+    } catch (err: any) {
+      console.error(err);
+      setIsAiGenerating(false);
+      setError(`数据加载失败: ${err?.message || String(err)}`);
+    }
+  };
+
   // --- AI Dynamic Logic ---
   const generateDynamicAnalysis = async (
     userQuery: string,
     currentEmployees: Employee[],
     currentDepts: Department[],
     currentSchema?: Record<string, string>,
-    trendData?: { year: string; count: number }[]
+    trendData?: { year: string; count: number }[],
+    policy: MaskingPolicy = maskingPolicy
   ) => {
     setIsAiGenerating(true);
     setAiReportConfig(null);
@@ -465,7 +543,9 @@ const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
     setCodeStream('');
     setProcessedCount(0);
 
-    const activeSchema = currentSchema || dataSchema;
+    // 敏感字段不出现在发给大模型的数据字典里
+    const activeSchema = redactSchema(currentSchema || dataSchema, policy);
+    const restrictedFields = policy.sensitiveFields.join(', ') || 'None';
 
     // --- 1. Start Visual "Data Ingestion" Counter ---
     let currentCount = 0;
@@ -524,13 +604,19 @@ const ToolsPlatform: React.FC<ToolsPlatformProps> = ({ onBack, aiParams }) => {
         .map((d) => `${d.Departmentid}:${d.departmentname}`)
         .join(',');
 
-      const trendString = trendData ? JSON.stringify(trendData) : 'No trend data';
+      // 招聘趋势由入职日期汇总而来，入职日期被列为敏感字段时同样不发给大模型
+      const trendString = isSensitiveField(policy, 'P_emp_workJoindt')
+        ? 'Not available (restricted field)'
+        : trendData
+          ? JSON.stringify(trendData)
+          : 'No trend data';
 
       const systemPrompt = `
 Context: HR Dashboard Data for a professional enterprise.
 Data Schema: ${schemaKeys}.
 Dept Mapping: ${deptMappingSample}.
 Recruitment Trend (Year: Count): ${trendString}.
+Restricted Fields (never use as chart field or mention): ${restrictedFields}.
 
 Query: "${userQuery}"
 
@@ -562,31 +648,26 @@ Return JSON Format:
   "prediction": "Predict future based on the provided Recruitment Trend data. (e.g. '基于2023-2024年数据，招聘放缓...')"
 }`;
 
-      let fullResponse = '';
-
-      await aliyunService.chatStream([{ role: 'system', content: systemPrompt }], (chunk) => {
-        fullResponse += chunk;
-        setCodeStream((prev) => prev + chunk);
+      const provider = await getLlmProvider('report');
+      const config = await provider.json<AIReport>([{ role: 'system', content: systemPrompt }], {
+        onChunk: (chunk) => setCodeStream((prev) => prev + chunk),
       });
 
-      if (!fullResponse) throw new Error('Empty response from AI Gateway.');
-
-      setTerminalLines((prev) => [...prev, `[SUCCESS] 接收到结构化 Payload. 启动全息渲染引擎...`]);
+      setTerminalLines((prev) => [...prev, `[SUCCESS] 接收到结构化 Payload (${provider.model('report')}). 启动全息渲染引擎...`]);
 
-      const jsonMatch = fullResponse.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const config = JSON.parse(jsonMatch[0]) as AIReport;
-        await new Promise((r) => setTimeout(r, 800));
-        setAiReportConfig(config);
-      } else {
-        throw new Error('Invalid JSON signature in response.');
-      }
+      // 模型不一定遵守限制，落地前再过滤一次
+      config.charts = (config.charts || []).filter((c) => !isSensitiveField(policy, c.field));
+      await new Promise((r) => setTimeout(r, 800));
+      setAiReportConfig(config);
     } catch (e: any) {
       console.error('AI Gen Error', e);
-      setTerminalLines((prev) => [...prev, `[ERROR] ${e?.message || String(e)}`]);
+      const quotaExceeded = isQuotaExceededError(e);
+      setTerminalLines((prev) => [...prev, `[${quotaExceeded ? 'QUOTA' : 'ERROR'}] ${e?.message || String(e)}`]);
 
       const fallbackConfig: AIReport = {
-        summary: '云端连接不稳定，已自动切换至本地离线分析模式。',
+        summary: quotaExceeded
+          ? `AI 额度已用完，已切换至本地离线分析模式。${e.message}`
+          : '云端连接不稳定，已自动切换至本地离线分析模式。',
         charts: [
           { id: 'fb1', type: 'stat', title: '总员工数', field: 'P_emp_no', operation: 'count', insight: '数据总览' },
           { id: 'fb2', type: 'pie', title: '性别分布', field: 'P_emp_sex', insight: '性别比例相对均衡' },
@@ -642,63 +723,394 @@ Return JSON Format:
       .map(([name, value]) => ({ name, value }));
   };
 
-  // --- Helpers ---
-  const togglePhoneVisibility = (id: string) => {
-    const newSet = new Set(visiblePhones);
-    if (newSet.has(id)) newSet.delete(id);
-    else newSet.add(id);
-    setVisiblePhones(newSet);
+  // --- Masking ---
+  const isMasked = (empNo: string, field: string) => isSensitiveField(maskingPolicy, field) && !revealedRows.has(empNo);
+
+  const displayField = (row: Employee, field: string, text: string | null | undefined) =>
+    text && isMasked(row.P_emp_no, field) ? maskValue(field, text) : text || '';
+
+  // 显示 / 隐藏某个员工的全部敏感字段；只有显示明文时记录日志
+  const toggleReveal = (emp: Employee, source: 'list' | 'editor') => {
+    const next = new Set(revealedRows);
+    if (next.has(emp.P_emp_no)) {
+      next.delete(emp.P_emp_no);
+      setRevealedRows(next);
+      return;
+    }
+    if (!canReveal) return;
+    next.add(emp.P_emp_no);
+    setRevealedRows(next);
+    if (maskingPolicy.logReveals && profile) {
+      dataService.logActivity(profile.id, 'sensitive_reveal', emp.P_emp_no, {
+        fields: sensitiveFieldsOf(emp, maskingPolicy),
+        source,
+      });
+    }
   };
 
+  // --- Helpers ---
+
   const copyToClipboard = (text: string) => navigator.clipboard.writeText(text);
   const openEditor = (emp: Employee) => {
     setCurrentEmp({ ...emp });
+    setOriginalEmp({ ...emp });
+    setHistory(null);
+    setHistoryError(null);
+    setEditorMode('edit');
+    setEmpNoError(null);
     setIsEditorOpen(true);
     setTimeout(() => window.scrollTo({ top: 0, behavior: 'smooth' }), 0);
   };
 
-  const sqlEscape = (v: any) => String(v ?? '').replace(/'/g, "''");
+  const openCreator = () => {
+    setCurrentEmp({
+      P_emp_no: '',
+      employeename: '',
+      Departmentid: archive.query.departmentId || departments[0]?.Departmentid || '',
+      P_emp_sex: '男',
+      p_emp_phone: '',
+      P_emp_Status: '试用',
+      p_emp_degree: '',
+      P_emp_workJoindt: today(),
+    });
+    setOriginalEmp(null);
+    setEditorMode('create');
+    setEmpNoError(null);
+    setIsEditorOpen(true);
+  };
+
+  const toUpdateParams = (emp: Employee): EmployeeUpdateParams => ({
+    P_emp_no: emp.P_emp_no,
+    employeename: emp.employeename ?? '',
+    Departmentid: Number(emp.Departmentid) || 0,
+    P_emp_sex: emp.P_emp_sex ?? '',
+    p_emp_phone: emp.p_emp_phone ?? '',
+    P_emp_Status: emp.P_emp_Status ?? '',
+    p_emp_degree: emp.p_emp_degree ?? '',
+    P_emp_workJoindt: toDateInput(emp.P_emp_workJoindt),
+  });
+
+  // 工号唯一性：失焦时预检一次，创建前再查一次（网关侧 INSERT 仍会拒绝重复工号）
+  const checkEmpNoAvailable = async (empNo: string) => {
+    if (!empNo) {
+      setEmpNoError('请填写工号');
+      return false;
+    }
+    try {
+      const existing = await sqlGateway.rows('employee.exists', { P_emp_no: empNo });
+      const taken = existing.length > 0;
+      setEmpNoError(taken ? `工号 ${empNo} 已存在` : null);
+      return !taken;
+    } catch (err: any) {
+      setEmpNoError(`工号校验失败: ${err?.message || String(err)}`);
+      return false;
+    }
+  };
+
+  // 越权（网关按角色或部门拒绝）与普通失败分开提示，避免被误当成数据冲突
+  const failureText = (action: string, err: any) =>
+    isSqlPermissionError(err) ? `${action}被拒绝：${err.message}` : `${action}失败: ${err?.message || String(err)}`;
+
+  // 档案已经写入成功，变更记录写入失败时只提示，不能按保存失败处理，否则用户重试会重复修改
+  const recordChanges = async (...entries: AuditEntry[]) => {
+    const results = await Promise.allSettled(entries.map((args) => dataService.logEmployeeChanges(...args)));
+    const failed = results.filter((r) => r.status === 'rejected').length;
+    if (failed) alert(`修改已生效，但有 ${failed} 名员工的变更记录写入失败，变更历史中不会显示这次修改`);
+  };
+
+  const applyLocalPatch = (empNo: string, fields: Partial<Employee>) => {
+    setEmployees((prev) => prev.map((e) => (e.P_emp_no === empNo ? { ...e, ...fields } : e)));
+    archive.patchRow(empNo, fields);
+  };
+
+  /**
+   * 带版本号写入：base 是编辑器打开时的记录，draft 是要保存的记录
+   * 版本不一致时拉取最新记录做三方合并；没有重叠字段就自动合并重试，否则弹出合并对话框并返回 false
+   */
+  const saveWithVersion = async (base: Employee, draft: Employee, attempt: number = 1): Promise<boolean> => {
+    const params = toUpdateParams(draft);
+    const { rows, affected } = await sqlGateway.query('employee.update', {
+      ...params,
+      expectedVersion: base.row_version ?? null,
+    });
+    if (affected) {
+      await recordChanges([params.P_emp_no, diffEmployee(base, params), 'update', params.Departmentid]);
+      applyLocalPatch(draft.P_emp_no, { ...draft, row_version: rows[0]?.row_version ?? null });
+      return true;
+    }
+
+    const [theirs] = await sqlGateway.rows('employee.get', { P_emp_no: draft.P_emp_no });
+    if (!theirs) throw new Error('该员工记录已不存在');
+    // 列表里的旧数据同步成最新值，避免继续展示过期内容
+    applyLocalPatch(theirs.P_emp_no, theirs);
+
+    const result = threeWayMerge(base, draft, theirs);
+    setOriginalEmp(theirs);
+    setCurrentEmp(result.merged);
+    if (!result.conflicts.length && attempt < 3) return saveWithVersion(theirs, result.merged, attempt + 1);
+
+    setMergeState({ result, theirs });
+    return false;
+  };
+
+  const handleResolveMerge = async (choices: Partial<Record<AuditedField, MergeSide>>) => {
+    if (!mergeState) return;
+    const { result, theirs } = mergeState;
+    const resolved = resolveConflicts(result, theirs, choices);
+    setSaving(true);
+    try {
+      setMergeState(null);
+      setCurrentEmp(resolved);
+      if (await saveWithVersion(theirs, resolved)) setIsEditorOpen(false);
+    } catch (err: any) {
+      alert(failureText('保存', err));
+    } finally {
+      setSaving(false);
+    }
+  };
 
   const handleSave = async () => {
     if (!currentEmp) return;
+    if (editorMode === 'create' ? !canCreate : !canEdit) return;
+    if (!currentEmp.employeename?.trim()) {
+      alert('请填写员工姓名');
+      return;
+    }
     setSaving(true);
     try {
-      const { api_url, api_token } = await getApiConfig();
-
-      const sql = `UPDATE p_employeetab SET 
-            employeename = '${sqlEscape(currentEmp.employeename)}',
-            Departmentid = ${Number(currentEmp.Departmentid) || 0},
-            P_emp_sex = '${sqlEscape(currentEmp.P_emp_sex)}',
-            p_emp_phone = '${sqlEscape(currentEmp.p_emp_phone)}',
-            P_emp_Status = '${sqlEscape(currentEmp.P_emp_Status)}',
-            p_emp_degree = '${sqlEscape(currentEmp.p_emp_degree)}',
-            P_emp_workJoindt = '${sqlEscape(currentEmp.P_emp_workJoindt ? String(currentEmp.P_emp_workJoindt).split('T')[0] : '')}'
-            WHERE P_emp_no = '${sqlEscape(currentEmp.P_emp_no)}'`;
-
-      const res = await fetch(api_url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ Token: api_token, Sql: sql }),
-      });
+      if (editorMode === 'create') {
+        if (!(await checkEmpNoAvailable(currentEmp.P_emp_no))) return;
+        const params = toUpdateParams(currentEmp);
+        const { affected } = await sqlGateway.query('employee.create', params);
+        if (!affected) throw new Error(`工号 ${currentEmp.P_emp_no} 已存在`);
+        await recordChanges([params.P_emp_no, diffEmployee(null, params), 'create', params.Departmentid]);
+
+        setEmployees((prev) => [...prev, currentEmp]);
+        archive.refresh();
+      } else {
+        if (!(await saveWithVersion(originalEmp || currentEmp, currentEmp))) return;
+      }
+      setIsEditorOpen(false);
+    } catch (err: any) {
+      alert(failureText('保存', err));
+    } finally {
+      setSaving(false);
+    }
+  };
 
-      if (!res.ok) throw new Error('保存失败');
+  // 离职不删除记录，只标记状态并写入离职日期
+  const handleArchive = async (leaveDate: string) => {
+    if (!currentEmp) return;
+    setSaving(true);
+    try {
+      const fields: EmployeePatch = { P_emp_Status: '离职', P_emp_leavedt: leaveDate };
+      const { rows, affected } = await sqlGateway.query('employee.patch', {
+        P_emp_no: currentEmp.P_emp_no,
+        fields,
+        expectedVersion: originalEmp?.row_version ?? null,
+      });
+      if (!affected) throw new Error('该记录已被他人修改或删除，请重新打开后再试');
+      await recordChanges([currentEmp.P_emp_no, diffEmployee(originalEmp, fields), 'archive', currentEmp.Departmentid]);
 
-      setEmployees((prev) => prev.map((e) => (e.P_emp_no === currentEmp.P_emp_no ? currentEmp : e)));
+      applyLocalPatch(currentEmp.P_emp_no, { ...fields, row_version: rows[0]?.row_version ?? null });
       setIsEditorOpen(false);
     } catch (err: any) {
-      alert(`保存失败: ${err?.message || String(err)}`);
+      alert(failureText('离职办理', err));
     } finally {
       setSaving(false);
     }
   };
 
-  const filteredData = useMemo(() => {
-    return employees.filter((emp) => {
-      const matchKeyword = !keyword || emp.employeename?.includes(keyword) || emp.P_emp_no?.includes(keyword);
-      const matchDept = !selectedDept || String(emp.Departmentid) === String(selectedDept);
-      return matchKeyword && matchDept;
+  // --- Change History ---
+  const loadHistory = async (empNo: string) => {
+    setHistoryLoading(true);
+    setHistoryError(null);
+    try {
+      setHistory(await dataService.getEmployeeHistory(empNo));
+    } catch (err: any) {
+      setHistoryError(err?.message || String(err));
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  // 只还原单个字段：写回修改前的值，并作为一条新的 revert 记录进入审计
+  const handleRevert = async (entry: EmployeeAuditLog) => {
+    if (!currentEmp || !isAuditedField(entry.field)) return;
+    const fields = toPatchValue(entry.field, entry.old_value);
+    setRevertingId(entry.id);
+    try {
+      const { rows, affected } = await sqlGateway.query('employee.patch', {
+        P_emp_no: currentEmp.P_emp_no,
+        fields,
+        expectedVersion: originalEmp?.row_version ?? null,
+      });
+      if (!affected) throw new Error('该记录已被他人修改或删除，请重新打开后再试');
+      await recordChanges([
+        currentEmp.P_emp_no,
+        diffEmployee(originalEmp, fields),
+        'revert',
+        fields.Departmentid ?? currentEmp.Departmentid,
+      ]);
+
+      const applied = { ...fields, row_version: rows[0]?.row_version ?? null };
+      applyLocalPatch(currentEmp.P_emp_no, applied);
+      setCurrentEmp((prev) => (prev ? { ...prev, ...applied } : prev));
+      setOriginalEmp((prev) => (prev ? { ...prev, ...applied } : prev));
+      await loadHistory(currentEmp.P_emp_no);
+    } catch (err: any) {
+      alert(failureText('还原', err));
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  // --- Bulk Edit ---
+  // 筛选条件变化后，之前选中的行可能已不在列表中，清空选择，避免批量修改看不见的员工
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [archive.query.keyword, archive.query.departmentId]);
+
+  const toggleSelected = (empNo: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(empNo)) next.delete(empNo);
+      else next.add(empNo);
+      return next;
+    });
+  };
+
+  const isPageSelected = archive.rows.length > 0 && archive.rows.every((row) => selectedIds.has(row.P_emp_no));
+
+  const togglePageSelected = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      archive.rows.forEach((row) => (isPageSelected ? next.delete(row.P_emp_no) : next.add(row.P_emp_no)));
+      return next;
     });
-  }, [employees, keyword, selectedDept]);
+  };
+
+  /**
+   * 批量修改：先逐个读取当前记录，row_version 用于并发校验（读取后被他人修改的行不写入），
+   * 记录本身作为修改历史中的修改前值；选中的行可能不在当前页，不能依赖列表中的数据
+   */
+  const handleBulkApply = async (fields: EmployeePatch) => {
+    const targets = Array.from(selectedIds);
+    if (!targets.length) return;
+    setBulkRunning(true);
+    setBulkProgress({ done: 0, total: targets.length });
+    try {
+      const lookups = await Promise.allSettled(targets.map((empNo) => sqlGateway.rows('employee.get', { P_emp_no: empNo })));
+      const outcomes: BulkOutcome[] = [];
+      const ready: Employee[] = [];
+      lookups.forEach((lookup, i) => {
+        if (lookup.status === 'fulfilled' && lookup.value[0]) ready.push(lookup.value[0]);
+        else {
+          const error = lookup.status === 'rejected' ? `读取当前记录失败: ${lookup.reason?.message || String(lookup.reason)}` : '该员工记录已不存在';
+          outcomes.push({ P_emp_no: targets[i], employeename: targets[i], ok: false, error });
+        }
+      });
+      const skipped = outcomes.length;
+      if (skipped) setBulkProgress({ done: skipped, total: targets.length });
+
+      const results = await sqlGateway.batch(
+        'employee.patch',
+        ready.map((before) => ({ P_emp_no: before.P_emp_no, fields, expectedVersion: before.row_version ?? null })),
+        (done) => setBulkProgress({ done: skipped + done, total: targets.length })
+      );
+
+      const succeeded: Employee[] = [];
+      results.forEach((r) => {
+        const before = ready[r.index];
+        if (r.ok) succeeded.push(before);
+        outcomes.push({
+          P_emp_no: before.P_emp_no,
+          employeename: before.employeename || before.P_emp_no,
+          ok: r.ok,
+          // 未影响任何记录：读取之后该员工又被他人修改或删除
+          error: r.error,
+        });
+      });
+      await recordChanges(
+        ...succeeded.map((before): AuditEntry => [
+          before.P_emp_no,
+          diffEmployee(before, fields),
+          'bulk_update',
+          fields.Departmentid ?? before.Departmentid,
+        ])
+      );
+      succeeded.forEach((before) => applyLocalPatch(before.P_emp_no, fields));
+
+      // 失败的行保持选中，方便修正后重试
+      const order = new Map(targets.map((empNo, i) => [empNo, i]));
+      outcomes.sort((a, b) => (order.get(a.P_emp_no) ?? 0) - (order.get(b.P_emp_no) ?? 0));
+      setSelectedIds(new Set(outcomes.filter((o) => !o.ok).map((o) => o.P_emp_no)));
+      setBulkResults(outcomes);
+    } finally {
+      setBulkRunning(false);
+      setBulkProgress(null);
+    }
+  };
+
+  // --- Export ---
+  const handleExportEmployees = async (format: EmployeeExportFormat) => {
+    setExporting(true);
+    try {
+      const rows = await archive.fetchAll();
+      if (!rows.length) {
+        alert('当前筛选条件下没有可导出的数据');
+        return;
+      }
+      exportEmployees(rows, {
+        format,
+        getDeptName,
+        isMasked,
+      });
+      // 导出文件里带出的明文同样计入查看记录
+      const plainRows = rows.filter((emp) => revealedRows.has(emp.P_emp_no) && sensitiveFieldsOf(emp, maskingPolicy).length);
+      if (plainRows.length && maskingPolicy.logReveals && profile) {
+        dataService.logActivity(profile.id, 'sensitive_export', 'employee_archive', {
+          format,
+          fields: maskingPolicy.sensitiveFields,
+          empNos: plainRows.map((emp) => emp.P_emp_no),
+        });
+      }
+    } catch (err: any) {
+      alert(`导出失败: ${err?.message || String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportReport = (mode: 'print' | 'html') => {
+    if (!aiReportConfig) return;
+    try {
+      exportReport(aiReportConfig, {
+        mode,
+        query: aiParams?.query || '实时分析会话',
+        employeeCount: employees.length,
+        aggregate: getAggregatedData,
+      });
+    } catch (err: any) {
+      alert(`导出失败: ${err?.message || String(err)}`);
+    }
+  };
+
+  const employeeExportItems = [
+    { label: '导出 Excel (.xlsx)', hint: '当前筛选结果，未显示的电话保持脱敏', onSelect: () => handleExportEmployees('xlsx') },
+    { label: '导出 CSV', hint: 'UTF-8 编码，可直接用 Excel 打开', onSelect: () => handleExportEmployees('csv') },
+  ];
+
+  const reportExportItems = [
+    { label: '打印 / 另存为 PDF', onSelect: () => handleExportReport('print') },
+    { label: '下载 HTML 报告', onSelect: () => handleExportReport('html') },
+  ];
+
+  const refreshAll = () => {
+    analysisSampleRef.current = null;
+    loadData();
+    archive.refresh();
+  };
 
   const getDeptName = (id: string | number) =>
     departments.find((d) => String(d.Departmentid) === String(id))?.departmentname || `${id}`;
@@ -717,16 +1129,14 @@ Return JSON Format:
   };
 
   const runPresetAnalysis = (query: string) => {
-    setIsAnalysisOpen(true);
-    generateDynamicAnalysis(query, employees, departments, dataSchema, recruitmentTrend);
+    runAnalysis(query);
   };
 
   const submitFollowQuery = (evt?: React.FormEvent) => {
     if (evt) evt.preventDefault();
     const nextQuery = followQuery.trim();
     if (!nextQuery) return;
-    setIsAnalysisOpen(true);
-    generateDynamicAnalysis(nextQuery, employees, departments, dataSchema, recruitmentTrend);
+    runAnalysis(nextQuery);
     setFollowQuery('');
   };
 
@@ -736,169 +1146,108 @@ Return JSON Format:
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // 部门经理只能在本部门范围内筛选和调整
+  const scopedDepartments =
+    departmentScope === null ? departments : departments.filter((d) => Number(d.Departmentid) === departmentScope);
+
   const deptOptions = [
-    { value: '', label: '所有部门' },
-    ...departments.map((d) => ({ value: d.Departmentid, label: d.departmentname })),
-  ];
-  const editDeptOptions = departments.map((d) => ({ value: d.Departmentid, label: d.departmentname }));
-  const statusOptions = [
-    { value: '正式', label: '正式员工' },
-    { value: '试用', label: '试用期' },
-    { value: '离职', label: '已离职' },
+    ...(departmentScope === null ? [{ value: '', label: '所有部门' }] : []),
+    ...scopedDepartments.map((d) => ({ value: d.Departmentid, label: d.departmentname })),
   ];
 
   const CHART_COLORS = ['#3b82f6', '#8b5cf6', '#10b981', '#f59e0b', '#ec4899', '#6366f1', '#14b8a6'];
 
   const openAnalysisCockpit = (query: string = '综合分析') => {
     setIsAnalysisOpen(true);
-    if (!aiReportConfig) {
-      generateDynamicAnalysis(query, employees, departments, dataSchema, recruitmentTrend);
-    }
+    if (!aiReportConfig) runAnalysis(query);
   };
 
-  const renderOverlays = () => (
-    <>
-      {/* 3. Editor Modal */}
-      {isEditorOpen && currentEmp && (
-        <div className="fixed inset-0 z-[100] flex items-start md:items-center justify-center p-3 sm:p-4">
-          <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-sm" onClick={() => setIsEditorOpen(false)} />
-          <div className="relative w-full max-w-lg md:max-w-2xl bg-[#0F1629] border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 h-[90vh] md:h-auto flex flex-col">
-            <div className="px-6 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-full bg-slate-800 border border-white/10 overflow-hidden flex items-center justify-center">
-                  {currentEmp.webbmp ? (
-                    <img src={currentEmp.webbmp} className="w-full h-full object-cover" />
-                  ) : (
-                    <span className="font-bold text-slate-400">{currentEmp.employeename?.[0] || 'U'}</span>
-                  )}
-                </div>
-                <div>
-                  <h3 className="font-bold text-white text-base">编辑员工信息</h3>
-                  <p className="text-xs text-slate-400">工号: {currentEmp.P_emp_no}</p>
-                </div>
-              </div>
-              <button
-                onClick={() => setIsEditorOpen(false)}
-                className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white"
-              >
-                <X size={18} />
-              </button>
-            </div>
-
-            <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-5 overflow-y-auto flex-1">
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">姓名</label>
-                <input
-                  type="text"
-                  value={currentEmp.employeename}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, employeename: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                />
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">联系电话</label>
-                <input
-                  type="text"
-                  value={currentEmp.p_emp_phone}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, p_emp_phone: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                />
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">性别</label>
-                <div className="flex gap-4 pt-1">
-                  {['男', '女'].map((g) => (
-                    <label
-                      key={g}
-                      className="flex items-center gap-2 cursor-pointer bg-black/20 px-3 py-1.5 rounded-lg border border-white/5 hover:bg-white/5"
-                    >
-                      <input
-                        type="radio"
-                        className="accent-indigo-500"
-                        checked={currentEmp.P_emp_sex === g}
-                        onChange={() => setCurrentEmp({ ...currentEmp, P_emp_sex: g })}
-                      />
-                      <span className="text-sm text-slate-300">{g}</span>
-                    </label>
-                  ))}
-                </div>
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">部门</label>
-                <CustomSelect
-                  value={currentEmp.Departmentid}
-                  onChange={(val: any) => setCurrentEmp({ ...currentEmp, Departmentid: val })}
-                  options={editDeptOptions}
-                  placeholder="选择部门"
-                  className="w-full"
-                />
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">员工状态</label>
-                <CustomSelect
-                  value={currentEmp.P_emp_Status}
-                  onChange={(val: any) => setCurrentEmp({ ...currentEmp, P_emp_Status: val })}
-                  options={statusOptions}
-                  placeholder="选择状态"
-                  className="w-full"
-                />
-              </div>
+  const renderEditor = () =>
+    isEditorOpen &&
+    currentEmp && (
+      <>
+        <EmployeeEditorModal
+          mode={editorMode}
+          employee={currentEmp}
+          departments={scopedDepartments}
+          saving={saving}
+          readOnly={editorMode === 'edit' && !canEdit}
+          maskedFields={editorMode === 'edit' ? maskingPolicy.sensitiveFields.filter((f) => isMasked(currentEmp.P_emp_no, f)) : []}
+          revealed={revealedRows.has(currentEmp.P_emp_no)}
+          onToggleReveal={canReveal ? () => toggleReveal(currentEmp, 'editor') : undefined}
+          empNoError={editorMode === 'create' ? empNoError : null}
+          onChange={(emp) => {
+            if (editorMode === 'create' && emp.P_emp_no !== currentEmp.P_emp_no) setEmpNoError(null);
+            setCurrentEmp(emp);
+          }}
+          onEmpNoBlur={() => currentEmp.P_emp_no && checkEmpNoAvailable(currentEmp.P_emp_no)}
+          onClose={() => setIsEditorOpen(false)}
+          onSave={handleSave}
+          onArchive={canArchive ? handleArchive : undefined}
+          history={history}
+          historyLoading={historyLoading}
+          historyError={historyError}
+          revertingId={revertingId}
+          onOpenHistory={() => loadHistory(currentEmp.P_emp_no)}
+          onRevert={canEdit ? handleRevert : undefined}
+        />
+        {mergeState && (
+          <EmployeeMergeDialog
+            result={mergeState.result}
+            theirs={mergeState.theirs}
+            departments={departments}
+            maskedFields={maskingPolicy.sensitiveFields.filter((f) => isMasked(mergeState.theirs.P_emp_no, f))}
+            saving={saving}
+            onResolve={handleResolveMerge}
+            onCancel={() => setMergeState(null)}
+          />
+        )}
+      </>
+    );
 
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">学历</label>
-                <input
-                  type="text"
-                  value={currentEmp.p_emp_degree}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, p_emp_degree: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                  placeholder="本科 / 硕士 / 博士"
-                />
-              </div>
+  const renderBulkBar = () =>
+    canBulk && (
+      <EmployeeBulkBar
+        selectedCount={selectedIds.size}
+        departments={scopedDepartments}
+        running={bulkRunning}
+        progress={bulkProgress}
+        results={bulkResults}
+        onApply={handleBulkApply}
+        onClear={() => setSelectedIds(new Set())}
+        onCloseResults={() => setBulkResults(null)}
+      />
+    );
 
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">入职日期</label>
-                <input
-                  type="date"
-                  value={currentEmp.P_emp_workJoindt ? String(currentEmp.P_emp_workJoindt).split('T')[0] : ''}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, P_emp_workJoindt: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                />
-              </div>
+  // 导入前的值由向导在写入前逐行读取，新工号记为新建
+  const handleImported = async (rows: ImportedEmployee[]) => {
+    await recordChanges(
+      ...rows.map((row): AuditEntry => [
+        row.P_emp_no,
+        diffEmployee(row.previous, row.fields),
+        row.previous ? 'import' : 'create',
+        row.fields.Departmentid,
+      ])
+    );
+    refreshAll();
+  };
 
-              <div className="col-span-full space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">备注</label>
-                <textarea
-                  rows={3}
-                  value={currentEmp.remark || ''}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, remark: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                  placeholder="补充说明，例如证件情况、紧急联系人等"
-                />
-              </div>
-            </div>
+  const renderImportWizard = () =>
+    isImportOpen && (
+      <EmployeeImportWizard
+        departments={departments}
+        dictionary={dataSchema}
+        onClose={() => setIsImportOpen(false)}
+        onImported={handleImported}
+      />
+    );
 
-            <div className="px-6 py-4 border-t border-white/5 bg-white/[0.02] flex items-center justify-end gap-3">
-              <button
-                onClick={() => setIsEditorOpen(false)}
-                className="px-4 py-2 rounded-lg border border-white/10 text-slate-300 hover:bg-white/5 text-sm"
-              >
-                取消
-              </button>
-              <button
-                onClick={handleSave}
-                disabled={saving}
-                className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium flex items-center gap-2"
-              >
-                {saving && <Loader2 className="w-4 h-4 animate-spin" />} 保存更改
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+  const renderOverlays = () => (
+    <>
+      {/* 3. Editor Modal */}
+      {renderEditor()}
+      {renderBulkBar()}
+      {renderImportWizard()}
 
       {/* 4. Schema Reference Modal */}
       {isSchemaOpen && (
@@ -986,10 +1335,13 @@ Return JSON Format:
               </div>
             </div>
             <div className="flex items-center gap-3">
-              {!isAiGenerating && (
-                <button className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-xs text-slate-300 hover:text-white hover:bg-white/10 transition-colors">
+              {!isAiGenerating && aiReportConfig && (
+                <ExportMenu
+                  items={reportExportItems}
+                  buttonClassName="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-xs text-slate-300 hover:text-white hover:bg-white/10 transition-colors"
+                >
                   <Share2 size={14} /> 导出报表
-                </button>
+                </ExportMenu>
               )}
               <button
                 onClick={() => setIsAnalysisOpen(false)}
@@ -1398,11 +1750,38 @@ Return JSON Format:
         </div>
         <div className="flex items-center gap-2">
           <button
-            onClick={() => loadData()}
+            onClick={refreshAll}
             className="p-2 rounded-lg bg-white/5 border border-white/10 text-slate-300 active:scale-95"
           >
             <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
           </button>
+          {canExport && (
+            <ExportMenu
+              items={employeeExportItems}
+              busy={exporting}
+              buttonClassName="p-2 rounded-lg bg-white/5 border border-white/10 text-slate-300 active:scale-95"
+            >
+              {!exporting && <Download size={16} />}
+            </ExportMenu>
+          )}
+          {canImport && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="p-2 rounded-lg bg-white/5 border border-white/10 text-slate-300 active:scale-95"
+              title="批量导入"
+            >
+              <FileSpreadsheet size={16} />
+            </button>
+          )}
+          {canCreate && (
+            <button
+              onClick={openCreator}
+              className="p-2 rounded-lg bg-white/5 border border-white/10 text-slate-300 active:scale-95"
+              title="新增员工"
+            >
+              <UserPlus size={16} />
+            </button>
+          )}
           <button
             onClick={() => openAnalysisCockpit()}
             className="px-3 py-2 rounded-lg bg-gradient-to-r from-blue-600 to-indigo-600 text-xs font-semibold shadow-lg shadow-indigo-500/20 border border-white/10"
@@ -1420,7 +1799,7 @@ Return JSON Format:
               <p className="text-xs text-slate-400">按条件筛选后查看列表</p>
             </div>
             <span className="px-2 py-1 rounded-full bg-white/10 text-[11px] text-slate-200 border border-white/10">
-              {filteredData.length} 条
+              {archive.total} 条
             </span>
           </div>
 
@@ -1430,15 +1809,15 @@ Return JSON Format:
               <input
                 type="text"
                 placeholder="搜索姓名或工号"
-                value={keyword}
-                onChange={(e) => setKeyword(e.target.value)}
+                value={archive.keywordInput}
+                onChange={(e) => archive.setKeyword(e.target.value)}
                 className="w-full bg-black/20 border border-white/10 rounded-xl pl-9 pr-3 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500/50"
               />
             </div>
             <CustomSelect
               icon={Filter}
-              value={selectedDept}
-              onChange={(val: any) => setSelectedDept(val)}
+              value={archive.query.departmentId}
+              onChange={(val: any) => archive.setDepartmentId(val)}
               options={deptOptions}
               placeholder="选择部门"
               className="w-full"
@@ -1454,34 +1833,32 @@ Return JSON Format:
             <table className="w-full min-w-[620px] text-left text-[13px]">
               <thead className="bg-[#0B1222] text-slate-400 text-[11px] border-b border-white/10">
                 <tr>
-                  <th className="px-4 py-3 whitespace-nowrap">姓名</th>
-                  <th className="px-4 py-3 whitespace-nowrap">工号</th>
-                  <th className="px-4 py-3 whitespace-nowrap">部门</th>
-                  <th className="px-4 py-3 whitespace-nowrap">状态</th>
+                  <SortHeader label="姓名" field="employeename" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" prefix={canBulk && <RowCheckbox checked={isPageSelected} onToggle={togglePageSelected} title="选择本页" />} />
+                  <SortHeader label="工号" field="P_emp_no" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
+                  <SortHeader label="部门" field="Departmentid" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
+                  <SortHeader label="状态" field="P_emp_Status" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
                   <th className="px-4 py-3 whitespace-nowrap">电话</th>
-                  <th className="px-4 py-3 whitespace-nowrap">入职</th>
+                  <SortHeader label="入职" field="P_emp_workJoindt" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
                   <th className="px-4 py-3 text-right whitespace-nowrap">操作</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-white/5">
-                {loading && employees.length === 0 ? (
+                {archive.loading && archive.rows.length === 0 ? (
                   <tr>
                     <td colSpan={7} className="px-4 py-12 text-center text-slate-500">
                       <Loader2 className="w-5 h-5 animate-spin inline-block mr-2" /> 数据同步中...
                     </td>
                   </tr>
-                ) : filteredData.length === 0 ? (
+                ) : archive.rows.length === 0 ? (
                   <tr>
                     <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
                       未找到相关数据
                     </td>
                   </tr>
                 ) : (
-                  filteredData.map((row) => {
-                    const isPhoneVisible = visiblePhones.has(row.P_emp_no);
-                    const maskedPhone = row.p_emp_phone
-                      ? row.p_emp_phone.replace(/(\d{3})\d{4}(\d{4})/, '$1****$2')
-                      : '-';
+                  archive.rows.map((row) => {
+                    const isRevealed = revealedRows.has(row.P_emp_no);
+                    const canRevealRow = canReveal && sensitiveFieldsOf(row, maskingPolicy).length > 0;
 
                     return (
                       <tr
@@ -1491,6 +1868,7 @@ Return JSON Format:
                       >
                         <td className="px-4 py-3 text-white font-medium whitespace-nowrap">
                           <div className="flex items-center gap-2">
+                            {canBulk && <RowCheckbox checked={selectedIds.has(row.P_emp_no)} onToggle={() => toggleSelected(row.P_emp_no)} />}
                             <div className="w-8 h-8 rounded-full bg-slate-800 border border-white/10 overflow-hidden flex items-center justify-center text-xs font-bold text-slate-400">
                               {row.webbmp ? <img src={row.webbmp} className="w-full h-full object-cover" /> : row.employeename?.[0] || 'U'}
                             </div>
@@ -1506,22 +1884,22 @@ Return JSON Format:
                         </td>
                         <td className="px-4 py-3 text-slate-300 font-mono text-[12px] whitespace-nowrap">
                           <div className="flex items-center gap-2">
-                            {isPhoneVisible ? row.p_emp_phone : maskedPhone}
-                            {row.p_emp_phone && (
+                            {displayField(row, 'p_emp_phone', row.p_emp_phone) || '-'}
+                            {canRevealRow && (
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  togglePhoneVisibility(row.P_emp_no);
+                                  toggleReveal(row, 'list');
                                 }}
                                 className="p-1 text-slate-500 hover:text-white"
                               >
-                                {isPhoneVisible ? <EyeOff size={12} /> : <Eye size={12} />}
+                                {isRevealed ? <EyeOff size={12} /> : <Eye size={12} />}
                               </button>
                             )}
                           </div>
                         </td>
                         <td className="px-4 py-3 text-slate-300 text-[12px] whitespace-nowrap">
-                          {row.P_emp_workJoindt ? String(row.P_emp_workJoindt).split('T')[0] : '-'}
+                          {displayField(row, 'P_emp_workJoindt', toDateInput(row.P_emp_workJoindt)) || '-'}
                         </td>
                         <td className="px-4 py-3 text-right whitespace-nowrap">
                           <button
@@ -1541,6 +1919,7 @@ Return JSON Format:
               </tbody>
             </table>
           </div>
+          <LoadMoreSentinel onVisible={archive.loadMore} hasMore={archive.hasNext} loading={archive.loading} />
         </div>
 
         {!isAnalysisOpen && (
@@ -1592,7 +1971,7 @@ Return JSON Format:
             <h2 className="text-lg font-bold text-white tracking-tight flex items-center gap-2">
               <span className="w-2 h-2 rounded-full bg-indigo-500 animate-pulse"></span>
               员工管理中心
-              <span className="text-[11px] text-slate-400 font-mono bg-white/5 px-2 py-0.5 rounded-full border border-white/10">{filteredData.length} records</span>
+              <span className="text-[11px] text-slate-400 font-mono bg-white/5 px-2 py-0.5 rounded-full border border-white/10">{archive.total} records</span>
             </h2>
           </div>
         </div>
@@ -1605,6 +1984,34 @@ Return JSON Format:
           >
             <TableProperties size={14} /> 字段字典
           </button>
+          {canExport && (
+            <div className="hidden md:block">
+              <ExportMenu
+                items={employeeExportItems}
+                busy={exporting}
+                buttonClassName="flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-xs font-bold text-slate-300 transition-all border border-white/10"
+              >
+                {!exporting && <Download size={14} />} 导出
+              </ExportMenu>
+            </div>
+          )}
+          {canImport && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="hidden md:flex items-center gap-2 px-3 py-2 rounded-lg bg-white/5 hover:bg-white/10 text-xs font-bold text-slate-300 transition-all border border-white/10"
+              title="从 Excel / CSV 批量导入"
+            >
+              <FileSpreadsheet size={14} /> 导入
+            </button>
+          )}
+          {canCreate && (
+            <button
+              onClick={openCreator}
+              className="hidden md:flex items-center gap-2 px-3 py-2 rounded-lg bg-indigo-600/80 hover:bg-indigo-500 text-xs font-bold text-white transition-all border border-indigo-400/30"
+            >
+              <UserPlus size={14} /> 新增员工
+            </button>
+          )}
 
           <button
             onClick={() => openAnalysisCockpit()}
@@ -1623,8 +2030,8 @@ Return JSON Format:
           <div className="w-[160px] hidden md:block">
             <CustomSelect
               icon={Filter}
-              value={selectedDept}
-              onChange={(val: any) => setSelectedDept(val)}
+              value={archive.query.departmentId}
+              onChange={(val: any) => archive.setDepartmentId(val)}
               options={deptOptions}
               placeholder="部门筛选"
             />
@@ -1635,8 +2042,8 @@ Return JSON Format:
             <input
               type="text"
               placeholder="搜索姓名、工号..."
-              value={keyword}
-              onChange={(e) => setKeyword(e.target.value)}
+              value={archive.keywordInput}
+              onChange={(e) => archive.setKeyword(e.target.value)}
               className="w-full bg-gradient-to-r from-white/5 to-white/0 border border-white/10 rounded-lg pl-10 pr-4 py-2 text-sm text-white placeholder-slate-600 focus:outline-none focus:border-indigo-500/50 focus:ring-2 focus:ring-indigo-500/20 transition-all shadow-[0_10px_40px_-25px_rgba(99,102,241,0.6)]"
             />
           </div>
@@ -1644,7 +2051,7 @@ Return JSON Format:
           <div className="h-4 w-[1px] bg-white/10 mx-1"></div>
 
           <button
-            onClick={() => loadData()}
+            onClick={refreshAll}
             disabled={loading}
             className="p-2 text-slate-400 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
           >
@@ -1654,10 +2061,10 @@ Return JSON Format:
       </div>
 
       {/* Error Banner (避免 error state unused, 也方便你看 API 报错) */}
-      {error && (
+      {(error || archive.error) && (
         <div className="px-6 py-3 text-xs text-red-200 bg-red-500/10 border-b border-red-500/20 flex items-center gap-2">
           <AlertTriangle size={14} className="text-red-300" />
-          <span>{error}</span>
+          <span>{error || archive.error}</span>
         </div>
       )}
 
@@ -1707,35 +2114,40 @@ Return JSON Format:
         <table className="w-full text-left border-separate border-spacing-0">
           <thead className="sticky top-0 z-20 bg-gradient-to-r from-[#0F1629] via-[#0F1629]/95 to-[#0F1629] text-xs font-bold text-slate-400 uppercase tracking-wider shadow-[0_10px_30px_-20px_rgba(0,0,0,0.8)] backdrop-blur">
             <tr>
-              <th className="sticky left-0 z-30 bg-[#0F1629] px-6 py-4 border-b border-white/10 border-r border-white/5 w-[200px]">
-                员工信息
-              </th>
-              <th className="px-6 py-4 border-b border-white/10 w-[120px]">工号</th>
-              <th className="px-6 py-4 border-b border-white/10">所属部门</th>
-              <th className="px-6 py-4 border-b border-white/10">状态</th>
+              <SortHeader
+                label="员工信息"
+                field="employeename"
+                sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort}
+                className="sticky left-0 z-30 bg-[#0F1629] px-6 py-4 border-b border-white/10 border-r border-white/5 w-[200px]"
+                prefix={canBulk && <RowCheckbox checked={isPageSelected} onToggle={togglePageSelected} title="选择本页" />}
+              />
+              <SortHeader label="工号" field="P_emp_no" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-6 py-4 border-b border-white/10 w-[120px]" />
+              <SortHeader label="所属部门" field="Departmentid" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-6 py-4 border-b border-white/10" />
+              <SortHeader label="状态" field="P_emp_Status" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-6 py-4 border-b border-white/10" />
               <th className="px-6 py-4 border-b border-white/10">联系电话</th>
-              <th className="px-6 py-4 border-b border-white/10">入职日期</th>
+              <SortHeader label="入职日期" field="P_emp_workJoindt" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-6 py-4 border-b border-white/10" />
               <th className="sticky right-0 z-30 bg-[#0F1629] px-6 py-4 border-b border-white/10 border-l border-white/5 text-right w-[100px]">
                 操作
               </th>
             </tr>
           </thead>
           <tbody className="text-sm divide-y divide-white/5">
-            {loading && employees.length === 0 ? (
+            {archive.loading && archive.rows.length === 0 ? (
               <tr>
                 <td colSpan={7} className="py-32 text-center text-slate-500">
                   <Loader2 className="w-8 h-8 animate-spin mx-auto mb-2" /> 数据同步中...
                 </td>
               </tr>
-            ) : filteredData.length === 0 ? (
+            ) : archive.rows.length === 0 ? (
               <tr>
                 <td colSpan={7} className="py-32 text-center text-slate-500">
                   未找到相关数据
                 </td>
               </tr>
             ) : (
-              filteredData.map((row) => {
-                const isPhoneVisible = visiblePhones.has(row.P_emp_no);
+              archive.rows.map((row) => {
+                const isRevealed = revealedRows.has(row.P_emp_no);
+                const canRevealRow = canReveal && sensitiveFieldsOf(row, maskingPolicy).length > 0;
                 return (
                   <tr
                     key={row.P_emp_no}
@@ -1744,6 +2156,7 @@ Return JSON Format:
                   >
                     <td className="sticky left-0 z-10 px-6 py-3 bg-[#0F1629] group-hover:bg-[#131b2e] border-r border-white/5 transition-colors">
                       <div className="flex items-center gap-3">
+                        {canBulk && <RowCheckbox checked={selectedIds.has(row.P_emp_no)} onToggle={() => toggleSelected(row.P_emp_no)} />}
                         <div className="w-9 h-9 rounded-full bg-slate-800 overflow-hidden flex items-center justify-center shrink-0 border border-white/10">
                           {row.webbmp ? (
                             <img src={row.webbmp} className="w-full h-full object-cover" />
@@ -1755,7 +2168,7 @@ Return JSON Format:
                         </div>
                         <div>
                           <div className="font-bold text-slate-200">{row.employeename}</div>
-                          <div className="text-[10px] text-slate-500">{row.p_emp_degree || '未记录'}</div>
+                          <div className="text-[10px] text-slate-500">{displayField(row, 'p_emp_degree', row.p_emp_degree) || '未记录'}</div>
                         </div>
                       </div>
                     </td>
@@ -1783,24 +2196,22 @@ Return JSON Format:
                     </td>
                     <td className="px-6 py-3 text-slate-400 font-mono text-xs">
                       <div className="flex items-center gap-2">
-                        {isPhoneVisible
-                          ? row.p_emp_phone
-                          : row.p_emp_phone
-                            ? row.p_emp_phone.replace(/(\d{3})\d{4}(\d{4})/, '$1****$2')
-                            : '-'}
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            togglePhoneVisibility(row.P_emp_no);
-                          }}
-                          className="p-1 hover:text-white text-slate-600"
-                        >
-                          {isPhoneVisible ? <EyeOff size={12} /> : <Eye size={12} />}
-                        </button>
+                        {displayField(row, 'p_emp_phone', row.p_emp_phone) || '-'}
+                        {canRevealRow && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleReveal(row, 'list');
+                            }}
+                            className="p-1 hover:text-white text-slate-600"
+                          >
+                            {isRevealed ? <EyeOff size={12} /> : <Eye size={12} />}
+                          </button>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-3 text-slate-400 text-xs">
-                      {row.P_emp_workJoindt ? String(row.P_emp_workJoindt).split('T')[0] : '-'}
+                      {displayField(row, 'P_emp_workJoindt', toDateInput(row.P_emp_workJoindt)) || '-'}
                     </td>
                     <td className="sticky right-0 z-10 px-6 py-3 bg-[#0F1629] group-hover:bg-[#131b2e] border-l border-white/5 text-right transition-colors">
                       <button
@@ -1818,6 +2229,30 @@ Return JSON Format:
         </table>
       </div>
 
+      {/* 2a. Pager (Desktop) */}
+      <div className="hidden md:flex items-center justify-between px-6 py-3 border-t border-white/5 bg-white/[0.02] text-xs text-slate-400 relative z-10 shrink-0">
+        <span>
+          共 <span className="text-slate-200 font-mono">{archive.total}</span> 条 · 第 {archive.page} / {archive.pageCount} 页
+        </span>
+        <div className="flex items-center gap-2">
+          {archive.loading && <Loader2 className="w-3.5 h-3.5 animate-spin text-indigo-400" />}
+          <button
+            onClick={archive.prevPage}
+            disabled={!archive.hasPrev || archive.loading}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <ChevronLeft size={14} /> 上一页
+          </button>
+          <button
+            onClick={archive.nextPage}
+            disabled={!archive.hasNext || archive.loading}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            下一页 <ChevronRight size={14} />
+          </button>
+        </div>
+      </div>
+
       {/* 2b. Compact table (Mobile) */}
       <div className="md:hidden px-3 pb-6">
         <div className="rounded-2xl border border-white/10 bg-white/[0.02] shadow-inner overflow-hidden">
@@ -1828,34 +2263,32 @@ Return JSON Format:
             <table className="w-full min-w-[620px] text-left text-[13px]">
               <thead className="bg-[#0F1629] text-slate-400 text-[11px] border-b border-white/10">
                 <tr>
-                  <th className="px-4 py-3 whitespace-nowrap">姓名</th>
-                  <th className="px-4 py-3 whitespace-nowrap">工号</th>
-                  <th className="px-4 py-3 whitespace-nowrap">部门</th>
-                  <th className="px-4 py-3 whitespace-nowrap">状态</th>
+                  <SortHeader label="姓名" field="employeename" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" prefix={canBulk && <RowCheckbox checked={isPageSelected} onToggle={togglePageSelected} title="选择本页" />} />
+                  <SortHeader label="工号" field="P_emp_no" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
+                  <SortHeader label="部门" field="Departmentid" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
+                  <SortHeader label="状态" field="P_emp_Status" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
                   <th className="px-4 py-3 whitespace-nowrap">电话</th>
-                  <th className="px-4 py-3 whitespace-nowrap">入职</th>
+                  <SortHeader label="入职" field="P_emp_workJoindt" sortBy={archive.query.sortBy} sortDir={archive.query.sortDir} onSort={archive.toggleSort} className="px-4 py-3 whitespace-nowrap" />
                   <th className="px-4 py-3 text-right whitespace-nowrap">操作</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-white/5">
-                {loading && employees.length === 0 ? (
+                {archive.loading && archive.rows.length === 0 ? (
                   <tr>
                     <td colSpan={7} className="px-4 py-12 text-center text-slate-500">
                       <Loader2 className="w-5 h-5 animate-spin inline-block mr-2" /> 数据同步中...
                     </td>
                   </tr>
-                ) : filteredData.length === 0 ? (
+                ) : archive.rows.length === 0 ? (
                   <tr>
                     <td colSpan={7} className="px-4 py-8 text-center text-slate-500">
                       未找到相关数据
                     </td>
                   </tr>
                 ) : (
-                  filteredData.map((row) => {
-                    const isPhoneVisible = visiblePhones.has(row.P_emp_no);
-                    const maskedPhone = row.p_emp_phone
-                      ? row.p_emp_phone.replace(/(\d{3})\d{4}(\d{4})/, '$1****$2')
-                      : '-';
+                  archive.rows.map((row) => {
+                    const isRevealed = revealedRows.has(row.P_emp_no);
+                    const canRevealRow = canReveal && sensitiveFieldsOf(row, maskingPolicy).length > 0;
 
                     return (
                       <tr
@@ -1865,6 +2298,7 @@ Return JSON Format:
                       >
                         <td className="px-4 py-3 text-white font-medium whitespace-nowrap">
                           <div className="flex items-center gap-2">
+                            {canBulk && <RowCheckbox checked={selectedIds.has(row.P_emp_no)} onToggle={() => toggleSelected(row.P_emp_no)} />}
                             <div className="w-8 h-8 rounded-full bg-slate-800 border border-white/10 overflow-hidden flex items-center justify-center text-xs font-bold text-slate-400">
                               {row.webbmp ? <img src={row.webbmp} className="w-full h-full object-cover" /> : row.employeename?.[0] || 'U'}
                             </div>
@@ -1880,22 +2314,22 @@ Return JSON Format:
                         </td>
                         <td className="px-4 py-3 text-slate-300 font-mono text-[12px] whitespace-nowrap">
                           <div className="flex items-center gap-2">
-                            {isPhoneVisible ? row.p_emp_phone : maskedPhone}
-                            {row.p_emp_phone && (
+                            {displayField(row, 'p_emp_phone', row.p_emp_phone) || '-'}
+                            {canRevealRow && (
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  togglePhoneVisibility(row.P_emp_no);
+                                  toggleReveal(row, 'list');
                                 }}
                                 className="p-1 text-slate-500 hover:text-white"
                               >
-                                {isPhoneVisible ? <EyeOff size={12} /> : <Eye size={12} />}
+                                {isRevealed ? <EyeOff size={12} /> : <Eye size={12} />}
                               </button>
                             )}
                           </div>
                         </td>
                         <td className="px-4 py-3 text-slate-300 text-[12px] whitespace-nowrap">
-                          {row.P_emp_workJoindt ? String(row.P_emp_workJoindt).split('T')[0] : '-'}
+                          {displayField(row, 'P_emp_workJoindt', toDateInput(row.P_emp_workJoindt)) || '-'}
                         </td>
                         <td className="px-4 py-3 text-right whitespace-nowrap">
                           <button
@@ -1915,136 +2349,14 @@ Return JSON Format:
               </tbody>
             </table>
           </div>
+          <LoadMoreSentinel onVisible={archive.loadMore} hasMore={archive.hasNext} loading={archive.loading} />
         </div>
       </div>
 
       {/* 3. Editor Modal */}
-      {isEditorOpen && currentEmp && (
-        <div className="fixed inset-0 z-[100] flex items-start md:items-center justify-center p-3 sm:p-4">
-          <div className="absolute inset-0 bg-slate-950/70 backdrop-blur-sm" onClick={() => setIsEditorOpen(false)} />
-          <div className="relative w-full max-w-lg md:max-w-2xl bg-[#0F1629] border border-white/10 rounded-2xl shadow-2xl overflow-hidden animate-in zoom-in-95 h-[90vh] md:h-auto flex flex-col">
-            <div className="px-6 py-4 border-b border-white/5 bg-white/[0.02] flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-full bg-slate-800 border border-white/10 overflow-hidden flex items-center justify-center">
-                  {currentEmp.webbmp ? (
-                    <img src={currentEmp.webbmp} className="w-full h-full object-cover" />
-                  ) : (
-                    <span className="font-bold text-slate-400">{currentEmp.employeename?.[0] || 'U'}</span>
-                  )}
-                </div>
-                <div>
-                  <h3 className="font-bold text-white text-base">编辑员工信息</h3>
-                  <p className="text-xs text-slate-400">工号: {currentEmp.P_emp_no}</p>
-                </div>
-              </div>
-              <button
-                onClick={() => setIsEditorOpen(false)}
-                className="p-1.5 rounded-full hover:bg-white/10 text-slate-400 hover:text-white"
-              >
-                <X size={18} />
-              </button>
-            </div>
-
-            <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-5 overflow-y-auto flex-1">
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">姓名</label>
-                <input
-                  type="text"
-                  value={currentEmp.employeename}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, employeename: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                />
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">联系电话</label>
-                <input
-                  type="text"
-                  value={currentEmp.p_emp_phone}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, p_emp_phone: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                />
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">性别</label>
-                <div className="flex gap-4 pt-1">
-                  {['男', '女'].map((g) => (
-                    <label
-                      key={g}
-                      className="flex items-center gap-2 cursor-pointer bg-black/20 px-3 py-1.5 rounded-lg border border-white/5 hover:bg-white/5"
-                    >
-                      <input
-                        type="radio"
-                        className="accent-indigo-500"
-                        checked={currentEmp.P_emp_sex === g}
-                        onChange={() => setCurrentEmp({ ...currentEmp, P_emp_sex: g })}
-                      />
-                      <span className="text-sm text-slate-300">{g}</span>
-                    </label>
-                  ))}
-                </div>
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">学历</label>
-                <input
-                  type="text"
-                  value={currentEmp.p_emp_degree}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, p_emp_degree: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                />
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">所属部门</label>
-                <CustomSelect
-                  value={currentEmp.Departmentid}
-                  onChange={(val: any) => setCurrentEmp({ ...currentEmp, Departmentid: val })}
-                  options={editDeptOptions}
-                  placeholder="选择部门"
-                />
-              </div>
-
-              <div className="col-span-1 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">员工状态</label>
-                <CustomSelect
-                  value={currentEmp.P_emp_Status}
-                  onChange={(val: any) => setCurrentEmp({ ...currentEmp, P_emp_Status: String(val) })}
-                  options={statusOptions}
-                  placeholder="选择状态"
-                />
-              </div>
-
-              <div className="col-span-2 space-y-1.5">
-                <label className="text-xs font-medium text-slate-400">入职日期</label>
-                <input
-                  type="date"
-                  value={currentEmp.P_emp_workJoindt ? String(currentEmp.P_emp_workJoindt).split('T')[0] : ''}
-                  onChange={(e) => setCurrentEmp({ ...currentEmp, P_emp_workJoindt: e.target.value })}
-                  className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-sm text-white focus:border-indigo-500/50 focus:outline-none"
-                />
-              </div>
-            </div>
-
-            <div className="p-4 border-t border-white/5 bg-black/20 flex justify-end gap-3">
-              <button
-                onClick={() => setIsEditorOpen(false)}
-                className="px-4 py-2 rounded-lg text-sm text-slate-400 hover:text-white hover:bg-white/5"
-              >
-                取消
-              </button>
-              <button
-                onClick={handleSave}
-                disabled={saving}
-                className="px-6 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-medium flex items-center gap-2"
-              >
-                {saving && <Loader2 className="w-4 h-4 animate-spin" />} 保存更改
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
+      {renderEditor()}
+      {renderBulkBar()}
+      {renderImportWizard()}
 
       {/* 4. Schema Reference Modal */}
       {isSchemaOpen && (
@@ -2132,10 +2444,13 @@ Return JSON Format:
               </div>
             </div>
             <div className="flex items-center gap-3">
-              {!isAiGenerating && (
-                <button className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-xs text-slate-300 hover:text-white hover:bg-white/10 transition-colors">
+              {!isAiGenerating && aiReportConfig && (
+                <ExportMenu
+                  items={reportExportItems}
+                  buttonClassName="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-xs text-slate-300 hover:text-white hover:bg-white/10 transition-colors"
+                >
                   <Share2 size={14} /> 导出报表
-                </button>
+                </ExportMenu>
               )}
               <button
                 onClick={() => setIsAnalysisOpen(false)}
@@ -2574,9 +2889,7 @@ Return JSON Format:
                       </p>
                     </div>
                     <button
-                      onClick={() =>
-                        generateDynamicAnalysis(aiParams?.query || '综合人力画像', employees, departments, dataSchema, recruitmentTrend)
-                      }
+                      onClick={() => runAnalysis(aiParams?.query || '综合人力画像')}
                       className="px-4 py-2 rounded-full bg-gradient-to-r from-indigo-500/60 to-blue-500/60 border border-indigo-400/40 text-white text-xs hover:from-indigo-500 hover:to-blue-500 transition-all shadow-lg shadow-indigo-900/40 flex items-center gap-2"
                     >
                       <RefreshCw size={14} /> 一键云端深析
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EmployeeSortField, SortDirection, SqlResult, sqlGateway } from '../services/sqlGateway';
+import { Employee } from '../../types';
+
+export interface ArchiveQuery {
+  keyword: string;
+  departmentId: string | number;
+  sortBy: EmployeeSortField;
+  sortDir: SortDirection;
+}
+
+export interface EmployeeArchiveOptions {
+  pageSize?: number;
+  // 部门经理固定只看本部门；网关侧同样会强制该条件
+  departmentScope?: number | null;
+}
+
+const DEFAULT_QUERY: ArchiveQuery = {
+  keyword: '',
+  departmentId: '',
+  sortBy: 'P_emp_workJoindt',
+  sortDir: 'desc',
+};
+
+const KEYWORD_DEBOUNCE_MS = 300;
+const EXPORT_PAGE_SIZE = 500;
+
+const toPageParams = (q: ArchiveQuery) => ({
+  keyword: q.keyword.trim(),
+  departmentId: q.departmentId === '' ? null : Number(q.departmentId),
+  sortBy: q.sortBy,
+  sortDir: q.sortDir,
+});
+
+/**
+ * 员工档案列表的服务端分页状态
+ * 筛选、排序、游标都交给 SQL 网关处理；游标只保存在组件状态里（不写入 URL）。
+ * 桌面端用 nextPage / prevPage 翻页，移动端用 loadMore 追加实现无限滚动。
+ */
+const useEmployeeArchive = (options?: EmployeeArchiveOptions) => {
+  const pageSize = options?.pageSize ?? 50;
+  const departmentScope = options?.departmentScope ?? null;
+
+  const [query, setQuery] = useState<ArchiveQuery>(() =>
+    departmentScope === null ? DEFAULT_QUERY : { ...DEFAULT_QUERY, departmentId: departmentScope }
+  );
+  const [keywordInput, setKeywordInput] = useState('');
+  const [rows, setRows] = useState<Employee[]>([]);
+  const [total, setTotal] = useState(0);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [cursorHistory, setCursorHistory] = useState<Array<string | null>>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 只采纳最后一次请求的结果，避免快速切换筛选时旧响应覆盖新数据
+  const requestIdRef = useRef(0);
+
+  const fetchPage = useCallback(
+    async (q: ArchiveQuery, pageCursor: string | null, mode: 'replace' | 'append') => {
+      const requestId = ++requestIdRef.current;
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await sqlGateway.query('employee.page', {
+          ...toPageParams(q),
+          cursor: pageCursor,
+          limit: pageSize,
+        });
+        if (requestId !== requestIdRef.current) return;
+
+        setRows((prev) => (mode === 'append' ? [...prev, ...result.rows] : result.rows));
+        setTotal(result.total ?? result.rows.length);
+        setNextCursor(result.nextCursor ?? null);
+      } catch (err: any) {
+        if (requestId !== requestIdRef.current) return;
+        console.error(err);
+        setError(`列表加载失败: ${err?.message || String(err)}`);
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    },
+    [pageSize]
+  );
+
+  // 任一筛选/排序条件变化都回到第一页
+  useEffect(() => {
+    setCursor(null);
+    setCursorHistory([]);
+    fetchPage(query, null, 'replace');
+  }, [query, fetchPage]);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      setQuery((prev) => (prev.keyword === keywordInput ? prev : { ...prev, keyword: keywordInput }));
+    }, KEYWORD_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [keywordInput]);
+
+  const setDepartmentId = useCallback(
+    (departmentId: string | number) => {
+      if (departmentScope !== null) return;
+      setQuery((prev) => ({ ...prev, departmentId }));
+    },
+    [departmentScope]
+  );
+
+  // 角色信息晚于列表加载时，拿到部门范围后立即收窄
+  useEffect(() => {
+    if (departmentScope === null) return;
+    setQuery((prev) => (prev.departmentId === departmentScope ? prev : { ...prev, departmentId: departmentScope }));
+  }, [departmentScope]);
+
+  const toggleSort = useCallback((field: EmployeeSortField) => {
+    setQuery((prev) =>
+      prev.sortBy === field
+        ? { ...prev, sortDir: prev.sortDir === 'asc' ? 'desc' : 'asc' }
+        : { ...prev, sortBy: field, sortDir: field === 'P_emp_workJoindt' ? 'desc' : 'asc' }
+    );
+  }, []);
+
+  const nextPage = useCallback(() => {
+    if (!nextCursor || loading) return;
+    setCursorHistory((prev) => [...prev, cursor]);
+    setCursor(nextCursor);
+    fetchPage(query, nextCursor, 'replace');
+  }, [cursor, fetchPage, loading, nextCursor, query]);
+
+  const prevPage = useCallback(() => {
+    if (!cursorHistory.length || loading) return;
+    const prevCursor = cursorHistory[cursorHistory.length - 1];
+    setCursorHistory((prev) => prev.slice(0, -1));
+    setCursor(prevCursor);
+    fetchPage(query, prevCursor, 'replace');
+  }, [cursorHistory, fetchPage, loading, query]);
+
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loading) return;
+    fetchPage(query, nextCursor, 'append');
+  }, [fetchPage, loading, nextCursor, query]);
+
+  const refresh = useCallback(() => {
+    setCursor(null);
+    setCursorHistory([]);
+    fetchPage(query, null, 'replace');
+  }, [fetchPage, query]);
+
+  // 导出用：按当前筛选与排序逐页拉取全部结果（不影响列表状态）
+  const fetchAll = useCallback(async () => {
+    const all: Employee[] = [];
+    let pageCursor: string | null = null;
+    do {
+      const result: SqlResult<Employee> = await sqlGateway.query('employee.page', {
+        ...toPageParams(query),
+        cursor: pageCursor,
+        limit: EXPORT_PAGE_SIZE,
+      });
+      all.push(...result.rows);
+      pageCursor = result.nextCursor ?? null;
+    } while (pageCursor);
+    return all;
+  }, [query]);
+
+  // 保存成功后就地更新当前页，避免整页重新拉取
+  const patchRow = useCallback((empNo: string, fields: Partial<Employee>) => {
+    setRows((prev) => prev.map((row) => (row.P_emp_no === empNo ? { ...row, ...fields } : row)));
+  }, []);
+
+  return {
+    query,
+    keywordInput,
+    setKeyword: setKeywordInput,
+    setDepartmentId,
+    toggleSort,
+    rows,
+    total,
+    page: cursorHistory.length + 1,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    hasNext: !!nextCursor,
+    hasPrev: cursorHistory.length > 0,
+    nextPage,
+    prevPage,
+    loadMore,
+    refresh,
+    fetchAll,
+    patchRow,
+    loading,
+    error,
+  };
+};
+
+export default useEmployeeArchive;
@@ -1,9 +1,14 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { AsrMsg, RealtimeAsrClient } from '../lib/realtimeAsrClient';
+import { AsrConnectionState, AsrMsg, RealtimeAsrClient } from '../lib/realtimeAsrClient';
+import { STRICT_MATCH_THRESHOLD, bestKeywordMatch } from '../lib/pinyinMatcher';
 import { fetchAppConfig } from '../services/appConfig';
+import { DEFAULT_VOICE_KEYWORDS, VoiceKeywords, fetchVoiceKeywords, keywordsOf } from '../services/voiceKeywords';
 
 export type AssistantState = 'wake_listen' | 'awake';
 
+/** 语音识别连接状态；off 表示未开启监听 */
+export type VoiceConnection = AsrConnectionState | 'off';
+
 type ActionType = 'none' | 'navigate' | 'execute_command';
 
 export interface AssistantAction {
@@ -14,31 +19,40 @@ export interface AssistantAction {
 export interface VoiceAssistantOptions {
   onNavigate?: (view: string, params?: any) => void;
   onExecuteCommand?: (commandText: string) => void;
+  /** 检测到开口 / 说完（客户端 VAD） */
+  onSpeechStart?: () => void;
+  onSpeechEnd?: () => void;
 }
 
 export interface VoiceAssistantStatus {
   assistantState: AssistantState;
   isListening: boolean;
+  /** 正在说话（VAD 判定），此时才会连接语音识别服务 */
+  speaking: boolean;
+  connection: VoiceConnection;
   transcript: string;
   feedback: string;
   indicator: 'gray' | 'green' | 'yellow';
 }
 
-const WAKE_WORDS = ['小朗', '小浪', '小狼', '晓朗', '小郎'];
-const EXIT_WORDS = ['退下吧', '退下', '休眠', '退出待命'];
-
 function normalizeCn(s: string) {
   return (s || '').replace(/\s+/g, '').replace(/[，。！？,.!?]/g, '');
 }
 
+// 唤醒词 / 休眠词按拼音匹配，只容忍同音字；近音写法（如「小龙」）需配置为 variants
 function containsAny(text: string, words: string[]) {
-  const t = normalizeCn(text);
-  return words.some((w) => t.includes(w));
+  return !!bestKeywordMatch(normalizeCn(text), words, STRICT_MATCH_THRESHOLD);
 }
 
-function stripWake(text: string) {
+function stripWake(text: string, wakeWords: string[]) {
   let t = normalizeCn(text);
-  for (const w of WAKE_WORDS) t = t.split(w).join('');
+  for (const w of wakeWords) t = t.split(w).join('');
+  // 唤醒词被识别成同音字时按命中位置去掉
+  const match = bestKeywordMatch(t, wakeWords, STRICT_MATCH_THRESHOLD);
+  if (match) {
+    const chars = Array.from(t);
+    t = [...chars.slice(0, match.start), ...chars.slice(match.end)].join('');
+  }
   return t.trim();
 }
 
@@ -67,32 +81,45 @@ function sayIAmHere() {
   } catch {}
 }
 
+const COMMAND_ROUTES: { keywords: string[]; view: string; params?: any }[] = [
+  { keywords: ['员工', '档案'], view: 'employee' },
+  { keywords: ['知识库'], view: 'knowledge' },
+  { keywords: ['识图', '视觉'], view: 'vision' },
+  { keywords: ['分析', '统计'], view: 'tools', params: { mode: 'analysis' } },
+  { keywords: ['主页', '首页'], view: 'dashboard' },
+];
+
+// 取置信度最高的路由；同分时按表中顺序
 const fallbackCommandRouter = (
   commandText: string,
   onNavigate?: (view: string, params?: any) => void
 ) => {
   if (!onNavigate) return;
-  const cmd = commandText.toLowerCase();
-  if (cmd.includes('员工') || cmd.includes('档案')) return onNavigate('employee');
-  if (cmd.includes('知识库')) return onNavigate('knowledge');
-  if (cmd.includes('识图') || cmd.includes('视觉')) return onNavigate('vision');
-  if (cmd.includes('分析') || cmd.includes('统计')) return onNavigate('tools', { mode: 'analysis' });
-  if (cmd.includes('主页') || cmd.includes('首页')) return onNavigate('dashboard');
+  const cmd = normalizeCn(commandText.toLowerCase());
+  let best: { route: (typeof COMMAND_ROUTES)[number]; confidence: number } | null = null;
+  for (const route of COMMAND_ROUTES) {
+    const match = bestKeywordMatch(cmd, route.keywords);
+    if (match && (!best || match.confidence > best.confidence)) best = { route, confidence: match.confidence };
+  }
+  if (best) return onNavigate(best.route.view, best.route.params);
 };
 
 const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
   const [assistantState, setAssistantState] = useState<AssistantState>('wake_listen');
   const [isListening, setIsListening] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+  const [connection, setConnection] = useState<VoiceConnection>('off');
   const [transcript, setTranscript] = useState('');
   const [feedback, setFeedback] = useState('');
 
   const asrClientRef = useRef<RealtimeAsrClient | null>(null);
   const shouldListenRef = useRef(false);
   const asrUrlRef = useRef<string | null>(null);
-  const restartTimerRef = useRef<number | null>(null);
+  const keywordsRef = useRef<VoiceKeywords>(DEFAULT_VOICE_KEYWORDS);
   const wakeTimeoutRef = useRef<number | null>(null);
   const assistantStateRef = useRef<AssistantState>('wake_listen');
-  const startingRef = useRef(false);
+  // 每次停止监听加一；启动过程中的每个 await 之后比对，已被停止（或又重新开启）的旧启动直接作废
+  const sessionRef = useRef(0);
 
   const indicator: VoiceAssistantStatus['indicator'] = useMemo(() => {
     if (assistantState === 'awake') return 'green';
@@ -138,7 +165,7 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
 
   const handleCommand = useCallback(
     (text: string) => {
-      const cleaned = stripWake(text);
+      const cleaned = stripWake(text, keywordsOf(keywordsRef.current.wake));
       if (!cleaned) {
         scheduleWakeTimeout();
         return;
@@ -162,22 +189,26 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
     asrClientRef.current = null;
   }, []);
 
-  const startClientRef = useRef<() => Promise<void> | void>();
-
-  const scheduleRestart = useCallback(() => {
-    if (!shouldListenRef.current) return;
-    if (restartTimerRef.current) window.clearTimeout(restartTimerRef.current);
-    restartTimerRef.current = window.setTimeout(() => {
-      startClientRef.current?.();
-    }, 600);
-  }, []);
-
   const handleAsrMsg = useCallback(
     (msg: AsrMsg) => {
       if (!msg) return;
       if (msg.type === 'started') {
         setIsListening(true);
-        setFeedback('监听中');
+        return;
+      }
+      if (msg.type === 'speech_start') {
+        setSpeaking(true);
+        setFeedback('正在聆听...');
+        // 说话期间不因超时退回待命
+        if (assistantStateRef.current === 'awake') clearWakeTimeout();
+        options?.onSpeechStart?.();
+        return;
+      }
+      if (msg.type === 'speech_end') {
+        setSpeaking(false);
+        setFeedback(assistantStateRef.current === 'awake' ? '待指令' : '监听中');
+        if (assistantStateRef.current === 'awake') scheduleWakeTimeout();
+        options?.onSpeechEnd?.();
         return;
       }
       if (msg.type === 'ready') {
@@ -188,7 +219,7 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
         if (msg.text) {
           setTranscript(msg.text.trim());
           setFeedback('正在识别...');
-          if (assistantStateRef.current !== 'awake' && containsAny(msg.text, WAKE_WORDS)) {
+          if (assistantStateRef.current !== 'awake' && containsAny(msg.text, keywordsOf(keywordsRef.current.wake))) {
             handleAwake();
           }
         }
@@ -199,11 +230,12 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
         if (!text) return;
         setTranscript(text);
         const normalized = normalizeCn(text);
-        if (assistantStateRef.current === 'awake' && containsAny(normalized, EXIT_WORDS)) {
+        const { wake, sleep } = keywordsRef.current;
+        if (assistantStateRef.current === 'awake' && containsAny(normalized, keywordsOf(sleep))) {
           handleExit();
           return;
         }
-        if (assistantStateRef.current !== 'awake' && containsAny(normalized, WAKE_WORDS)) {
+        if (assistantStateRef.current !== 'awake' && containsAny(normalized, keywordsOf(wake))) {
           handleAwake();
         }
         if (assistantStateRef.current === 'awake') {
@@ -211,46 +243,65 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
         }
         return;
       }
+      if (msg.type === 'connection') {
+        setConnection(msg.state);
+        if (msg.state === 'reconnecting') {
+          setFeedback(`语音连接中断，${Math.ceil((msg.retryInMs || 0) / 1000)} 秒后重连（第 ${msg.attempt} 次）`);
+        } else if (msg.state === 'failed') {
+          setFeedback('语音服务不可用');
+        } else if (msg.state === 'connected') {
+          setFeedback(assistantStateRef.current === 'awake' ? '待指令' : '监听中');
+        }
+        return;
+      }
+      // 断线重连由 RealtimeAsrClient 处理，麦克风保持开启
       if (msg.type === 'error' || msg.type === 'nls_error') {
-        setIsListening(false);
-        setFeedback('语音连接中断，重试中');
-        scheduleRestart();
+        console.warn('asr session error', msg);
       }
     },
-    [handleAwake, handleCommand, handleExit, scheduleRestart]
+    [clearWakeTimeout, handleAwake, handleCommand, handleExit, options, scheduleWakeTimeout]
   );
 
   const startClient = useCallback(async () => {
-    if (startingRef.current) return;
-    startingRef.current = true;
-    if (restartTimerRef.current) {
-      window.clearTimeout(restartTimerRef.current);
-      restartTimerRef.current = null;
-    }
+    const session = sessionRef.current;
+    const cancelled = () => session !== sessionRef.current || !shouldListenRef.current;
+    let client: RealtimeAsrClient | null = null;
     try {
-      const wsUrl = await ensureConfig();
+      // 唤醒词每次开启监听时重新读取，后台修改后重新开启即可生效
+      const [wsUrl, keywords] = await Promise.all([ensureConfig(), fetchVoiceKeywords()]);
+      if (cancelled()) return;
+      keywordsRef.current = keywords;
       if (!wsUrl) throw new Error('缺少语音地址');
-      const client = new RealtimeAsrClient(wsUrl, (msg) => handleAsrMsg(msg));
+      // 作废后的客户端在关闭前可能还会回调，不能再改动当前状态
+      client = new RealtimeAsrClient(wsUrl, (msg) => {
+        if (!cancelled()) handleAsrMsg(msg);
+      });
       asrClientRef.current = client;
       await client.start();
+      // 启动期间用户已经关闭监听：释放刚打开的麦克风和连接
+      if (cancelled()) {
+        client.stop();
+        return;
+      }
       assistantStateRef.current = 'wake_listen';
       setAssistantState('wake_listen');
       setTranscript('');
       setFeedback('监听中');
       setIsListening(true);
     } catch (err) {
+      if (cancelled()) {
+        client?.stop();
+        return;
+      }
       console.error('asr start failed', err);
       setFeedback('语音启动失败');
       stopClient();
       setIsListening(false);
+      setConnection('off');
       shouldListenRef.current = false;
-    } finally {
-      startingRef.current = false;
     }
   }, [ensureConfig, handleAsrMsg, stopClient]);
 
-  startClientRef.current = startClient;
-
   const startListening = useCallback(async () => {
     if (isListening || shouldListenRef.current) {
       return;
@@ -267,7 +318,10 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
 
   const stopListening = useCallback(() => {
     shouldListenRef.current = false;
+    sessionRef.current += 1;
     setIsListening(false);
+    setSpeaking(false);
+    setConnection('off');
     stopClient();
     enterStandby();
   }, [enterStandby, stopClient]);
@@ -283,7 +337,6 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
   useEffect(() => {
     return () => {
       clearWakeTimeout();
-      if (restartTimerRef.current) window.clearTimeout(restartTimerRef.current);
       stopListening();
     };
   }, [clearWakeTimeout, stopListening]);
@@ -291,6 +344,8 @@ const useVoiceAssistant = (options?: VoiceAssistantOptions) => {
   const status: VoiceAssistantStatus = {
     assistantState,
     isListening,
+    speaking,
+    connection,
     transcript,
     feedback,
     indicator,
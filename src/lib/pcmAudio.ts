@@ -0,0 +1,135 @@
+// src/lib/pcmAudio.ts
+// 麦克风 PCM 处理：AudioWorklet 处理器与 ScriptProcessor 兜底路径共用（不依赖 window / DOM）
+
+export const ASR_SAMPLE_RATE = 16000;
+export const ASR_FRAME_SAMPLES = 320; // 20ms @ 16kHz
+export const PCM_CAPTURE_PROCESSOR = "pcm-capture";
+
+// 每个输出样本两侧各取多少个「目标采样周期」的输入参与卷积
+const HALF_TAPS = 16;
+// 滤波核的查表精度：每个输入样本间隔采样 64 个点，线性插值
+const TABLE_RES = 64;
+
+const blackman = (x: number) => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+export const floatToInt16 = (s: number) => {
+  const v = Math.max(-1, Math.min(1, s));
+  return v < 0 ? Math.round(v * 0x8000) : Math.round(v * 0x7fff);
+};
+
+/**
+ * 流式重采样（Blackman 窗 sinc 低通 + 分数位置插值）
+ * 降采样前先滤掉目标奈奎斯特频率以上的分量，避免最近邻抽取带来的混叠；跨 process 调用保留历史样本，帧边界处连续
+ */
+export class PcmResampler {
+  private readonly ratio: number;
+  private readonly halfWidth: number;
+  private readonly table: Float32Array;
+  private history: Float32Array;
+  // 下一个输出样本在 history 中的（小数）位置
+  private pos: number;
+
+  constructor(srcRate: number, dstRate = ASR_SAMPLE_RATE) {
+    this.ratio = srcRate / dstRate;
+    // 截止频率取目标奈奎斯特频率的 90%（以输入采样率归一化）；升采样时按输入奈奎斯特频率
+    const cutoff = 0.5 * Math.min(1, 1 / this.ratio) * 0.9;
+    this.halfWidth = HALF_TAPS * Math.max(1, this.ratio);
+
+    const size = Math.ceil(this.halfWidth * TABLE_RES) + 2;
+    this.table = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const d = i / TABLE_RES;
+      if (d > this.halfWidth) break;
+      const x = 2 * cutoff * d;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      this.table[i] = 2 * cutoff * sinc * blackman(d / this.halfWidth);
+    }
+
+    // 开头补零，第一个输出样本也有完整的左侧窗口
+    const pad = Math.ceil(this.halfWidth);
+    this.history = new Float32Array(pad);
+    this.pos = pad;
+  }
+
+  private kernel(d: number) {
+    const t = Math.abs(d) * TABLE_RES;
+    const i = Math.floor(t);
+    const frac = t - i;
+    return this.table[i] + (this.table[i + 1] - this.table[i]) * frac;
+  }
+
+  process(input: Float32Array): Int16Array {
+    const buf = new Float32Array(this.history.length + input.length);
+    buf.set(this.history);
+    buf.set(input, this.history.length);
+
+    const out = new Int16Array(Math.ceil(buf.length / this.ratio) + 1);
+    let n = 0;
+    // 右侧窗口凑齐后才输出，剩余部分等下一批输入
+    while (this.pos + this.halfWidth <= buf.length - 1) {
+      const first = Math.ceil(this.pos - this.halfWidth);
+      const last = Math.floor(this.pos + this.halfWidth);
+      let acc = 0;
+      let norm = 0;
+      for (let k = first; k <= last; k++) {
+        const w = this.kernel(this.pos - k);
+        acc += buf[k] * w;
+        norm += w;
+      }
+      // 按权重和归一化，保证直流增益为 1
+      out[n++] = floatToInt16(norm ? acc / norm : 0);
+      this.pos += this.ratio;
+    }
+
+    const drop = Math.max(0, Math.floor(this.pos - this.halfWidth));
+    this.history = buf.slice(drop);
+    this.pos -= drop;
+    return out.subarray(0, n);
+  }
+}
+
+/**
+ * Int16 环形缓冲：任意长度的输入进，固定长度的帧出
+ * 写满时丢弃最旧的样本，消费端卡顿时不会无限增长
+ */
+export class PcmFrameRing {
+  private readonly buf: Int16Array;
+  private readIdx = 0;
+  private writeIdx = 0;
+  private size = 0;
+
+  constructor(readonly frameSamples = ASR_FRAME_SAMPLES, capacityFrames = 50) {
+    this.buf = new Int16Array(frameSamples * capacityFrames);
+  }
+
+  get available() {
+    return this.size;
+  }
+
+  push(samples: Int16Array) {
+    const cap = this.buf.length;
+    for (let i = 0; i < samples.length; i++) {
+      this.buf[this.writeIdx] = samples[i];
+      this.writeIdx = (this.writeIdx + 1) % cap;
+      if (this.size === cap) this.readIdx = (this.readIdx + 1) % cap;
+      else this.size++;
+    }
+  }
+
+  /** 取出一帧（独立的 ArrayBuffer，可直接转移给其他线程或发送）；不足一帧时返回 null */
+  pop(): Int16Array | null {
+    if (this.size < this.frameSamples) return null;
+    const frame = new Int16Array(this.frameSamples);
+    const cap = this.buf.length;
+    const head = Math.min(this.frameSamples, cap - this.readIdx);
+    frame.set(this.buf.subarray(this.readIdx, this.readIdx + head));
+    if (head < this.frameSamples) frame.set(this.buf.subarray(0, this.frameSamples - head), head);
+    this.readIdx = (this.readIdx + this.frameSamples) % cap;
+    this.size -= this.frameSamples;
+    return frame;
+  }
+
+  clear() {
+    this.readIdx = this.writeIdx = this.size = 0;
+  }
+}
@@ -0,0 +1,30 @@
+// src/lib/pcmCaptureWorklet.ts
+// AudioWorklet 处理器：在音频线程把麦克风输入重采样为 16kHz Int16，凑满 20ms 一帧后转移给主线程
+// 由 RealtimeAsrClient 通过 `?worker&url` 加载，Vite 会把 pcmAudio 一起打包进来
+import { PCM_CAPTURE_PROCESSOR, PcmFrameRing, PcmResampler } from "./pcmAudio";
+
+// AudioWorkletGlobalScope 的全局对象，DOM lib 中没有声明
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processorCtor: typeof AudioWorkletProcessor): void;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private resampler = new PcmResampler(sampleRate);
+  private ring = new PcmFrameRing();
+
+  process(inputs: Float32Array[][]) {
+    // 输入断开时 inputs[0] 为空数组
+    const channel = inputs[0]?.[0];
+    if (channel) {
+      this.ring.push(this.resampler.process(channel));
+      for (let frame = this.ring.pop(); frame; frame = this.ring.pop()) {
+        this.port.postMessage(frame, [frame.buffer]);
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR, PcmCaptureProcessor);
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_MATCH_THRESHOLD, STRICT_MATCH_THRESHOLD, bestKeywordMatch, matchKeyword, syllableSimilarity } from './pinyinMatcher';
+import { DEFAULT_VOICE_KEYWORDS, keywordsOf } from '../services/voiceKeywords';
+
+// 只用到默认词表，不需要连接 Supabase
+vi.mock('../services/supabaseClient', () => ({ supabase: {} }));
+
+const wakeWords = keywordsOf(DEFAULT_VOICE_KEYWORDS.wake);
+const sleepWords = keywordsOf(DEFAULT_VOICE_KEYWORDS.sleep);
+
+describe('syllableSimilarity', () => {
+  it('相同音节为 1，平翘舌、前后鼻音高于无关音节', () => {
+    expect(syllableSimilarity('lang', 'lang')).toBe(1);
+    expect(syllableSimilarity('zhi', 'zi')).toBeGreaterThan(syllableSimilarity('zhi', 'ba'));
+    expect(syllableSimilarity('lan', 'lang')).toBeGreaterThan(syllableSimilarity('lan', 'gou'));
+  });
+});
+
+describe('matchKeyword', () => {
+  it('原词置信度为 1，并给出命中位置', () => {
+    expect(matchKeyword('你好小朗', '小朗')).toEqual({ keyword: '小朗', confidence: 1, start: 2, end: 4 });
+  });
+
+  it('同音字置信度不低于 0.95', () => {
+    expect(matchKeyword('晓朗在吗', '小朗')!.confidence).toBeGreaterThanOrEqual(STRICT_MATCH_THRESHOLD);
+    expect(matchKeyword('晓狼', '小朗')!.confidence).toBe(STRICT_MATCH_THRESHOLD);
+  });
+});
+
+describe('唤醒词', () => {
+  it('原词、同音字和配置的近音写法可以唤醒', () => {
+    for (const text of ['小朗', '小朗帮我查一下', '晓浪', '小龙你好']) {
+      expect(bestKeywordMatch(text, wakeWords, STRICT_MATCH_THRESHOLD), text).not.toBeNull();
+    }
+  });
+
+  it('近音但不同音的词不会唤醒', () => {
+    for (const text of ['小兰', '小量', '校长', '小蓝同学', '今天天气不错']) {
+      expect(bestKeywordMatch(text, wakeWords, STRICT_MATCH_THRESHOLD), text).toBeNull();
+    }
+  });
+});
+
+describe('休眠词', () => {
+  it('原词和同音字可以休眠', () => {
+    for (const text of ['退下吧', '好了你退下', '先休息吧', '推下吧']) {
+      expect(bestKeywordMatch(text, sleepWords, STRICT_MATCH_THRESHOLD), text).not.toBeNull();
+    }
+  });
+
+  it('只差一个字的普通指令不会休眠', () => {
+    for (const text of ['统计退休人员', '查一下休假记录', '回复一下邮件', '休学的员工']) {
+      expect(bestKeywordMatch(text, sleepWords, STRICT_MATCH_THRESHOLD), text).toBeNull();
+    }
+  });
+});
+
+describe('指令路由', () => {
+  it('默认阈值容忍近音字', () => {
+    const match = bestKeywordMatch('打开员公档案', ['员工']);
+    expect(match?.keyword).toBe('员工');
+    expect(match!.confidence).toBeLessThan(1);
+    expect(bestKeywordMatch('只是酷', ['知识库'], DEFAULT_MATCH_THRESHOLD)?.keyword).toBe('知识库');
+  });
+
+  it('多个关键词取置信度最高的一个', () => {
+    expect(bestKeywordMatch('打开只是酷', ['视觉', '知识库'])?.keyword).toBe('知识库');
+    expect(bestKeywordMatch('统计退休人员', ['退下', '统计'])?.keyword).toBe('统计');
+  });
+
+  it('没有关键词或文本为空时返回 null', () => {
+    expect(bestKeywordMatch('', ['员工'])).toBeNull();
+    expect(bestKeywordMatch('员工', [])).toBeNull();
+  });
+});
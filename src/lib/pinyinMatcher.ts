@@ -0,0 +1,139 @@
+// src/lib/pinyinMatcher.ts
+// 按拼音的模糊关键词匹配：语音识别常把关键词识别成同音 / 近音字（「小朗」→「小龙」，「员工」→「员公」），只做子串匹配会漏掉
+import { pinyin } from "pinyin-pro";
+
+export interface PinyinMatch {
+  keyword: string;
+  // 0~1：1 为原词，同音字约 0.95，近音字更低
+  confidence: number;
+  // 命中片段在文本中的位置（按字符计，end 不含）
+  start: number;
+  end: number;
+}
+
+const HOMOPHONE_SCORE = 0.95;
+
+// 指令路由：允许近音字
+export const DEFAULT_MATCH_THRESHOLD = 0.8;
+// 唤醒词 / 休眠词：误触发会开始转写或打断对话，只接受原词和同音字；常见的近音误识别写进配置的 variants
+export const STRICT_MATCH_THRESHOLD = HOMOPHONE_SCORE;
+
+interface Token {
+  char: string;
+  // 汉字的无声调拼音（ü 写作 v）；非汉字为 null，只能按原字符匹配
+  py: string | null;
+}
+
+// 近音字的得分再打折，保证同音字总是优先
+const FUZZY_SCALE = 0.9;
+const NEAR_SCORE = 0.8;
+const INITIAL_WEIGHT = 0.4;
+const FINAL_WEIGHT = 0.6;
+
+const INITIALS = ["zh", "ch", "sh", "b", "p", "m", "f", "d", "t", "n", "l", "g", "k", "h", "j", "q", "x", "r", "z", "c", "s", "y", "w"];
+// 方言和识别中常混淆的声母：平翘舌、n/l、f/h、r/l
+const NEAR_INITIALS = new Set(["z|zh", "c|ch", "s|sh", "l|n", "f|h", "l|r"]);
+// 前后鼻音
+const NEAR_FINALS = new Set(["an|ang", "en|eng", "in|ing", "ian|iang", "uan|uang"]);
+
+const isHan = (char: string) => /[\u3400-\u9fff]/.test(char);
+const isNear = (pairs: Set<string>, a: string, b: string) => pairs.has(a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function splitSyllable(py: string): [string, string] {
+  const initial = INITIALS.find((i) => py.startsWith(i)) || "";
+  return [initial, py.slice(initial.length)];
+}
+
+function editDistance<T>(a: ArrayLike<T>, b: ArrayLike<T>, subCost: (x: T, y: T) => number): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + subCost(a[i - 1], b[j - 1]));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** 两个无声调音节的相似度：声母占 0.4、韵母占 0.6；相近的声母 / 韵母按 0.8 计，其余韵母按编辑距离计 */
+export function syllableSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const [ia, fa] = splitSyllable(a);
+  const [ib, fb] = splitSyllable(b);
+  const initial = ia === ib ? 1 : isNear(NEAR_INITIALS, ia, ib) ? NEAR_SCORE : 0;
+  const final =
+    fa === fb
+      ? 1
+      : isNear(NEAR_FINALS, fa, fb)
+      ? NEAR_SCORE
+      : 1 - editDistance(fa, fb, (x, y) => (x === y ? 0 : 1)) / Math.max(fa.length, fb.length, 1);
+  return INITIAL_WEIGHT * initial + FINAL_WEIGHT * final;
+}
+
+function tokenSimilarity(a: Token, b: Token) {
+  if (a.char === b.char) return 1;
+  if (!a.py || !b.py) return 0;
+  if (a.py === b.py) return HOMOPHONE_SCORE;
+  return syllableSimilarity(a.py, b.py) * FUZZY_SCALE;
+}
+
+function tokenize(text: string): Token[] {
+  const chars = Array.from(text.toLowerCase());
+  // 多音字按上下文取读音，因此整句一起转换
+  const syllables = pinyin(text, { toneType: "none", type: "array", v: true });
+  const aligned = syllables.length === chars.length;
+  return chars.map((char, i) => ({ char, py: aligned && isHan(char) ? syllables[i] : null }));
+}
+
+const keywordTokens = new Map<string, Token[]>();
+
+function tokensOf(keyword: string) {
+  let tokens = keywordTokens.get(keyword);
+  if (!tokens) {
+    tokens = tokenize(keyword);
+    keywordTokens.set(keyword, tokens);
+  }
+  return tokens;
+}
+
+/** 在文本中找与关键词最接近的片段（长度允许 ±1 字，容忍多识别或漏识别一个字） */
+function matchTokens(tokens: Token[], keyword: string): PinyinMatch | null {
+  const key = tokensOf(keyword);
+  const n = key.length;
+  if (!n || !tokens.length) return null;
+
+  const lengths = Array.from(new Set([n, n - 1, n + 1].map((len) => Math.min(len, tokens.length)).filter((len) => len > 0)));
+  let best: PinyinMatch | null = null;
+  for (const len of lengths) {
+    for (let start = 0; start + len <= tokens.length; start++) {
+      const cost = editDistance(tokens.slice(start, start + len), key, (x, y) => 1 - tokenSimilarity(x, y));
+      // 保留三位小数，避免浮点误差让全同音的匹配落在 0.95 之下
+      const confidence = Math.max(0, Math.round((1 - cost / n) * 1000) / 1000);
+      if (!best || confidence > best.confidence) best = { keyword, confidence, start, end: start + len };
+    }
+  }
+  return best;
+}
+
+/** 单个关键词的最佳匹配（不设阈值） */
+export function matchKeyword(text: string, keyword: string): PinyinMatch | null {
+  return matchTokens(tokenize(text), keyword);
+}
+
+/** 多个关键词中置信度最高且不低于阈值的匹配；都不满足时返回 null */
+export function bestKeywordMatch(
+  text: string,
+  keywords: string[],
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): PinyinMatch | null {
+  if (!text || !keywords.length) return null;
+  const tokens = tokenize(text);
+  let best: PinyinMatch | null = null;
+  for (const keyword of keywords) {
+    const match = matchTokens(tokens, keyword);
+    if (match && match.confidence >= threshold && (!best || match.confidence > best.confidence)) best = match;
+    if (best?.confidence === 1) break;
+  }
+  return best;
+}
@@ -1,14 +1,47 @@
 // src/lib/realtimeAsrClient.ts
+import { PCM_CAPTURE_PROCESSOR, PcmFrameRing, PcmResampler } from "./pcmAudio";
+import pcmCaptureWorkletUrl from "./pcmCaptureWorklet.ts?worker&url";
+import { VadOptions, VoiceActivityDetector } from "./voiceActivityDetector";
+
+export type AsrConnectionState = "idle" | "connecting" | "connected" | "reconnecting" | "failed";
+
 export type AsrMsg =
   | { type: "ready" }
   | { type: "started" }
   | { type: "partial"; text?: string }
   | { type: "final"; text?: string }
   | { type: "error"; message?: string; detail?: string }
-  | { type: "nls_error"; status?: number; status_message?: string; raw?: any };
+  | { type: "nls_error"; status?: number; status_message?: string; raw?: any }
+  // 以下由客户端产生，不来自服务端
+  | { type: "speech_start" }
+  | { type: "speech_end" }
+  | { type: "connection"; state: AsrConnectionState; attempt?: number; retryInMs?: number };
 
 type OnMsg = (msg: AsrMsg) => void;
 
+export interface RealtimeAsrOptions {
+  /** 端点检测：默认开启，只在有人说话时连接 /ws/asr；传 false 则持续推流 */
+  vad?: boolean | VadOptions;
+  /** 开口前保留的音频时长，连接建立后补发，避免吞掉第一个字 */
+  preRollMs?: number;
+}
+
+const FRAME_MS = 20;
+// 连接建立或重连期间最多缓存 10 秒音频
+const MAX_PENDING_FRAMES = 500;
+// 说完后等待服务端返回最后一句结果的时间
+const FINAL_RESULT_TIMEOUT_MS = 3000;
+// 重连：0.5s 起指数退避，上限 15s，连续失败 6 次后放弃（开启 VAD 时下次开口会重新尝试）
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+/** 指数退避 + 随机抖动（取区间后半段），避免网关恢复时所有客户端同时重连 */
+export function reconnectDelay(attempt: number) {
+  const base = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return Math.round(base / 2 + (Math.random() * base) / 2);
+}
+
 export class RealtimeAsrClient {
   private wsUrl: string;
   private ws?: WebSocket;
@@ -17,94 +50,252 @@ export class RealtimeAsrClient {
   private ac?: AudioContext;
   private stream?: MediaStream;
   private srcNode?: MediaStreamAudioSourceNode;
-  private proc?: ScriptProcessorNode;
+  private proc?: AudioWorkletNode | ScriptProcessorNode;
 
   private canSend = false;
 
-  constructor(wsUrl: string, onMsg: OnMsg) {
+  private vad?: VoiceActivityDetector;
+  private preRollFrames: number;
+  private preRoll: Int16Array[] = [];
+  // 会话已发起但服务端尚未 started（含重连等待期间）的音频
+  private pending: Int16Array[] = [];
+  // 已发送 stop、等待最后结果的连接
+  private closing = new Set<WebSocket>();
+
+  private attempt = 0;
+  private reconnectTimer?: number;
+  // 重连期间说完了：补发缓存后立即结束会话
+  private finishAfterFlush = false;
+
+  constructor(wsUrl: string, onMsg: OnMsg, options: RealtimeAsrOptions = {}) {
     this.wsUrl = wsUrl;
     this.onMsg = onMsg;
+    if (options.vad !== false) this.vad = new VoiceActivityDetector(options.vad === true ? {} : options.vad);
+    this.preRollFrames = Math.ceil((options.preRollMs ?? 300) / FRAME_MS);
   }
 
+  /** 麦克风是否在采集（开启 VAD 时，静音期间不会有 ASR 连接） */
   get running() {
-    return !!this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING);
+    return !!this.ac;
+  }
+
+  get speaking() {
+    return !!this.vad?.speaking;
+  }
+
+  // 正在连接、已连接或等待重连
+  private get inSession() {
+    return !!this.ws || this.reconnectTimer !== undefined;
   }
 
   async start() {
     this.stop();
-    this.canSend = false;
-
-    this.ws = new WebSocket(this.wsUrl);
-    this.ws.binaryType = "arraybuffer";
-    this.ws.onmessage = (e) => {
-      try {
-        const msg = JSON.parse(e.data) as AsrMsg;
-        if (msg.type === "started") this.canSend = true;
-        this.onMsg(msg);
-      } catch {}
-    };
-    this.ws.onerror = () => this.onMsg({ type: "error", message: "ws error" });
-    this.ws.onclose = () => this.onMsg({ type: "error", message: "ws closed" });
+    this.vad?.reset();
+    if (this.vad) this.onMsg({ type: "connection", state: "idle" });
+    else this.openSession();
 
-    this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    // 浏览器自带的降噪 / 回声消除 / 自动增益，VAD 和识别都受益
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+    });
 
     this.ac = new (window.AudioContext || (window as any).webkitAudioContext)();
     this.srcNode = this.ac.createMediaStreamSource(this.stream);
 
-    // ScriptProcessor 先用于快速跑通（后续可升级 AudioWorklet）
-    this.proc = this.ac.createScriptProcessor(1024, 1, 1);
+    this.proc = (await this.createWorkletCapture(this.ac)) || this.createScriptProcessorCapture(this.ac);
     this.srcNode.connect(this.proc);
 
-    // 避免回放啸叫：接一个 0 增益输出
+    // 避免回放啸叫：接一个 0 增益输出（部分浏览器只处理连到 destination 的节点）
     const gain = this.ac.createGain();
     gain.gain.value = 0.0;
     this.proc.connect(gain);
     gain.connect(this.ac.destination);
+  }
+
+  // --- ASR 会话 ---
+
+  /** 建立识别连接；pending 为连接就绪后需要补发的音频 */
+  private openSession(pending: Int16Array[] = []) {
+    this.canSend = false;
+    this.pending = pending;
+    if (this.attempt === 0) this.onMsg({ type: "connection", state: "connecting" });
 
-    const downsampleTo16kInt16 = (float32: Float32Array, srcRate: number) => {
-      const dstRate = 16000;
-      const ratio = srcRate / dstRate;
-      const newLen = Math.floor(float32.length / ratio);
-      const out = new Int16Array(newLen);
-      let pos = 0;
-      for (let i = 0; i < newLen; i++) {
-        const idx = Math.floor(pos);
-        let s = float32[idx] ?? 0;
-        s = Math.max(-1, Math.min(1, s));
-        out[i] = (s * 0x7fff) | 0;
-        pos += ratio;
-      }
-      return out;
+    const ws = new WebSocket(this.wsUrl);
+    ws.binaryType = "arraybuffer";
+    ws.onmessage = (e) => {
+      try {
+        const msg = JSON.parse(e.data) as AsrMsg;
+        // 已结束的会话只转发识别结果
+        if (ws !== this.ws) {
+          if (msg.type === "partial" || msg.type === "final") this.onMsg(msg);
+          return;
+        }
+        if (msg.type === "started") {
+          this.canSend = true;
+          this.attempt = 0;
+          this.onMsg({ type: "connection", state: "connected" });
+          this.pending.forEach((frame) => ws.send(frame.buffer));
+          this.pending = [];
+        }
+        this.onMsg(msg);
+        if (msg.type === "error" || msg.type === "nls_error") this.handleSessionFailure(ws);
+        else if (msg.type === "started" && this.finishAfterFlush) this.finishSession();
+      } catch {}
     };
+    ws.onerror = () => this.handleSessionFailure(ws);
+    ws.onclose = () => this.handleSessionFailure(ws);
+    this.ws = ws;
+  }
 
-    const FRAME_SAMPLES = 320; // 20ms @ 16kHz
-    let cache: number[] = [];
+  /** 当前会话意外断开：保留麦克风和已缓存的音频，退避后重连 */
+  private handleSessionFailure(ws: WebSocket) {
+    if (ws !== this.ws) return;
+    this.ws = undefined;
+    this.canSend = false;
+    ws.onmessage = ws.onerror = ws.onclose = null;
+    try { ws.close(); } catch {}
 
-    this.proc.onaudioprocess = (ev) => {
-      if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
-      if (!this.canSend) return;
+    if (this.attempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.attempt = 0;
+      this.pending = [];
+      this.finishAfterFlush = false;
+      this.onMsg({ type: "connection", state: "failed" });
+      return;
+    }
 
-      const input = ev.inputBuffer.getChannelData(0);
-      const pcm16 = downsampleTo16kInt16(input, this.ac!.sampleRate);
+    const retryInMs = reconnectDelay(this.attempt++);
+    this.onMsg({ type: "connection", state: "reconnecting", attempt: this.attempt, retryInMs });
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.openSession(this.pending);
+    }, retryInMs);
+  }
 
-      for (let i = 0; i < pcm16.length; i++) cache.push(pcm16[i]);
+  /** 说完一句：通知服务端结束，保留连接直到收到最后结果或超时 */
+  private finishSession() {
+    const ws = this.ws;
+    if (!ws || !this.canSend || ws.readyState !== WebSocket.OPEN) {
+      // 仍在连接或重连：等连上并补发完缓存的音频再结束
+      if (this.inSession) this.finishAfterFlush = true;
+      return;
+    }
 
-      while (cache.length >= FRAME_SAMPLES) {
-        const frame = new Int16Array(cache.slice(0, FRAME_SAMPLES));
-        cache = cache.slice(FRAME_SAMPLES);
-        this.ws.send(frame.buffer);
-      }
+    this.ws = undefined;
+    this.canSend = false;
+    this.pending = [];
+    this.finishAfterFlush = false;
+    this.onMsg({ type: "connection", state: "idle" });
+
+    try { ws.send("stop"); } catch {}
+    this.closing.add(ws);
+    const timer = window.setTimeout(() => {
+      try { ws.close(); } catch {}
+    }, FINAL_RESULT_TIMEOUT_MS);
+    ws.onerror = null;
+    ws.onclose = () => {
+      window.clearTimeout(timer);
+      this.closing.delete(ws);
     };
   }
 
+  private sendFrame(frame: Int16Array) {
+    if (!this.inSession) return;
+    if (this.canSend && this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(frame.buffer);
+      return;
+    }
+    this.pending.push(frame);
+    if (this.pending.length > MAX_PENDING_FRAMES) this.pending.shift();
+  }
+
+  private handleFrame(frame: Int16Array) {
+    if (!this.vad) {
+      this.sendFrame(frame);
+      return;
+    }
+
+    const event = this.vad.process(frame);
+    if (event === "speech_start") {
+      this.onMsg({ type: "speech_start" });
+      this.finishAfterFlush = false;
+      if (!this.inSession) this.openSession(this.preRoll);
+      this.preRoll = [];
+    }
+
+    if (this.inSession) {
+      this.sendFrame(frame);
+    } else {
+      this.preRoll.push(frame);
+      if (this.preRoll.length > this.preRollFrames) this.preRoll.shift();
+    }
+
+    if (event === "speech_end") {
+      this.finishSession();
+      this.onMsg({ type: "speech_end" });
+    }
+  }
+
+  // --- 采集 ---
+
+  /**
+   * AudioWorklet 采集：重采样和分帧都在音频线程完成，主线程只负责转发
+   * 浏览器不支持或模块加载失败（如非安全上下文）时返回 null
+   */
+  private async createWorkletCapture(ac: AudioContext): Promise<AudioWorkletNode | null> {
+    if (!ac.audioWorklet || typeof AudioWorkletNode === "undefined") return null;
+    try {
+      await ac.audioWorklet.addModule(pcmCaptureWorkletUrl);
+      const node = new AudioWorkletNode(ac, PCM_CAPTURE_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: "explicit",
+      });
+      node.port.onmessage = (e) => this.handleFrame(e.data as Int16Array);
+      return node;
+    } catch (e) {
+      console.warn("AudioWorklet unavailable, falling back to ScriptProcessor", e);
+      return null;
+    }
+  }
+
+  // 兜底：不支持 AudioWorklet 的浏览器仍用 ScriptProcessor，在主线程做同样的重采样和分帧
+  private createScriptProcessorCapture(ac: AudioContext): ScriptProcessorNode {
+    const proc = ac.createScriptProcessor(1024, 1, 1);
+    const resampler = new PcmResampler(ac.sampleRate);
+    const ring = new PcmFrameRing();
+
+    proc.onaudioprocess = (ev) => {
+      ring.push(resampler.process(ev.inputBuffer.getChannelData(0)));
+      for (let frame = ring.pop(); frame; frame = ring.pop()) this.handleFrame(frame);
+    };
+    return proc;
+  }
+
+  /** 用户主动停止：不触发重连，之后到达的识别结果一律丢弃 */
   stop() {
+    const ws = this.ws;
+    this.ws = undefined;
     this.canSend = false;
+    this.pending = [];
+    this.preRoll = [];
+    this.attempt = 0;
+    this.finishAfterFlush = false;
+    if (this.reconnectTimer !== undefined) window.clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
 
-    try { if (this.ws?.readyState === WebSocket.OPEN) this.ws.send("stop"); } catch {}
-    try { this.ws?.close(); } catch {}
-    this.ws = undefined;
+    if (ws) ws.onmessage = ws.onerror = ws.onclose = null;
+    try { if (ws?.readyState === WebSocket.OPEN) ws.send("stop"); } catch {}
+    try { ws?.close(); } catch {}
+    this.closing.forEach((w) => {
+      w.onmessage = null;
+      try { w.close(); } catch {}
+    });
+    this.closing.clear();
 
     try { this.proc?.disconnect(); } catch {}
+    if (this.proc && "port" in this.proc) this.proc.port.close();
+    else if (this.proc) this.proc.onaudioprocess = null;
     this.proc = undefined;
 
     try { this.srcNode?.disconnect(); } catch {}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { VadEvent, VoiceActivityDetector } from './voiceActivityDetector';
+
+// 20ms、16kHz 的 200Hz 正弦帧；amplitude 为 0 时是纯静音
+const tone = (amplitude: number) =>
+  Int16Array.from({ length: 320 }, (_, i) => Math.round(amplitude * Math.sin((2 * Math.PI * 200 * i) / 16000)));
+
+const QUIET = tone(30);
+const LOUD = tone(8000);
+
+const run = (vad: VoiceActivityDetector, frame: Int16Array, count: number) => {
+  const events: Array<{ event: VadEvent; at: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const event = vad.process(frame);
+    if (event) events.push({ event, at: i });
+  }
+  return events;
+};
+
+describe('VoiceActivityDetector', () => {
+  it('开口后静音达到 endFrames 才结束', () => {
+    const vad = new VoiceActivityDetector();
+    run(vad, QUIET, 50);
+    expect(run(vad, LOUD, 10)).toEqual([{ event: 'speech_start', at: 2 }]);
+    expect(run(vad, QUIET, 60)).toEqual([{ event: 'speech_end', at: 39 }]);
+  });
+
+  it('单句超过 maxSpeechFrames 时强制结束', () => {
+    const vad = new VoiceActivityDetector({ maxSpeechFrames: 100 });
+    run(vad, QUIET, 50);
+    const events = run(vad, LOUD, 110);
+    expect(events[0]).toEqual({ event: 'speech_start', at: 2 });
+    expect(events[1]).toEqual({ event: 'speech_end', at: 102 });
+  });
+
+  it('持续不断的噪声最终计入背景，不会一直判为说话', () => {
+    const vad = new VoiceActivityDetector({ maxSpeechFrames: Infinity });
+    run(vad, QUIET, 50);
+    const events = run(vad, tone(1500), 1000);
+    expect(events.map((e) => e.event)).toEqual(['speech_start', 'speech_end']);
+    expect(vad.speaking).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+// src/lib/voiceActivityDetector.ts
+// 端点检测（VAD）：基于短时能量 + 过零率，输入 20ms 的 16kHz Int16 帧
+export type VadEvent = "speech_start" | "speech_end";
+
+export interface VadOptions {
+  /** 连续多少帧判为语音才算开口（默认 3 帧 = 60ms），过滤按键、咳嗽等短促噪声 */
+  startFrames?: number;
+  /** 连续多少帧静音才算说完（默认 40 帧 = 800ms），容忍句中停顿 */
+  endFrames?: number;
+  /** 高出背景噪声多少 dB 判为语音 */
+  thresholdDb?: number;
+  /** 绝对下限：低于该电平（dBFS）一律视为静音 */
+  minDbfs?: number;
+  /** 单句最长多少帧（默认 1500 帧 = 30s），超过后强制结束，避免持续噪声让一句话永远不结束 */
+  maxSpeechFrames?: number;
+}
+
+// 浊音过零率低、清音（擦音）较高；接近 0 的多为电流声，过高的多为宽带噪声
+const MIN_ZCR = 0.01;
+const MAX_ZCR = 0.45;
+
+// 连续语音超过 5s 后，背景噪声在语音帧上也缓慢上调，让突然出现的持续噪声（风扇、空调）最终被当作背景
+const LONG_SPEECH_FRAMES = 250;
+const LONG_SPEECH_FLOOR_RATE = 0.005;
+
+export class VoiceActivityDetector {
+  private readonly startFrames: number;
+  private readonly endFrames: number;
+  private readonly thresholdDb: number;
+  private readonly minDbfs: number;
+  private readonly maxSpeechFrames: number;
+
+  private noiseFloor: number | null = null;
+  private speechRun = 0;
+  private silenceRun = 0;
+  private utteranceFrames = 0;
+  private _speaking = false;
+
+  constructor(options: VadOptions = {}) {
+    this.startFrames = options.startFrames ?? 3;
+    this.endFrames = options.endFrames ?? 40;
+    this.thresholdDb = options.thresholdDb ?? 12;
+    this.minDbfs = options.minDbfs ?? -50;
+    this.maxSpeechFrames = options.maxSpeechFrames ?? 1500;
+  }
+
+  get speaking() {
+    return this._speaking;
+  }
+
+  /** 处理一帧，状态切换时返回对应事件 */
+  process(frame: Int16Array): VadEvent | null {
+    if (!frame.length) return null;
+    let energy = 0;
+    let crossings = 0;
+    for (let i = 0; i < frame.length; i++) {
+      energy += frame[i] * frame[i];
+      if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+    }
+    const db = 20 * Math.log10(Math.sqrt(energy / frame.length) / 32768 + 1e-9);
+    const zcr = crossings / Math.max(1, frame.length - 1);
+
+    this.noiseFloor ??= db;
+    const isSpeech = db > Math.max(this.minDbfs, this.noiseFloor + this.thresholdDb) && zcr > MIN_ZCR && zcr < MAX_ZCR;
+
+    this.speechRun = isSpeech ? this.speechRun + 1 : 0;
+
+    // 背景噪声主要在非语音帧上跟踪：下降快、上升慢，避免把正常说话当成噪声；只有长时间不间断的“语音”才缓慢计入
+    if (!isSpeech) this.noiseFloor += (db - this.noiseFloor) * (db < this.noiseFloor ? 0.2 : 0.02);
+    else if (this.speechRun > LONG_SPEECH_FRAMES) this.noiseFloor += (db - this.noiseFloor) * LONG_SPEECH_FLOOR_RATE;
+
+    if (!this._speaking) {
+      if (this.speechRun >= this.startFrames) {
+        this._speaking = true;
+        this.silenceRun = 0;
+        this.utteranceFrames = 0;
+        return "speech_start";
+      }
+      return null;
+    }
+
+    this.utteranceFrames++;
+    this.silenceRun = isSpeech ? 0 : this.silenceRun + 1;
+    if (this.silenceRun >= this.endFrames || this.utteranceFrames >= this.maxSpeechFrames) {
+      this._speaking = false;
+      this.speechRun = 0;
+      return "speech_end";
+    }
+    return null;
+  }
+
+  reset() {
+    this.noiseFloor = null;
+    this.speechRun = 0;
+    this.silenceRun = 0;
+    this.utteranceFrames = 0;
+    this._speaking = false;
+  }
+}
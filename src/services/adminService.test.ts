@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { redactSecrets } from './adminService';
+
+// 只测试日志脱敏，不需要连接 Supabase
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+describe('redactSecrets', () => {
+  it('替换密钥类字段，只保留末 4 位', () => {
+    expect(
+      redactSecrets({
+        config_name: 'local_sql_server',
+        api_url: 'https://erp.example',
+        api_token: 'tok-12345678',
+        value: { apiKey: 'sk-abcdefgh', appId: 'app-1', nested: [{ password: 'p@ssw0rd' }] },
+      })
+    ).toEqual({
+      config_name: 'local_sql_server',
+      api_url: 'https://erp.example',
+      api_token: '***5678',
+      value: { apiKey: '***efgh', appId: 'app-1', nested: [{ password: '***w0rd' }] },
+    });
+  });
+
+  it('不改动名称里只是包含 key / token 的普通字段', () => {
+    const row = {
+      key: 'aliyun_config',
+      value: { keywords: ['小朗'], tokens: 1000, monthly: { tokens: 5000 } },
+      description: 'token 用量',
+    };
+    expect(redactSecrets(row)).toEqual(row);
+  });
+
+  it('空值和非字符串保持原样', () => {
+    expect(redactSecrets({ apiKey: '', token: null, secret: 42 })).toEqual({ apiKey: '', token: null, secret: 42 });
+  });
+});
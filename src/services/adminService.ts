@@ -0,0 +1,168 @@
+import { supabase } from './supabaseClient';
+import { dataService } from './dataService';
+import { toApiConfig } from './appConfig';
+import { createHttpTransport, createSqlGateway } from './sqlGateway';
+import { LLM_SETTING_KEY, resetLlmProviderSelection } from './llmGateway';
+import { Announcement, AppConfigEntry, Module, SystemSetting } from '../../types';
+
+/**
+ * 后台管理：system_settings / modules / announcements / app_configs 的维护
+ * 写权限由 RLS 限定为管理员；每次变更都写入 activity_logs（action_type = admin_config_change），
+ * 日志中的密钥类字段会被替换，避免从日志里泄露。
+ */
+
+export interface AdminTableRows {
+  system_settings: SystemSetting;
+  modules: Module;
+  announcements: Announcement;
+  app_configs: AppConfigEntry;
+}
+
+export type AdminTable = keyof AdminTableRows;
+
+// 每张表用于识别记录的列，也是 upsert 的冲突列
+const KEY_COLUMNS: Record<AdminTable, string> = {
+  system_settings: 'key',
+  modules: 'id',
+  announcements: 'id',
+  app_configs: 'config_name',
+};
+
+const ORDER_COLUMNS: Record<AdminTable, string> = {
+  system_settings: 'key',
+  modules: 'created_at',
+  announcements: 'created_at',
+  app_configs: 'config_name',
+};
+
+// --- Change Log ---
+
+// 按字段名精确匹配（忽略大小写和下划线），避免误伤 key、keyword 这类普通字段
+const SECRET_FIELDS = new Set(['apikey', 'apitoken', 'token', 'accesstoken', 'secret', 'clientsecret', 'secretkey', 'password']);
+
+const isSecretField = (name: string) => SECRET_FIELDS.has(name.toLowerCase().replace(/[_-]/g, ''));
+
+/** 递归替换密钥类字段，只保留末 4 位用于核对 */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [
+      k,
+      isSecretField(k) && typeof v === 'string' && v ? `***${v.slice(-4)}` : redactSecrets(v),
+    ])
+  );
+}
+
+const logChange = async (table: AdminTable, recordKey: string, action: 'create' | 'update' | 'delete', before: unknown, after: unknown) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+  dataService.logActivity(user.id, 'admin_config_change', `${table}:${recordKey}`, {
+    action,
+    before: redactSecrets(before),
+    after: redactSecrets(after),
+  });
+};
+
+// 本页缓存的配置在修改后立即失效
+const invalidateCaches = (table: AdminTable, recordKey: string) => {
+  if (table === 'system_settings' && recordKey === LLM_SETTING_KEY) resetLlmProviderSelection();
+};
+
+// --- CRUD ---
+
+export const adminService = {
+  async list<T extends AdminTable>(table: T): Promise<AdminTableRows[T][]> {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order(ORDER_COLUMNS[table], { ascending: table !== 'announcements' });
+
+    if (error) {
+      console.error(`Error fetching ${table}:`, error);
+      throw new Error('配置加载失败');
+    }
+    return (data || []) as AdminTableRows[T][];
+  },
+
+  /**
+   * 新增或更新一条记录；before 为 null 表示新增
+   * 新增时没有 id 的记录交给数据库生成主键
+   */
+  async save<T extends AdminTable>(
+    table: T,
+    row: Partial<AdminTableRows[T]>,
+    before: AdminTableRows[T] | null
+  ): Promise<AdminTableRows[T]> {
+    const keyColumn: string = KEY_COLUMNS[table];
+    const payload: Record<string, unknown> = { ...row };
+    if (table === 'system_settings' || table === 'app_configs') payload.updated_at = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from(table)
+      .upsert(payload, { onConflict: keyColumn })
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`Error saving ${table}:`, error);
+      throw new Error(error.code === '42501' ? '没有修改系统配置的权限' : `保存失败：${error.message}`);
+    }
+    const saved = data as AdminTableRows[T];
+    invalidateCaches(table, String((saved as any)[keyColumn]));
+    await logChange(table, String((saved as any)[keyColumn]), before ? 'update' : 'create', before, saved);
+    return saved;
+  },
+
+  async remove<T extends AdminTable>(table: T, row: AdminTableRows[T]) {
+    const keyColumn: string = KEY_COLUMNS[table];
+    const keyValue = (row as any)[keyColumn];
+    const { error } = await supabase.from(table).delete().eq(keyColumn, keyValue);
+
+    if (error) {
+      console.error(`Error deleting ${table}:`, error);
+      throw new Error(`删除失败：${error.message}`);
+    }
+    invalidateCaches(table, String(keyValue));
+    await logChange(table, String(keyValue), 'delete', row, null);
+  },
+};
+
+// --- Connection Tests ---
+
+/** 用表单中（可能尚未保存）的地址和令牌执行一次 department.list，返回耗时（毫秒） */
+export async function testSqlGateway(apiUrl: string, apiToken: string): Promise<number> {
+  const config = toApiConfig(apiUrl, apiToken);
+  const gateway = createSqlGateway(createHttpTransport(async () => config));
+  const startedAt = performance.now();
+  await gateway.query('department.list', {});
+  return Math.round(performance.now() - startedAt);
+}
+
+/** 尝试与语音识别 WebSocket 建立连接，连上后立即关闭，返回握手耗时（毫秒） */
+export function testAsrWebSocket(apiUrl: string, timeoutMs: number = 8000): Promise<number> {
+  const { asrWsUrl } = toApiConfig(apiUrl);
+  return new Promise((resolve, reject) => {
+    const startedAt = performance.now();
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(asrWsUrl);
+    } catch (err: any) {
+      reject(new Error(`地址无效：${err?.message || String(err)}`));
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      ws.close();
+      reject(new Error(`连接超时（${timeoutMs / 1000}s）`));
+    }, timeoutMs);
+    ws.onopen = () => {
+      window.clearTimeout(timer);
+      ws.close();
+      resolve(Math.round(performance.now() - startedAt));
+    };
+    ws.onerror = () => {
+      window.clearTimeout(timer);
+      reject(new Error(`无法连接 ${asrWsUrl}`));
+    };
+  });
+}
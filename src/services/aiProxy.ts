@@ -0,0 +1,65 @@
+import { supabase } from './supabaseClient';
+import { SUPABASE_ANON_KEY, SUPABASE_URL } from '../constants';
+import { AiQuotaExceeded, AiQuotaUsage } from '../../types';
+
+/**
+ * AI 代理（supabase/functions/ai-proxy）
+ * 浏览器只携带当前用户的 Supabase 会话，API Key 由代理在服务端补上，前端不再读取 aliyun_config / gemini_config。
+ */
+
+export const AI_PROXY_URL = `${SUPABASE_URL}/functions/v1/ai-proxy`;
+
+export type AiProxyTarget = 'app' | 'multimodal' | 'asr' | 'gemini';
+
+/** 调用来自哪个功能；代理据此按角色校验（如只读成员不能使用智能报表） */
+export type AiProxyFeature = 'knowledge' | 'vision' | 'report';
+
+export interface AiProxyStatus {
+  dashscope: boolean;
+  gemini: { configured: boolean; model: string };
+  quota: AiQuotaUsage[];
+}
+
+/** 额度用尽（代理返回 429 QuotaExceeded）；quota 为超出的具体额度 */
+export const quotaExceededError = (message: string, quota?: AiQuotaExceeded) =>
+  Object.assign(new Error(message), { name: 'QuotaExceededError', quota });
+
+export const isQuotaExceededError = (error: unknown): error is Error & { quota?: AiQuotaExceeded } =>
+  error instanceof Error && error.name === 'QuotaExceededError';
+
+/**
+ * 把代理的错误响应体转换为异常；额度用尽时返回 quotaExceededError，其余返回 null 交给调用方处理
+ * body 可以是已解析的 JSON，也可以是包含 JSON 的文本（@google/genai 把响应体拼在错误信息里）
+ */
+export function toQuotaError(status: number, body: unknown): Error | null {
+  if (status !== 429) return null;
+  let json: any = body;
+  if (typeof body === 'string') {
+    const match = body.match(/\{[\s\S]*\}/);
+    try {
+      json = match ? JSON.parse(match[0]) : null;
+    } catch {
+      json = null;
+    }
+  }
+  return json?.code === 'QuotaExceeded' ? quotaExceededError(json.message, json.quota) : null;
+}
+
+/** 调用代理所需的请求头：用户 JWT 用于鉴权和额度统计，anon key 供 Supabase 网关识别项目 */
+export async function aiProxyHeaders(feature?: AiProxyFeature): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('登录已过期，请重新登录后再使用 AI 功能。');
+  const headers: Record<string, string> = { Authorization: `Bearer ${session.access_token}`, apikey: SUPABASE_ANON_KEY };
+  if (feature) headers['X-AI-Feature'] = feature;
+  return headers;
+}
+
+export const aiProxyUrl = (target: AiProxyTarget) => `${AI_PROXY_URL}/${target}`;
+
+/** 代理是否可用、Gemini 模型名和今日剩余额度 */
+export async function fetchAiProxyStatus(): Promise<AiProxyStatus> {
+  const response = await fetch(AI_PROXY_URL, { headers: await aiProxyHeaders() });
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body) throw new Error(body?.message || `AI 代理不可用 (${response.status})`);
+  return body as AiProxyStatus;
+}
@@ -1,10 +1,26 @@
 
 import { supabase } from './supabaseClient';
 import { dataService } from './dataService';
+import { parseDocReferences } from './citations';
+import { AiProxyFeature, aiProxyHeaders, aiProxyUrl, fetchAiProxyStatus, toQuotaError } from './aiProxy';
+import { DocReference } from '../../types';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  // 以下字段仅用于界面展示，发送时会被去掉
+  references?: DocReference[];
+  // 已落库消息的 kb_messages.id
+  id?: number;
+  // 请求失败的原因；有值时这条消息是错误提示而不是回答
+  error?: string;
+  // 因 AI 额度用尽而失败，重试没有意义
+  quotaExceeded?: boolean;
+  // 用户中途停止了生成，content 为已收到的部分
+  stopped?: boolean;
+  // 本次回答的耗时（毫秒）和生成回答的模型，用于回答反馈
+  latencyMs?: number;
+  model?: string;
 }
 
 export interface VLMessage {
@@ -12,47 +28,36 @@ export interface VLMessage {
   content: Array<{ image?: string; text?: string }>;
 }
 
-interface AliyunConfig {
-  apiKey: string;
-  appId: string;
+export interface ChatStreamOptions {
+  // 百炼应用返回的检索来源；传入时会同时请求检索步骤以拿到相关度分数
+  onReferences?: (refs: DocReference[]) => void;
+  // 中止请求；中止后 chatStream 以 AbortError 结束（见 isAbortError）
+  signal?: AbortSignal;
+  // 发起调用的功能，代理按角色校验；未指定时按知识库问答处理
+  feature?: AiProxyFeature;
 }
 
-class AliyunService {
-  /**
-   * 从数据库获取配置
-   */
-  private async getConfig(): Promise<AliyunConfig> {
-    const { data, error } = await supabase
-      .from('system_settings')
-      .select('value')
-      .eq('key', 'aliyun_config')
-      .single();
-
-    if (error || !data || !data.value) {
-      console.error("Failed to fetch aliyun_config:", error);
-      throw new Error("系统配置缺失：未找到阿里云 API 配置 (key: aliyun_config)。请联系管理员。");
-    }
+/** 是否为调用方主动中止（AbortController.abort）导致的异常 */
+export const isAbortError = (error: unknown) => error instanceof Error && error.name === 'AbortError';
 
-    const config = data.value;
-    if (!config.apiKey || !config.appId) {
-      throw new Error("系统配置无效：aliyun_config 缺少 apiKey 或 appId。");
-    }
-
-    return config as AliyunConfig;
-  }
+// 各功能使用的模型（同时用于调用日志和回答反馈）
+export const ALIYUN_MODELS = {
+  knowledge: 'aliyun-rag-bailian',
+  vision: 'qwen-vl-max',
+} as const;
 
+class AliyunService {
   /**
    * 极速语音转写 (使用阿里云最新流式识别接口)
-   * 备注：通过 Vite/Vercel 代理 /aliyun-api 转发，无需暴露真实域名
+   * 备注：通过 ai-proxy 边缘函数转发，API Key 只在服务端使用
    */
   async fastSpeechToText(
     audioBlob: Blob,
     onPartial: (text: string) => void,
     onFinal: (text: string) => void
   ) {
-    const config = await this.getConfig();
     // 官方建议使用 stream/v1/audio/recognition，模型取默认极速版本
-    const url = `/aliyun-api/stream/v1/audio/recognition`;
+    const url = aiProxyUrl('asr');
 
     this.logUsage('qwen-asr-pro');
 
@@ -64,9 +69,7 @@ class AliyunService {
     try {
       const response = await fetch(url, {
         method: 'POST',
-        headers: {
-          Authorization: `Bearer ${config.apiKey}`,
-        },
+        headers: await aiProxyHeaders(),
         body: form,
       });
 
@@ -89,19 +92,19 @@ class AliyunService {
   }
 
   /**
-   * 仅用于前置检查：是否具备调用极速 ASR 的配置
+   * 仅用于前置检查：代理端是否配置了 DashScope
    * 防止在无配置环境中盲目录音后才发现无法识别，影响体验
    */
   async isFastAsrAvailable(): Promise<boolean> {
     try {
-      await this.getConfig();
-      return true;
+      return (await fetchAiProxyStatus()).dashscope;
     } catch (err) {
       console.warn('Fast ASR unavailable:', err);
       return false;
     }
   }
 
+  // 活动日志（首页调用次数）；token 用量与费用由 ai-proxy 记入 ai_usage_events
   private async logUsage(model: string) {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -115,29 +118,32 @@ class AliyunService {
 
   /**
    * 调用阿里云百炼应用 API (流式 - 文本)
-   * 使用 /aliyun-api 前缀，由 Vercel 或 Vite 代理转发
+   * 经 ai-proxy 转发，appId 由代理补全
+   * 只有一条消息时按单轮 prompt 发送；多条时作为 input.messages 发送完整历史，
+   * 由调用方负责裁剪窗口（见 chatContext.buildContextWindow）
    */
-  async chatStream(messages: ChatMessage[], onChunk: (text: string) => void) {
-    const config = await this.getConfig();
-    // 原始地址: https://dashscope.aliyuncs.com/api/v1/apps/...
-    // 代理地址: /aliyun-api/api/v1/apps/...
-    const url = `/aliyun-api/api/v1/apps/${config.appId}/completion`;
+  async chatStream(messages: ChatMessage[], onChunk: (text: string) => void, options: ChatStreamOptions = {}) {
+    // 原始地址: https://dashscope.aliyuncs.com/api/v1/apps/{appId}/completion
+    const url = aiProxyUrl('app');
     
-    const prompt = messages[messages.length - 1].content;
+    const input = messages.length > 1
+      ? { messages: messages.map(({ role, content }) => ({ role, content })) }
+      : { prompt: messages[messages.length - 1].content };
 
-    this.logUsage('aliyun-rag-bailian');
+    this.logUsage(ALIYUN_MODELS.knowledge);
 
     try {
       const response = await fetch(url, {
         method: 'POST',
+        signal: options.signal,
         headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
+          ...(await aiProxyHeaders(options.feature)),
           'Content-Type': 'application/json',
           'X-DashScope-SSE': 'enable',
         },
         body: JSON.stringify({
-          input: { prompt: prompt },
-          parameters: { incremental_output: true },
+          input,
+          parameters: { incremental_output: true, has_thoughts: !!options.onReferences },
           debug: {}
         }),
       });
@@ -149,37 +155,38 @@ class AliyunService {
          // App Completion output format
          const content = json.output?.text || "";
          if (content) onChunk(content);
+         // 来源通常只出现在最后一个事件里
+         const refs = options.onReferences ? parseDocReferences(json.output) : [];
+         if (refs.length) options.onReferences!(refs);
       });
 
     } catch (error) {
-      console.error("Aliyun Service Error:", error);
+      if (!isAbortError(error)) console.error("Aliyun Service Error:", error);
       throw error;
     }
   }
 
   /**
    * 调用通义千问 Qwen-VL 视觉模型 (流式 - 多模态)
-   * 使用 /aliyun-api 前缀，由 Vercel 或 Vite 代理转发
+   * 经 ai-proxy 转发
    */
-  async chatVLStream(messages: VLMessage[], onChunk: (text: string) => void) {
-    const config = await this.getConfig();
-    
+  async chatVLStream(messages: VLMessage[], onChunk: (text: string) => void, signal?: AbortSignal) {
     // 原始地址: https://dashscope.aliyuncs.com/api/v1/services/aigc/multimodal-generation/generation
-    // 代理地址: /aliyun-api/api/v1/services/aigc/multimodal-generation/generation
-    const url = `/aliyun-api/api/v1/services/aigc/multimodal-generation/generation`;
+    const url = aiProxyUrl('multimodal');
 
     // 使用 qwen-vl-max (目前最强版本)
-    const MODEL_NAME = "qwen-vl-max"; 
+    const MODEL_NAME = ALIYUN_MODELS.vision;
 
     this.logUsage(MODEL_NAME);
 
-    console.log(`Calling Aliyun VL API (${MODEL_NAME}) via Vercel Proxy...`);
+    console.log(`Calling Aliyun VL API (${MODEL_NAME}) via ai-proxy...`);
 
     try {
       const response = await fetch(url, {
         method: 'POST',
+        signal,
         headers: {
-          'Authorization': `Bearer ${config.apiKey}`,
+          ...(await aiProxyHeaders('vision')),
           'Content-Type': 'application/json',
           'X-DashScope-SSE': 'enable',
         },
@@ -205,7 +212,7 @@ class AliyunService {
       });
 
     } catch (error) {
-      console.error("Aliyun VL Error Details:", error);
+      if (!isAbortError(error)) console.error("Aliyun VL Error Details:", error);
       throw error;
     }
   }
@@ -219,15 +226,16 @@ class AliyunService {
       throw new Error("请求超时：服务器响应时间过长 (504)。图片可能太大，或 AI 正在深度思考。");
     }
 
+    let errJson: any = null;
     try {
       const errorText = await response.text();
       console.error("API Error Response Body:", errorText);
-      const errJson = JSON.parse(errorText);
+      errJson = JSON.parse(errorText);
       errorMessage = errJson.message || errJson.code || response.statusText;
     } catch (e) {
       // Ignore json parse error
     }
-    throw new Error(errorMessage);
+    throw toQuotaError(response.status, errJson) || new Error(errorMessage);
   }
 
   private async processStream(body: ReadableStream<Uint8Array>, callback: (json: any) => void) {
@@ -9,10 +9,23 @@ export function buildAsrWsUrl(apiUrl: string) {
 
 export interface ApiConfig {
   apiUrl: string;
+  queryUrl: string;
   apiToken: string;
   asrWsUrl: string;
 }
 
+/** 把 app_configs 中填写的地址规范化为网关各接口地址 */
+export function toApiConfig(rawApiUrl: string, apiToken: string = ''): ApiConfig {
+  const sanitized = (rawApiUrl || '').trim().replace(/\/+$/, '');
+  if (!sanitized) throw new Error('api_url 为空');
+  const baseUrl = sanitized.replace(/\/api\/sql\/(execute|query)$/, '');
+  const apiUrl = `${baseUrl}/api/sql/execute`;
+  const queryUrl = `${baseUrl}/api/sql/query`;
+  const asrWsUrl = buildAsrWsUrl(rawApiUrl);
+
+  return { apiUrl, queryUrl, apiToken, asrWsUrl };
+}
+
 export async function fetchAppConfig(): Promise<ApiConfig> {
   const { data: configData, error } = await supabase
     .from('app_configs')
@@ -22,12 +35,5 @@ export async function fetchAppConfig(): Promise<ApiConfig> {
 
   if (error || !configData?.api_url) throw new Error('配置缺失 (local_sql_server)');
 
-  let rawApiUrl = String((configData as any).api_url || '').trim();
-  if (!rawApiUrl) throw new Error('api_url 为空');
-  const sanitized = rawApiUrl.replace(/\/+$/, '');
-  const apiUrl = sanitized.endsWith('/api/sql/execute') ? sanitized : `${sanitized}/api/sql/execute`;
-  const apiToken = String((configData as any).api_token || '');
-  const asrWsUrl = buildAsrWsUrl(rawApiUrl);
-
-  return { apiUrl, apiToken, asrWsUrl };
+  return toApiConfig(String((configData as any).api_url || ''), String((configData as any).api_token || ''));
 }
@@ -0,0 +1,62 @@
+import type { ChatMessage } from './aliyunService';
+
+/**
+ * 知识库多轮对话的上下文窗口
+ * 从最新一条消息往前取，直到超出 token 预算或轮数上限；结果就是下一次请求实际发送给百炼的历史。
+ */
+
+// 历史消息的 token 预算（不含知识库检索内容），留足余量给检索片段和回答
+export const CONTEXT_TOKEN_BUDGET = 3000;
+// 最多保留的消息条数（一问一答算两条）
+export const CONTEXT_MAX_MESSAGES = 12;
+
+/**
+ * 粗略估算 token 数：中日韩字符按 1 个计，其余按 4 个字符 1 个计
+ * 只用于裁剪窗口，不追求与计费口径一致
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export interface ContextWindow {
+  messages: ChatMessage[];
+  tokens: number;
+  // 因预算或条数限制被丢弃的历史条数
+  dropped: number;
+}
+
+/**
+ * 计算发送给模型的上下文窗口
+ * history 应已去掉欢迎语、报错等不属于对话的消息；最后一条（本次提问）总会保留
+ */
+export function buildContextWindow(
+  history: ChatMessage[],
+  budget: number = CONTEXT_TOKEN_BUDGET,
+  maxMessages: number = CONTEXT_MAX_MESSAGES
+): ContextWindow {
+  const picked: ChatMessage[] = [];
+  let tokens = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content);
+    if (picked.length > 0 && (tokens + cost > budget || picked.length >= maxMessages)) break;
+    picked.unshift(history[i]);
+    tokens += cost;
+  }
+
+  // 窗口必须从用户提问开始，避免把半轮回答单独发过去
+  while (picked.length > 1 && picked[0].role !== 'user') {
+    tokens -= estimateTokens(picked[0].content);
+    picked.shift();
+  }
+
+  return { messages: picked, tokens, dropped: history.length - picked.length };
+}
+
+/** 用第一个问题生成会话标题：去掉多余空白，超长截断 */
+export function makeConversationTitle(question: string, maxLength: number = 24): string {
+  const text = question.replace(/\s+/g, ' ').trim();
+  if (!text) return '新对话';
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
@@ -0,0 +1,76 @@
+import { DocReference } from '../../types';
+
+/**
+ * 百炼应用的检索来源
+ * 应用开启「展示回答来源」后，completion 的 output.doc_references 会带上命中的文档片段，
+ * 正文里以 <ref>[1]</ref> 标记引用位置。开启 has_thoughts 时，检索步骤里还能拿到相关度分数。
+ */
+
+const toNumber = (value: unknown) => {
+  const n = Number(value);
+  return value === null || value === undefined || value === '' || !Number.isFinite(n) ? null : n;
+};
+
+// 检索步骤的结果，用 doc_id + 片段开头匹配分数
+const collectScores = (thoughts: any[]): Map<string, number> => {
+  const scores = new Map<string, number>();
+  thoughts.forEach((thought) => {
+    let items: any[] = [];
+    try {
+      const raw = thought?.observation ?? thought?.response;
+      items = typeof raw === 'string' ? JSON.parse(raw) : Array.isArray(raw) ? raw : [];
+    } catch {
+      items = [];
+    }
+    if (!Array.isArray(items)) return;
+    items.forEach((item) => {
+      const score = toNumber(item?.score ?? item?.relevance_score);
+      const key = item?.doc_id ? String(item.doc_id) : String(item?.content || item?.text || '').slice(0, 40);
+      if (score !== null && key) scores.set(key, Math.max(score, scores.get(key) ?? 0));
+    });
+  });
+  return scores;
+};
+
+/** 从一条（或累计的）SSE 输出中解析引用列表；没有来源时返回空数组 */
+export function parseDocReferences(output: any): DocReference[] {
+  const refs = Array.isArray(output?.doc_references) ? output.doc_references : [];
+  if (!refs.length) return [];
+  const scores = collectScores(Array.isArray(output?.thoughts) ? output.thoughts : []);
+
+  return refs
+    .map((ref: any, i: number): DocReference => {
+      const text = String(ref?.text ?? ref?.content ?? '');
+      const docId = ref?.doc_id ? String(ref.doc_id) : null;
+      return {
+        index: toNumber(ref?.index_id) ?? i + 1,
+        docId,
+        docName: String(ref?.doc_name || ref?.title || '未命名文档'),
+        title: ref?.title ? String(ref.title) : null,
+        text,
+        score: toNumber(ref?.score) ?? scores.get(docId || '') ?? scores.get(text.slice(0, 40)) ?? null,
+        pageNumber: toNumber(Array.isArray(ref?.page_number) ? ref.page_number[0] : ref?.page_number),
+      };
+    })
+    .sort((a: DocReference, b: DocReference) => a.index - b.index);
+}
+
+/** 把正文中的 <ref>[1][2]</ref> 标记替换为 [1][2]，便于直接展示 */
+export const normalizeCitationMarkers = (text: string) => text.replace(/<ref>\s*((?:\[\d+\]\s*)+)<\/ref>/g, (_, refs) => refs.replace(/\s+/g, ''));
+
+/**
+ * 标出片段中被回答引用的句子
+ * 片段中与回答有 6 个字符以上公共子串的句子视为被引用；返回按原顺序切分的段落
+ */
+export function markCitedSentences(passage: string, answer: string, minOverlap: number = 6): Array<{ text: string; cited: boolean }> {
+  const plainAnswer = answer.replace(/\s+/g, '');
+  const sentences = passage.match(/[^。！？；!?;\n]+[。！？；!?;\n]*/g) || [passage];
+  return sentences.map((sentence) => {
+    const plain = sentence.replace(/\s+/g, '');
+    let cited = false;
+    for (let i = 0; i + minOverlap <= plain.length && !cited; i++) {
+      cited = plainAnswer.includes(plain.slice(i, i + minOverlap));
+    }
+    return { text: sentence, cited };
+  });
+}
@@ -1,5 +1,6 @@
 import { supabase } from './supabaseClient';
-import { Announcement, Module, DashboardStats, Profile } from '../../types';
+import { FieldChange } from './employeeAudit';
+import { Announcement, Module, DashboardStats, Profile, EmployeeAuditAction, EmployeeAuditLog, KbConversation, KbMessage, KbSearchHit, AiFeedback, AiFeedbackFeature, AiFeedbackReportRow, AiUsageDailyRow } from '../../types';
 
 export const dataService = {
   // --- Data Dictionary (Schema) ---
@@ -66,6 +67,254 @@ export const dataService = {
       });
   },
 
+  // --- Employee Audit Trail ---
+  // 同一次保存产生的多条字段变更共用一个 batch_id，时间线按批次分组展示
+  // departmentId 为员工变更后所属部门，用于按部门隔离历史记录；操作人由数据库触发器按登录用户填写
+  async logEmployeeChanges(
+    empNo: string,
+    changes: FieldChange[],
+    action: EmployeeAuditAction,
+    departmentId: string | number | null
+  ): Promise<void> {
+    if (!changes.length) return;
+    const batchId = crypto.randomUUID();
+
+    const { error } = await supabase.from('employee_audit_logs').insert(
+      changes.map((c) => ({
+        emp_no: empNo,
+        field: c.field,
+        old_value: c.oldValue,
+        new_value: c.newValue,
+        action,
+        batch_id: batchId,
+        department_id: Number(departmentId) || null,
+      }))
+    );
+
+    if (error) {
+      console.error('Error writing employee audit log:', error);
+      throw new Error('变更记录写入失败');
+    }
+  },
+
+  async getEmployeeHistory(empNo: string, limit: number = 200): Promise<EmployeeAuditLog[]> {
+    const { data, error } = await supabase
+      .from('employee_audit_logs')
+      .select('*')
+      .eq('emp_no', empNo)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching employee history:', error);
+      throw new Error('历史记录加载失败');
+    }
+    return data || [];
+  },
+
+  // --- Knowledge Base History ---
+  // 会话按置顶、最近更新排序；RLS 保证只能读到自己的会话
+  async listConversations(limit: number = 100): Promise<KbConversation[]> {
+    const { data, error } = await supabase
+      .from('kb_conversations')
+      .select('*')
+      .order('pinned', { ascending: false })
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching conversations:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  async createConversation(title: string): Promise<KbConversation> {
+    const { data, error } = await supabase
+      .from('kb_conversations')
+      .insert({ title })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Error creating conversation:', error);
+      throw new Error('会话创建失败');
+    }
+    return data;
+  },
+
+  async updateConversation(id: string, patch: Partial<Pick<KbConversation, 'title' | 'pinned' | 'context_start'>>) {
+    const { error } = await supabase.from('kb_conversations').update(patch).eq('id', id);
+    if (error) {
+      console.error('Error updating conversation:', error);
+      throw new Error('会话更新失败');
+    }
+  },
+
+  async deleteConversation(id: string) {
+    const { error } = await supabase.from('kb_conversations').delete().eq('id', id);
+    if (error) {
+      console.error('Error deleting conversation:', error);
+      throw new Error('会话删除失败');
+    }
+  },
+
+  async getConversationMessages(id: string): Promise<KbMessage[]> {
+    const { data, error } = await supabase
+      .from('kb_messages')
+      .select('*')
+      .eq('conversation_id', id)
+      .order('id', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching conversation messages:', error);
+      throw new Error('对话记录加载失败');
+    }
+    return data || [];
+  },
+
+  // 追加一轮问答并刷新会话的 updated_at，让它排到列表前面；返回写入的记录（按传入顺序），失败时返回 null
+  async appendConversationMessages(
+    id: string,
+    messages: Array<Pick<KbMessage, 'role' | 'content'> & Partial<Pick<KbMessage, 'doc_references'>>>
+  ): Promise<KbMessage[] | null> {
+    const { data, error } = await supabase
+      .from('kb_messages')
+      .insert(messages.map((m) => ({ conversation_id: id, role: m.role, content: m.content, doc_references: m.doc_references ?? null })))
+      .select()
+      .order('id', { ascending: true });
+
+    if (error) {
+      console.error('Error saving conversation messages:', error);
+      return null;
+    }
+    await supabase.from('kb_conversations').update({ updated_at: new Date().toISOString() }).eq('id', id);
+    return data || [];
+  },
+
+  // 删除某条消息及其之后的所有消息（重新生成回答时替换最后一轮）
+  async deleteConversationMessagesFrom(id: string, fromMessageId: number) {
+    const { error } = await supabase.from('kb_messages').delete().eq('conversation_id', id).gte('id', fromMessageId);
+    if (error) {
+      console.error('Error deleting conversation messages:', error);
+      throw new Error('对话记录更新失败');
+    }
+  },
+
+  /**
+   * 在标题和问答内容中搜索关键词（由 pg_trgm 索引支撑的 ilike）
+   * 每个会话只返回最新的一条命中消息作为摘要
+   */
+  async searchConversations(keyword: string, limit: number = 30): Promise<KbSearchHit[]> {
+    const pattern = `%${keyword.replace(/[%_\\]/g, (c) => `\\${c}`)}%`;
+    const [titleRes, messageRes] = await Promise.all([
+      supabase.from('kb_conversations').select('*').ilike('title', pattern).limit(limit),
+      supabase
+        .from('kb_messages')
+        .select('content, conversation:kb_conversations(*)')
+        .ilike('content', pattern)
+        .order('id', { ascending: false })
+        .limit(limit * 3),
+    ]);
+
+    if (titleRes.error || messageRes.error) {
+      console.error('Error searching conversations:', titleRes.error || messageRes.error);
+      throw new Error('搜索失败');
+    }
+
+    const hits = new Map<string, KbSearchHit>();
+    (messageRes.data || []).forEach((row: any) => {
+      if (row.conversation && !hits.has(row.conversation.id)) {
+        hits.set(row.conversation.id, { conversation: row.conversation, snippet: row.content });
+      }
+    });
+    (titleRes.data || []).forEach((conv: KbConversation) => {
+      if (!hits.has(conv.id)) hits.set(conv.id, { conversation: conv, snippet: null });
+    });
+    return Array.from(hits.values())
+      .sort((a, b) => b.conversation.updated_at.localeCompare(a.conversation.updated_at))
+      .slice(0, limit);
+  },
+
+  // --- AI Feedback ---
+
+  /**
+   * 保存对一条回答的评价；传入 id 时更新已有反馈
+   * 已落库的知识库回答按 message_id 去重，重复评价会覆盖之前的结果
+   */
+  async saveFeedback(
+    feedback: Pick<AiFeedback, 'feature' | 'rating' | 'prompt' | 'answer'> &
+      Partial<Pick<AiFeedback, 'id' | 'correction' | 'model' | 'latency_ms' | 'conversation_id' | 'message_id' | 'doc_references'>>
+  ): Promise<AiFeedback> {
+    const { id, ...fields } = feedback;
+    const payload = { ...fields, updated_at: new Date().toISOString() };
+    const query = id
+      ? supabase.from('ai_feedback').update(payload).eq('id', id)
+      : fields.message_id
+        ? supabase.from('ai_feedback').upsert(payload, { onConflict: 'user_id,message_id' })
+        : supabase.from('ai_feedback').insert(payload);
+    const { data, error } = await query.select().single();
+
+    if (error || !data) {
+      console.error('Error saving feedback:', error);
+      throw new Error('反馈提交失败');
+    }
+    return data;
+  },
+
+  // 当前用户对某个会话中各条回答的评价，按 message_id 索引
+  async getConversationFeedback(conversationId: string): Promise<Record<number, AiFeedback>> {
+    const { data, error } = await supabase
+      .from('ai_feedback')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .not('message_id', 'is', null);
+
+    if (error) {
+      console.error('Error fetching feedback:', error);
+      return {};
+    }
+    return Object.fromEntries((data || []).map((f: AiFeedback) => [f.message_id, f]));
+  },
+
+  // 评分最差的问题（先按平均分升序，再按差评数降序），供管理员修正知识库文档
+  async getWorstRatedQuestions(feature: AiFeedbackFeature | null = null, limit: number = 50): Promise<AiFeedbackReportRow[]> {
+    let query = supabase
+      .from('ai_feedback_report')
+      .select('*')
+      .gt('down_votes', 0)
+      .order('score', { ascending: true })
+      .order('down_votes', { ascending: false })
+      .limit(limit);
+    if (feature) query = query.eq('feature', feature);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching feedback report:', error);
+      throw new Error('反馈报表加载失败');
+    }
+    return data || [];
+  },
+
+  // --- AI Usage ---
+
+  /**
+   * 最近 days 天（含今天）按天、模型汇总的 AI 用量
+   * 传 userId 只看本人；不传时返回 RLS 允许的全部（管理员为全公司）
+   */
+  async getAiUsageDaily(days: number, userId: string | null = null): Promise<AiUsageDailyRow[]> {
+    const since = new Date(Date.now() - (days - 1) * 86400000).toISOString().slice(0, 10);
+    let query = supabase.from('ai_usage_daily').select('*').gte('day', since).order('day');
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error fetching AI usage:', error);
+      return [];
+    }
+    return data || [];
+  },
+
   async getDashboardStats(userId: string): Promise<DashboardStats> {
     const { count: aiCalls, error: aiError } = await supabase
       .from('activity_logs')
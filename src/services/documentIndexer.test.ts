@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { buildPassagePrompt, chunkText, createMemoryIndexer, passagesToReferences } from './documentIndexer';
+import { KbDocument } from '../../types';
+
+// 只测试分片和内存索引器，不需要连接 Supabase
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const documentOf = (id: string, file_name: string) => ({ id, file_name }) as KbDocument;
+
+describe('chunkText', () => {
+  it('短段落合并成一个分片，空段落忽略', () => {
+    expect(chunkText('第一段。\n\n\n\n第二段。\n\n   ', 600)).toEqual([{ index: 0, content: '第一段。\n第二段。' }]);
+  });
+
+  it('超出长度时开始新分片，并带上上一分片末尾的重叠内容', () => {
+    const a = '甲'.repeat(50);
+    const b = '乙'.repeat(50);
+    const chunks = chunkText(`${a}\n\n${b}`, 60, 10);
+    expect(chunks.map((c) => c.content)).toEqual([a, `${'甲'.repeat(10)}\n${b}`]);
+  });
+
+  it('过长的段落按句子切分，单句仍超长时硬切', () => {
+    const sentences = '这是第一句话。这是第二句话！这是第三句话？';
+    expect(chunkText(sentences, 10, 0).map((c) => c.content)).toEqual(['这是第一句话。', '这是第二句话！', '这是第三句话？']);
+
+    const chunks = chunkText('字'.repeat(25), 10, 0);
+    expect(chunks.map((c) => c.content.length)).toEqual([10, 10, 5]);
+  });
+
+  it('分片编号从 0 连续递增，且不超过长度上限', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `第${i}条规定：员工请假需提前申请。`).join('\n\n');
+    const chunks = chunkText(text, 120, 20);
+    expect(chunks.map((c) => c.index)).toEqual(chunks.map((_, i) => i));
+    chunks.forEach((c) => expect(c.content.length).toBeLessThanOrEqual(120));
+    // 每条规定都完整地出现在某个分片中
+    expect(text.split('\n\n').every((rule) => chunks.some((c) => c.content.includes(rule)))).toBe(true);
+  });
+});
+
+describe('createMemoryIndexer', () => {
+  const setup = async () => {
+    const indexer = createMemoryIndexer();
+    await indexer.index(documentOf('d1', '考勤制度.md'), chunkText('员工请假需提前三天提交申请。\n\n加班需部门经理审批。', 20, 0));
+    await indexer.index(documentOf('d2', '报销制度.docx'), [{ index: 0, content: '差旅报销需在出差结束后一周内提交发票。' }]);
+    return indexer;
+  };
+
+  it('按相似度排序返回命中的分片', async () => {
+    const hits = await (await setup()).search('请假申请怎么提交');
+    expect(hits[0]).toMatchObject({ documentId: 'd1', fileName: '考勤制度.md', chunkIndex: 0 });
+    expect(hits.map((h) => h.score)).toEqual([...hits.map((h) => h.score)].sort((a, b) => b - a));
+    hits.forEach((h) => expect(h.score).toBeGreaterThan(0));
+  });
+
+  it('没有共同词时不返回结果，limit 限制条数', async () => {
+    const indexer = await setup();
+    expect(await indexer.search('天气预报')).toEqual([]);
+    expect(await indexer.search('   ')).toEqual([]);
+    expect(await indexer.search('提交', 1)).toHaveLength(1);
+  });
+
+  it('英文按单词匹配，不区分大小写', async () => {
+    const indexer = createMemoryIndexer();
+    await indexer.index(documentOf('d3', 'vpn.md'), [{ index: 0, content: 'Connect to the VPN before using OA.' }]);
+    expect((await indexer.search('vpn'))[0]?.documentId).toBe('d3');
+  });
+
+  it('重新索引覆盖旧分片，删除后不再命中', async () => {
+    const indexer = await setup();
+    await indexer.index(documentOf('d1', '考勤制度.md'), [{ index: 0, content: '年假按工龄计算。' }]);
+    expect((await indexer.search('请假申请')).some((h) => h.documentId === 'd1')).toBe(false);
+    expect((await indexer.search('年假'))[0]?.documentId).toBe('d1');
+
+    await indexer.remove('d1');
+    expect(await indexer.search('年假')).toEqual([]);
+  });
+});
+
+describe('检索结果', () => {
+  const passages = [{ documentId: 'd1', fileName: '考勤制度.md', chunkIndex: 2, content: '年假按工龄计算。', score: 0.8 }];
+
+  it('提示中带上文档名', () => {
+    expect(buildPassagePrompt(passages)).toContain('【资料1：考勤制度.md】\n年假按工龄计算。');
+  });
+
+  it('引用序号接在已有引用之后', () => {
+    expect(passagesToReferences(passages, 3)).toEqual([
+      { index: 3, docId: 'd1', docName: '考勤制度.md', title: '第 3 段', text: '年假按工龄计算。', score: 0.8, pageNumber: null },
+    ]);
+  });
+});
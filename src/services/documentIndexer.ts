@@ -0,0 +1,220 @@
+import { supabase } from './supabaseClient';
+import { DocReference, KbDocument } from '../../types';
+
+/**
+ * 知识库文档的分片与索引
+ * 索引器是可替换的：默认写入 Supabase 的 kb_document_chunks（pg_trgm 检索），
+ * 本地联调或测试时可换成内存索引器（system_settings.kb_document_indexer = { "provider": "memory" }）。
+ * 新增索引器只需实现 DocumentIndexer 并在 INDEXERS 中注册。
+ */
+
+export const INDEXER_SETTING_KEY = 'kb_document_indexer';
+
+export interface DocumentChunk {
+  index: number;
+  content: string;
+}
+
+export interface IndexedPassage {
+  documentId: string;
+  fileName: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+}
+
+export interface DocumentIndexer {
+  name: string;
+  /** 写入（或覆盖）一篇文档的全部分片 */
+  index(document: KbDocument, chunks: DocumentChunk[]): Promise<void>;
+  remove(documentId: string): Promise<void>;
+  search(query: string, limit?: number): Promise<IndexedPassage[]>;
+}
+
+// --- Chunking ---
+
+const SENTENCE_PATTERN = /[^。！？；!?;\n]+[。！？；!?;\n]*/g;
+
+/**
+ * 按段落切分文本，段落过长时再按句子切，单句仍超长则硬切
+ * 相邻分片保留 overlap 个字符的重叠，避免答案恰好落在切分点上
+ */
+export function chunkText(text: string, size: number = 600, overlap: number = 80): DocumentChunk[] {
+  const pieces: string[] = [];
+  text.split(/\n{2,}/).forEach((paragraph) => {
+    const trimmed = paragraph.trim();
+    if (!trimmed) return;
+    if (trimmed.length <= size) {
+      pieces.push(trimmed);
+      return;
+    }
+    (trimmed.match(SENTENCE_PATTERN) || [trimmed]).forEach((sentence) => {
+      for (let i = 0; i < sentence.length; i += size) pieces.push(sentence.slice(i, i + size));
+    });
+  });
+
+  const chunks: string[] = [];
+  let current = '';
+  pieces.forEach((piece) => {
+    if (current && current.length + piece.length + 1 > size) {
+      chunks.push(current);
+      // slice(-0) 会返回整段，overlap 为 0 时不保留重叠
+      current = overlap > 0 ? current.slice(-overlap) : '';
+    }
+    current = current ? `${current}\n${piece}` : piece;
+  });
+  if (current.trim()) chunks.push(current);
+
+  return chunks.map((content, index) => ({ index, content }));
+}
+
+// --- Memory Indexer ---
+
+// 中文按相邻两字、其他语言按单词切词，足以支撑本地检索的相似度排序
+const termsOf = (text: string) => {
+  const terms = new Map<string, number>();
+  const add = (term: string) => terms.set(term, (terms.get(term) || 0) + 1);
+  (text.toLowerCase().match(/[\u4e00-\u9fff]+|[a-z0-9]+/g) || []).forEach((token) => {
+    if (!/[\u4e00-\u9fff]/.test(token)) return add(token);
+    if (token.length === 1) return add(token);
+    for (let i = 0; i < token.length - 1; i++) add(token.slice(i, i + 2));
+  });
+  return terms;
+};
+
+const norm = (vector: Map<string, number>) => Math.sqrt([...vector.values()].reduce((sum, v) => sum + v * v, 0));
+
+/** 内存索引器：词频向量 + 余弦相似度，仅在当前页面生命周期内有效 */
+export function createMemoryIndexer(): DocumentIndexer {
+  const entries = new Map<string, Array<IndexedPassage & { vector: Map<string, number>; norm: number }>>();
+
+  return {
+    name: 'memory',
+    async index(document, chunks) {
+      entries.set(
+        document.id,
+        chunks.map((chunk) => {
+          const vector = termsOf(chunk.content);
+          return {
+            documentId: document.id,
+            fileName: document.file_name,
+            chunkIndex: chunk.index,
+            content: chunk.content,
+            score: 0,
+            vector,
+            norm: norm(vector),
+          };
+        })
+      );
+    },
+    async remove(documentId) {
+      entries.delete(documentId);
+    },
+    async search(query, limit = 4) {
+      const queryVector = termsOf(query);
+      const queryNorm = norm(queryVector);
+      if (!queryNorm) return [];
+      return [...entries.values()]
+        .flat()
+        .map(({ vector, norm: chunkNorm, ...passage }) => {
+          let dot = 0;
+          queryVector.forEach((weight, term) => (dot += weight * (vector.get(term) || 0)));
+          return { ...passage, score: chunkNorm ? dot / (queryNorm * chunkNorm) : 0 };
+        })
+        .filter((passage) => passage.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+// --- Supabase Indexer ---
+
+const CHUNK_BATCH_SIZE = 200;
+
+export const supabaseIndexer: DocumentIndexer = {
+  name: 'supabase',
+
+  async index(document, chunks) {
+    await this.remove(document.id);
+    for (let i = 0; i < chunks.length; i += CHUNK_BATCH_SIZE) {
+      const { error } = await supabase.from('kb_document_chunks').insert(
+        chunks.slice(i, i + CHUNK_BATCH_SIZE).map((chunk) => ({
+          document_id: document.id,
+          chunk_index: chunk.index,
+          content: chunk.content,
+        }))
+      );
+      if (error) {
+        console.error('Error indexing document chunks:', error);
+        throw new Error(`写入索引失败：${error.message}`);
+      }
+    }
+  },
+
+  async remove(documentId) {
+    const { error } = await supabase.from('kb_document_chunks').delete().eq('document_id', documentId);
+    if (error) {
+      console.error('Error removing document chunks:', error);
+      throw new Error(`清除旧索引失败：${error.message}`);
+    }
+  },
+
+  async search(query, limit = 4) {
+    const { data, error } = await supabase.rpc('match_kb_chunks', { query, match_count: limit });
+    if (error) {
+      console.error('Error searching document chunks:', error);
+      return [];
+    }
+    return (data || []).map((row: any) => ({
+      documentId: row.document_id,
+      fileName: row.file_name,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      score: Number(row.score) || 0,
+    }));
+  },
+};
+
+// --- Selection ---
+
+const INDEXERS: Record<string, () => DocumentIndexer> = {
+  supabase: () => supabaseIndexer,
+  memory: (() => {
+    let shared: DocumentIndexer | null = null;
+    return () => (shared ??= createMemoryIndexer());
+  })(),
+};
+
+let cachedIndexer: DocumentIndexer | null = null;
+
+/** 按 system_settings 选择索引器，未配置或配置无效时使用 Supabase */
+export async function getDocumentIndexer(): Promise<DocumentIndexer> {
+  if (cachedIndexer) return cachedIndexer;
+  const { data, error } = await supabase.from('system_settings').select('value').eq('key', INDEXER_SETTING_KEY).maybeSingle();
+  if (error) console.error('Error fetching indexer setting:', error);
+  const provider = String(data?.value?.provider || 'supabase');
+  cachedIndexer = (INDEXERS[provider] || INDEXERS.supabase)();
+  return cachedIndexer;
+}
+
+// --- Answering ---
+
+/** 把检索到的片段拼成系统提示，供百炼应用在自身知识库之外参考 */
+export const buildPassagePrompt = (passages: IndexedPassage[]) =>
+  [
+    '以下是用户新上传、可能尚未同步到知识库的文档片段。若与问题相关，请结合这些内容回答，并说明出处文档名：',
+    ...passages.map((p, i) => `【资料${i + 1}：${p.fileName}】\n${p.content}`),
+  ].join('\n\n');
+
+/** 转换为引用列表，序号接在百炼返回的引用之后 */
+export const passagesToReferences = (passages: IndexedPassage[], startIndex: number): DocReference[] =>
+  passages.map((p, i) => ({
+    index: startIndex + i,
+    docId: p.documentId,
+    docName: p.fileName,
+    title: `第 ${p.chunkIndex + 1} 段`,
+    text: p.content,
+    score: p.score,
+    pageNumber: null,
+  }));
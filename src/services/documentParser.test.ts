@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { detectDocumentKind, extractDocumentText } from './documentParser';
+
+// 只包含 word/document.xml 的最小 DOCX
+const docxFile = (body: string) => {
+  const cfb = XLSX.CFB.utils.cfb_new();
+  XLSX.CFB.utils.cfb_add(
+    cfb,
+    '/word/document.xml',
+    new TextEncoder().encode(
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`
+    )
+  );
+  return new File([XLSX.CFB.write(cfb, { type: 'array', fileType: 'zip' }) as ArrayBuffer], '制度.docx');
+};
+
+const paragraph = (...runs: string[]) => `<w:p><w:pPr><w:jc w:val="left"/></w:pPr>${runs.map((r) => `<w:r><w:rPr><w:b/></w:rPr>${r}</w:r>`).join('')}</w:p>`;
+
+describe('detectDocumentKind', () => {
+  it.each([
+    ['员工手册.PDF', 'pdf'],
+    ['制度.docx', 'docx'],
+    ['说明.md', 'markdown'],
+    ['说明.txt', 'markdown'],
+    ['旧版.doc', null],
+    ['无扩展名', null],
+  ])('%s -> %s', (name, kind) => {
+    expect(detectDocumentKind(name)).toBe(kind);
+  });
+});
+
+describe('extractDocumentText', () => {
+  it('DOCX 按段落取出文字，保留制表符和换行，解码实体', async () => {
+    const file = docxFile(
+      paragraph('<w:t>第一章</w:t>', '<w:t xml:space="preserve"> 总则</w:t>') +
+        paragraph('<w:t>工号</w:t><w:tab/><w:t>姓名</w:t>') +
+        paragraph('<w:t>第一行</w:t><w:br/><w:t>第二行</w:t>') +
+        paragraph('<w:t>A &amp; B &lt;C&gt; &#20013;&#x6587;</w:t>')
+    );
+    expect(await extractDocumentText(file)).toBe('第一章 总则\n工号\t姓名\n第一行\n第二行\nA & B <C> 中文');
+  });
+
+  it('不是 DOCX 的文件给出可读的错误', async () => {
+    await expect(extractDocumentText(new File(['not a zip'], '损坏.docx'))).rejects.toThrow('无法读取 DOCX 内容');
+  });
+
+  it('Markdown 统一换行并压缩多余空行', async () => {
+    expect(await extractDocumentText(new File(['# 标题  \r\n\r\n\r\n\r\n正文\r\n'], 'a.md'))).toBe('# 标题\n\n正文');
+  });
+
+  it('拒绝不支持的格式和空文件', async () => {
+    await expect(extractDocumentText(new File(['x'], 'a.doc'))).rejects.toThrow('仅支持');
+    await expect(extractDocumentText(new File(['  \n\n '], 'a.md'))).rejects.toThrow('没有可索引的文字内容');
+  });
+});
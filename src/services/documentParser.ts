@@ -0,0 +1,130 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * 知识库文档的文本提取（在浏览器中完成）
+ * - Markdown / 纯文本：直接读取
+ * - DOCX：借助 xlsx 自带的 CFB 解压 word/document.xml，按段落取出文字
+ * - PDF：使用 pdf.js 逐页读取文本层，支持中文常用的 CID 字体；扫描件没有文本层，会提示先做 OCR
+ */
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown';
+
+export const DOCUMENT_ACCEPT = '.pdf,.docx,.md,.markdown,.txt';
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'markdown',
+};
+
+export const detectDocumentKind = (fileName: string): DocumentKind | null =>
+  EXTENSION_KINDS[fileName.split('.').pop()?.toLowerCase() || ''] || null;
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+// --- DOCX ---
+
+function extractDocxText(buffer: ArrayBuffer): string {
+  let entry: any = null;
+  try {
+    entry = XLSX.CFB.find(XLSX.CFB.read(new Uint8Array(buffer), { type: 'array' }), '/word/document.xml');
+  } catch {
+    entry = null;
+  }
+  if (!entry?.content) throw new Error('无法读取 DOCX 内容，文件可能已损坏或不是 Word 2007+ 格式');
+
+  const xml = new TextDecoder('utf-8').decode(new Uint8Array(entry.content));
+  return xml
+    .split(/<\/w:p>/)
+    .map((paragraph) =>
+      decodeXmlEntities(
+        paragraph
+          .replace(/<w:tab\/>/g, '\t')
+          .replace(/<w:br[^>]*\/>/g, '\n')
+          .replace(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<[^>]+>/g, (_, text) => text ?? '')
+      )
+    )
+    .join('\n');
+}
+
+// --- PDF ---
+
+// CID 字体（常见于中文 PDF）需要 pdf.js 自带的 CMap 才能把字形映射回文字；按需加载，打包成静态资源
+const CMAP_URLS = import.meta.glob<string>('/node_modules/pdfjs-dist/cmaps/*.bcmap', { query: '?url', import: 'default' });
+
+class BundledCMapReaderFactory {
+  async fetch({ name }: { name: string }) {
+    const load = CMAP_URLS[`/node_modules/pdfjs-dist/cmaps/${name}.bcmap`];
+    if (!load) throw new Error(`缺少 CMap: ${name}`);
+    const res = await fetch(await load());
+    if (!res.ok) throw new Error(`CMap 加载失败: ${name}`);
+    return { cMapData: new Uint8Array(await res.arrayBuffer()), isCompressed: true };
+  }
+}
+
+// pdf.js 体积较大，只在上传 PDF 时加载
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+async function extractPdfText(buffer: ArrayBuffer): Promise<string> {
+  const pdfjs = await loadPdfJs();
+  let pdf: Awaited<ReturnType<typeof pdfjs.getDocument>['promise']>;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer), CMapReaderFactory: BundledCMapReaderFactory, cMapPacked: true })
+      .promise;
+  } catch (err: any) {
+    if (err?.name === 'PasswordException') throw new Error('PDF 已加密，请解除密码保护后再上传');
+    throw new Error('不是有效的 PDF 文件');
+  }
+
+  try {
+    const pages: string[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const { items } = await page.getTextContent();
+      pages.push(items.map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join(''));
+      page.cleanup();
+    }
+    const text = pages.join('\n\n');
+    if (text.replace(/\s/g, '').length < 20) {
+      throw new Error('该 PDF 中没有可提取的文字（可能是扫描件），请先进行 OCR 或转换为 DOCX / Markdown 后上传');
+    }
+    return text;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+// --- Entry ---
+
+/** 提取文件的纯文本，失败时抛出可直接展示给用户的错误 */
+export async function extractDocumentText(file: File): Promise<string> {
+  const kind = detectDocumentKind(file.name);
+  if (!kind) throw new Error('仅支持 PDF、DOCX、Markdown 文件');
+  if (file.size > MAX_DOCUMENT_BYTES) throw new Error(`文件超过 ${MAX_DOCUMENT_BYTES / 1024 / 1024}MB 上限`);
+
+  const text =
+    kind === 'markdown'
+      ? await file.text()
+      : kind === 'docx'
+        ? extractDocxText(await file.arrayBuffer())
+        : await extractPdfText(await file.arrayBuffer());
+
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (!normalized) throw new Error('文件中没有可索引的文字内容');
+  return normalized;
+}
@@ -0,0 +1,57 @@
+import { EmployeePatch } from './sqlGateway';
+import { Employee } from '../../types';
+
+/**
+ * 员工档案变更的字段级差异
+ * 只追踪能通过 employee.patch 写回的列，这样历史记录里的每一项都可以单独还原。
+ */
+
+export type AuditedField = keyof EmployeePatch;
+
+export const AUDIT_FIELD_LABELS: Record<AuditedField, string> = {
+  employeename: '姓名',
+  Departmentid: '部门',
+  P_emp_sex: '性别',
+  p_emp_phone: '联系电话',
+  P_emp_Status: '员工状态',
+  p_emp_degree: '学历',
+  P_emp_workJoindt: '入职日期',
+  P_emp_leavedt: '离职日期',
+};
+
+const AUDITED_FIELDS = Object.keys(AUDIT_FIELD_LABELS) as AuditedField[];
+
+export interface FieldChange {
+  field: AuditedField;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// 统一成字符串比较：日期去掉时间部分，空串与 null 视为同一个值
+export const normalizeAuditValue = (field: AuditedField, value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const text = String(value);
+  return field === 'P_emp_workJoindt' || field === 'P_emp_leavedt' ? text.split('T')[0] : text;
+};
+
+export const isAuditedField = (field: string): field is AuditedField => AUDITED_FIELDS.includes(field as AuditedField);
+
+/**
+ * 比较修改前后的员工记录；before 为 null 表示新建，所有非空字段都记为变更
+ * after 可以只包含本次修改的字段（例如批量修改的 patch）
+ */
+export function diffEmployee(before: Partial<Employee> | null, after: Partial<Employee>): FieldChange[] {
+  return AUDITED_FIELDS.filter((field) => field in after)
+    .map((field) => ({
+      field,
+      oldValue: before ? normalizeAuditValue(field, before[field]) : null,
+      newValue: normalizeAuditValue(field, after[field]),
+    }))
+    .filter((change) => change.oldValue !== change.newValue);
+}
+
+/** 把历史记录中的字符串值转换回 employee.patch 可接受的参数 */
+export function toPatchValue(field: AuditedField, value: string | null): EmployeePatch {
+  if (field === 'Departmentid') return { Departmentid: Number(value) || 0 };
+  return { [field]: value ?? '' } as EmployeePatch;
+}
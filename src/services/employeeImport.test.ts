@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { ParsedSheet, buildImportRows, parseSpreadsheet, suggestMapping } from './employeeImport';
+import { Department } from '../../types';
+
+const departments: Department[] = [
+  { Departmentid: 2, departmentname: '研发部' },
+  { Departmentid: 3, departmentname: '生产部' },
+];
+
+const xlsxFile = (rows: unknown[][]) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows, { cellDates: true }), 'Sheet1');
+  return new File([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], '员工.xlsx');
+};
+
+describe('parseSpreadsheet', () => {
+  it.each<[string, BlobPart]>([
+    ['UTF-8', '工号,姓名\n007,张伟\n'],
+    ['UTF-8 带 BOM', '\ufeff工号,姓名\n007,张伟\n'],
+    // 「工号,姓名\n007,张伟」的 GBK 编码
+    ['GBK', Uint8Array.from([0xb9, 0xa4, 0xba, 0xc5, 0x2c, 0xd0, 0xd5, 0xc3, 0xfb, 0x0a, 0x30, 0x30, 0x37, 0x2c, 0xd5, 0xc5, 0xce, 0xb0])],
+  ])('CSV 编码识别：%s', async (_label, content) => {
+    const sheet = await parseSpreadsheet(new File([content], '员工.csv'));
+    expect(sheet.headers).toEqual(['工号', '姓名']);
+    // 按文本读取，工号的前导零不丢
+    expect(sheet.rows).toEqual([{ line: 2, cells: { 工号: '007', 姓名: '张伟' } }]);
+  });
+
+  it('跳过表头前和中间的空行，行号对应表格中的位置', async () => {
+    const sheet = await parseSpreadsheet(new File(['\n工号,姓名\nA1,张伟\n,\nA2,王芳\n'], 'a.csv'));
+    expect(sheet.rows.map((r) => [r.line, r.cells['工号']])).toEqual([[3, 'A1'], [5, 'A2']]);
+  });
+
+  it('XLSX 的日期单元格转成 yyyy-mm-dd', async () => {
+    const sheet = await parseSpreadsheet(xlsxFile([['工号', '入职日期'], ['A1', new Date(2024, 4, 20)]]));
+    expect(sheet.rows[0].cells).toEqual({ 工号: 'A1', 入职日期: '2024-05-20' });
+  });
+
+  it('空文件报错', async () => {
+    await expect(parseSpreadsheet(new File(['\n\n'], 'empty.csv'))).rejects.toThrow('文件内容为空');
+  });
+});
+
+describe('suggestMapping', () => {
+  it.each<[string, string, Record<string, string>]>([
+    ['P_emp_no', 'P_emp_no', {}],
+    ['p_emp_phone', 'p_emp_phone', {}],
+    ['员工编号', 'P_emp_no', {}],
+    ['手机号', 'p_emp_phone', {}],
+    ['所属部门', 'Departmentid', {}],
+    ['离职时间', 'P_emp_leavedt', {}],
+    [' 姓 名 ', 'employeename', {}],
+    ['入职日期*', 'P_emp_workJoindt', {}],
+    ['最高学历', 'p_emp_degree', {}],
+    ['文化程度', 'p_emp_degree', { p_emp_degree: '文化程度' }],
+    ['备注', '', {}],
+  ])('%s -> %s', (header, field, dictionary) => {
+    expect(suggestMapping([header], dictionary)[header]).toBe(field);
+  });
+
+  it('每个字段只映射一次，先到的表头优先', () => {
+    expect(suggestMapping(['电话', '手机'], {})).toEqual({ 电话: 'p_emp_phone', 手机: '' });
+  });
+});
+
+describe('buildImportRows', () => {
+  const sheetOf = (...rows: Array<Record<string, string>>): ParsedSheet => ({
+    fileName: 'a.csv',
+    headers: Object.keys(rows[0]),
+    rows: rows.map((cells, i) => ({ line: i + 2, cells })),
+  });
+  const mapping = {
+    工号: 'P_emp_no',
+    姓名: 'employeename',
+    部门: 'Departmentid',
+    状态: 'P_emp_Status',
+    离职日期: 'P_emp_leavedt',
+    入职日期: 'P_emp_workJoindt',
+    电话: 'p_emp_phone',
+  } as const;
+  const build = (cells: Record<string, string>) =>
+    buildImportRows(sheetOf({ 工号: 'A1', 姓名: '张伟', 部门: '研发部', ...cells }), mapping, departments)[0];
+
+  it.each<[string, Record<string, string>, string[]]>([
+    ['在职', { 状态: '正式' }, []],
+    ['状态留空', {}, []],
+    ['离职且有离职日期', { 状态: '离职', 离职日期: '2025/6/30' }, []],
+    ['离职但没有离职日期', { 状态: '离职' }, ['状态为离职时必须填写离职日期']],
+    ['有离职日期但状态不是离职', { 状态: '正式', 离职日期: '2025-06-30' }, ['填写了离职日期时状态应为离职']],
+    ['只有离职日期', { 离职日期: '2025-06-30' }, ['填写了离职日期时状态应为离职']],
+    ['离职日期无法识别', { 状态: '离职', 离职日期: '2025-02-30' }, ['离职日期「2025-02-30」无法识别']],
+    ['未知状态', { 状态: '退休' }, ['状态「退休」无效，应为 正式 / 试用 / 离职']],
+    ['未知部门', { 部门: '财务部' }, ['未知部门「财务部」']],
+    ['电话格式', { 电话: '138-abc' }, ['电话「138-abc」格式不正确']],
+  ])('校验：%s', (_label, cells, errors) => {
+    expect(build(cells).errors).toEqual(errors);
+  });
+
+  it('只提交已映射且非空的列，日期和部门转换成库中的格式', () => {
+    expect(build({ 部门: '3', 状态: '离职', 离职日期: '2025年6月30日', 入职日期: '20200105', 电话: '' }).params).toEqual({
+      P_emp_no: 'A1',
+      fields: {
+        employeename: '张伟',
+        Departmentid: 3,
+        P_emp_Status: '离职',
+        P_emp_leavedt: '2025-06-30',
+        P_emp_workJoindt: '2020-01-05',
+      },
+    });
+  });
+
+  it('文件中重复的工号从第二次起记为错误', () => {
+    const rows = buildImportRows(sheetOf({ 工号: 'A1', 姓名: '张伟', 部门: '2' }, { 工号: 'A1', 姓名: '王芳', 部门: '2' }), mapping, departments);
+    expect(rows.map((r) => r.errors)).toEqual([[], ['工号 A1 在文件中重复']]);
+  });
+});
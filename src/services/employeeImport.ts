@@ -0,0 +1,243 @@
+import * as XLSX from 'xlsx';
+import { EmployeeUpsertParams } from './sqlGateway';
+import { Department, Employee } from '../../types';
+
+// --- Field Catalogue ---
+
+export type ImportField = 'P_emp_no' | keyof EmployeeUpsertParams['fields'];
+
+export interface ImportFieldDef {
+  key: ImportField;
+  label: string;
+  required?: boolean;
+}
+
+export const IMPORT_FIELDS: ImportFieldDef[] = [
+  { key: 'P_emp_no', label: '工号', required: true },
+  { key: 'employeename', label: '姓名', required: true },
+  { key: 'Departmentid', label: '部门', required: true },
+  { key: 'P_emp_sex', label: '性别' },
+  { key: 'p_emp_phone', label: '联系电话' },
+  { key: 'P_emp_Status', label: '员工状态' },
+  { key: 'p_emp_degree', label: '学历' },
+  { key: 'P_emp_workJoindt', label: '入职日期' },
+  { key: 'P_emp_leavedt', label: '离职日期' },
+];
+
+// 数据字典之外的常见表头写法（ERP 导出、手工表格）
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  P_emp_no: ['工号', '员工编号', '员工工号', '编号'],
+  employeename: ['姓名', '员工姓名', '名字'],
+  Departmentid: ['部门', '所属部门', '部门名称', '部门编号', '部门id'],
+  P_emp_sex: ['性别'],
+  p_emp_phone: ['电话', '手机', '手机号', '联系电话', '联系方式'],
+  P_emp_Status: ['状态', '员工状态', '在职状态'],
+  p_emp_degree: ['学历', '最高学历'],
+  P_emp_workJoindt: ['入职日期', '入职时间', '入职'],
+  P_emp_leavedt: ['离职日期', '离职时间', '离职'],
+};
+
+const VALID_STATUS = ['正式', '试用', '离职'];
+
+export interface SheetRow {
+  // 对应表格中的行号（含表头行，便于用户回到 Excel 定位）
+  line: number;
+  cells: Record<string, string>;
+}
+
+export interface ParsedSheet {
+  fileName: string;
+  headers: string[];
+  rows: SheetRow[];
+}
+
+// 表头 -> 字段，'' 表示忽略该列
+export type ColumnMapping = Record<string, ImportField | ''>;
+
+export interface ImportRow {
+  line: number;
+  // expectedVersion 在提交前按库中现有记录补上
+  params: Omit<EmployeeUpsertParams, 'expectedVersion'>;
+  errors: string[];
+}
+
+// 写入成功的行；previous 为导入前的记录（新工号为 null），用于写修改历史
+export interface ImportedEmployee {
+  P_emp_no: string;
+  fields: EmployeeUpsertParams['fields'];
+  previous: Employee | null;
+}
+
+// --- Parsing ---
+
+// 中文版 Excel 另存的 CSV 通常是 GBK 编码，UTF-8 解码失败时回退到 GBK
+const decodeCsv = (buffer: ArrayBuffer) => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('gbk').decode(buffer);
+  }
+};
+
+// 日期单元格统一成 yyyy-mm-dd，其余值转成去掉首尾空白的字符串
+const cellText = (value: unknown) => {
+  if (value instanceof Date) {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return String(value ?? '').trim();
+};
+
+/**
+ * 在浏览器中解析 CSV / XLSX，只读取第一个工作表
+ * CSV 按纯文本读取，保留工号、电话的前导零
+ */
+export async function parseSpreadsheet(file: File): Promise<ParsedSheet> {
+  const buffer = await file.arrayBuffer();
+  const workbook = /\.csv$/i.test(file.name)
+    ? XLSX.read(decodeCsv(buffer), { type: 'string', raw: true })
+    : XLSX.read(buffer, { type: 'array', cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('文件中没有可读取的工作表');
+
+  const matrix = XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1, raw: true, defval: '' });
+  const headerIndex = matrix.findIndex((cells) => cells.some((c) => cellText(c) !== ''));
+  if (headerIndex === -1) throw new Error('文件内容为空');
+
+  const headers = matrix[headerIndex].map(cellText);
+  const rows = matrix
+    .map((cells, index) => {
+      const record: Record<string, string> = {};
+      headers.forEach((h, i) => {
+        if (h) record[h] = cellText(cells[i]);
+      });
+      return { line: index + 1, cells: record };
+    })
+    .slice(headerIndex + 1)
+    .filter((row) => Object.values(row.cells).some((v) => v !== ''));
+
+  return { fileName: file.name, headers: headers.filter(Boolean), rows };
+}
+
+// --- Mapping ---
+
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[\s_\-()（）:：*]/g, '');
+
+/**
+ * 根据数据字典（列名 -> 中文描述）和内置别名推断表头映射
+ * 优先级：列名完全一致 > 字典描述一致 > 别名一致 > 描述互相包含；每个字段只映射一次
+ */
+export function suggestMapping(headers: string[], dictionary: Record<string, string>): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ImportField>();
+
+  const matchers: Array<(header: string, field: ImportField) => boolean> = [
+    (h, f) => h === normalizeHeader(f),
+    (h, f) => !!dictionary[f] && h === normalizeHeader(dictionary[f]),
+    (h, f) => FIELD_ALIASES[f].some((alias) => h === normalizeHeader(alias)),
+    (h, f) => {
+      const desc = dictionary[f] ? normalizeHeader(dictionary[f]) : '';
+      return !!desc && (h.includes(desc) || desc.includes(h));
+    },
+  ];
+
+  headers.forEach((header) => (mapping[header] = ''));
+  matchers.forEach((match) => {
+    headers.forEach((header) => {
+      if (mapping[header]) return;
+      const normalized = normalizeHeader(header);
+      if (!normalized) return;
+      const field = IMPORT_FIELDS.find((f) => !used.has(f.key) && match(normalized, f.key));
+      if (field) {
+        mapping[header] = field.key;
+        used.add(field.key);
+      }
+    });
+  });
+
+  return mapping;
+}
+
+// --- Validation ---
+
+// 支持 2024-05-20 / 2024/5/20 / 2024.5.20 / 20240520
+const normalizeDate = (value: string): string | null => {
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const parts = compact || value.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?/);
+  if (!parts) return null;
+  const [y, m, d] = [Number(parts[1]), Number(parts[2]), Number(parts[3])];
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+const normalizeSex = (value: string) => {
+  if (['男', 'm', 'male', '1'].includes(value.toLowerCase())) return '男';
+  if (['女', 'f', 'female', '0'].includes(value.toLowerCase())) return '女';
+  return null;
+};
+
+/**
+ * 按映射把原始行转换成 employee.upsert 参数，并逐行给出校验错误
+ * 只提交已映射且非空的列，避免空单元格覆盖 ERP 中已有的值；状态留空时新建记为「试用」，已有员工保持原状态
+ * 部门既可填编号也可填名称；同一文件内重复出现的工号，第二次起记为错误
+ */
+export function buildImportRows(sheet: ParsedSheet, mapping: ColumnMapping, departments: Department[]): ImportRow[] {
+  const headerOf = (field: ImportField) => Object.keys(mapping).find((h) => mapping[h] === field);
+  const cell = (row: SheetRow, field: ImportField) => {
+    const header = headerOf(field);
+    return header ? row.cells[header] ?? '' : '';
+  };
+  const seen = new Set<string>();
+
+  return sheet.rows.map((raw) => {
+    const errors: string[] = [];
+    const empNo = cell(raw, 'P_emp_no');
+    const name = cell(raw, 'employeename');
+    const deptText = cell(raw, 'Departmentid');
+    const sexText = cell(raw, 'P_emp_sex');
+    const status = cell(raw, 'P_emp_Status');
+    const phone = cell(raw, 'p_emp_phone');
+    const degree = cell(raw, 'p_emp_degree');
+    const joinText = cell(raw, 'P_emp_workJoindt');
+    const leaveText = cell(raw, 'P_emp_leavedt');
+
+    if (!empNo) errors.push('工号为空');
+    else if (seen.has(empNo)) errors.push(`工号 ${empNo} 在文件中重复`);
+    else seen.add(empNo);
+
+    if (!name) errors.push('姓名为空');
+
+    const dept = departments.find(
+      (d) => String(d.Departmentid) === deptText || d.departmentname === deptText
+    );
+    if (!deptText) errors.push('部门为空');
+    else if (!dept) errors.push(`未知部门「${deptText}」`);
+
+    const sex = sexText ? normalizeSex(sexText) : '';
+    if (sex === null) errors.push(`性别「${sexText}」无效`);
+
+    if (status && !VALID_STATUS.includes(status)) errors.push(`状态「${status}」无效，应为 ${VALID_STATUS.join(' / ')}`);
+
+    if (phone && !/^[\d\-+ ]{6,20}$/.test(phone)) errors.push(`电话「${phone}」格式不正确`);
+
+    const joinDate = joinText ? normalizeDate(joinText) : '';
+    if (joinDate === null) errors.push(`入职日期「${joinText}」无法识别`);
+
+    // 与「离职归档」一致：离职状态和离职日期必须同时提供
+    const leaveDate = leaveText ? normalizeDate(leaveText) : '';
+    if (leaveDate === null) errors.push(`离职日期「${leaveText}」无法识别`);
+    else if (status === '离职' && !leaveDate) errors.push('状态为离职时必须填写离职日期');
+    else if (leaveDate && status !== '离职') errors.push('填写了离职日期时状态应为离职');
+
+    const fields: ImportRow['params']['fields'] = { employeename: name, Departmentid: Number(dept?.Departmentid) || 0 };
+    if (sex) fields.P_emp_sex = sex;
+    if (phone) fields.p_emp_phone = phone;
+    if (status) fields.P_emp_Status = status;
+    if (degree) fields.p_emp_degree = degree;
+    if (joinDate) fields.P_emp_workJoindt = joinDate;
+    if (leaveDate) fields.P_emp_leavedt = leaveDate;
+
+    return { line: raw.line, params: { P_emp_no: empNo, fields }, errors };
+  });
+}
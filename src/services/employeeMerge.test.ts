@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { resolveConflicts, threeWayMerge } from './employeeMerge';
+import { Employee } from '../../types';
+
+const base: Employee = {
+  P_emp_no: 'LS0002',
+  employeename: '王芳',
+  Departmentid: 2,
+  P_emp_sex: '女',
+  p_emp_phone: '13800000002',
+  P_emp_Status: '正式',
+  p_emp_degree: '本科',
+  P_emp_workJoindt: '2019-07-15',
+  row_version: '100',
+};
+
+const edit = (changes: Partial<Employee>): Employee => ({ ...base, ...changes });
+
+describe('threeWayMerge', () => {
+  it('只有对方改动的字段自动采用对方值，并带上对方的版本号', () => {
+    const theirs = edit({ p_emp_phone: '13900000002', row_version: '101' });
+    const result = threeWayMerge(base, base, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(result.theirsApplied).toEqual(['p_emp_phone']);
+    expect(result.merged).toEqual(theirs);
+  });
+
+  it('只有我方改动的字段保留我方值', () => {
+    const mine = edit({ p_emp_degree: '硕士' });
+    const theirs = edit({ row_version: '101' });
+    const result = threeWayMerge(base, mine, theirs);
+    expect(result.conflicts).toEqual([]);
+    expect(result.theirsApplied).toEqual([]);
+    expect(result.merged).toEqual({ ...mine, row_version: '101' });
+  });
+
+  it('双方各改不同字段时合并两边的改动', () => {
+    const result = threeWayMerge(base, edit({ p_emp_degree: '硕士' }), edit({ Departmentid: 3, row_version: '101' }));
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toMatchObject({ p_emp_degree: '硕士', Departmentid: 3, row_version: '101' });
+  });
+
+  it('双方改成相同的值不算冲突', () => {
+    const result = threeWayMerge(base, edit({ P_emp_Status: '离职' }), edit({ P_emp_Status: '离职', row_version: '101' }));
+    expect(result.conflicts).toEqual([]);
+    expect(result.theirsApplied).toEqual([]);
+    expect(result.merged.P_emp_Status).toBe('离职');
+  });
+
+  it('双方把同一字段改成不同的值时列为冲突，暂时保留我方值', () => {
+    const result = threeWayMerge(base, edit({ p_emp_phone: '111' }), edit({ p_emp_phone: '222', row_version: '101' }));
+    expect(result.conflicts).toEqual([{ field: 'p_emp_phone', base: '13800000002', mine: '111', theirs: '222' }]);
+    expect(result.merged.p_emp_phone).toBe('111');
+  });
+
+  it.each<[string, Partial<Employee>, Partial<Employee>]>([
+    ['日期带时间部分', { P_emp_workJoindt: '2019-07-15T00:00:00' }, {}],
+    ['空串与 null', { P_emp_leavedt: '' }, { P_emp_leavedt: null }],
+    ['部门编号数字与字符串', { Departmentid: '2' }, {}],
+  ])('规范化后相同的值不算改动：%s', (_label, theirsChanges, mineChanges) => {
+    const result = threeWayMerge(base, edit(mineChanges), edit({ ...theirsChanges, row_version: '101' }));
+    expect(result.conflicts).toEqual([]);
+    expect(result.theirsApplied).toEqual([]);
+  });
+
+  it('格式不同但规范化后相同的双方改动不算冲突', () => {
+    const result = threeWayMerge(
+      base,
+      edit({ P_emp_workJoindt: '2020-01-01' }),
+      edit({ P_emp_workJoindt: '2020-01-01T00:00:00', row_version: '101' })
+    );
+    expect(result.conflicts).toEqual([]);
+  });
+});
+
+describe('resolveConflicts', () => {
+  const mine = edit({ p_emp_phone: '111', employeename: '王小芳' });
+  const theirs = edit({ p_emp_phone: '222', employeename: '王芳芳', p_emp_degree: '硕士', row_version: '101' });
+  const result = threeWayMerge(base, mine, theirs);
+
+  it('按选择逐个落定冲突字段，未选择的保留我方值', () => {
+    const resolved = resolveConflicts(result, theirs, { p_emp_phone: 'theirs' });
+    expect(resolved).toMatchObject({ p_emp_phone: '222', employeename: '王小芳', p_emp_degree: '硕士', row_version: '101' });
+  });
+
+  it('不会改动非冲突字段', () => {
+    const resolved = resolveConflicts(result, theirs, { p_emp_phone: 'mine', employeename: 'mine', p_emp_degree: 'mine' });
+    expect(resolved).toEqual(result.merged);
+  });
+});
@@ -0,0 +1,62 @@
+import { AUDIT_FIELD_LABELS, AuditedField, normalizeAuditValue } from './employeeAudit';
+import { Employee } from '../../types';
+
+/**
+ * 保存冲突时的三方合并
+ * base：打开编辑器时读到的记录；mine：当前编辑器中的记录；theirs：库中最新的记录。
+ * 只有双方都改了同一字段且结果不同才算冲突，其余字段自动取改动的一方。
+ */
+
+export type MergeSide = 'mine' | 'theirs';
+
+export interface MergeConflict {
+  field: AuditedField;
+  base: string | null;
+  mine: string | null;
+  theirs: string | null;
+}
+
+export interface MergeResult {
+  merged: Employee;
+  conflicts: MergeConflict[];
+  // 对方修改、我方未动，已自动采用对方值的字段
+  theirsApplied: AuditedField[];
+}
+
+const MERGE_FIELDS = Object.keys(AUDIT_FIELD_LABELS) as AuditedField[];
+
+export function threeWayMerge(base: Employee, mine: Employee, theirs: Employee): MergeResult {
+  const merged: Employee = { ...mine, row_version: theirs.row_version };
+  const conflicts: MergeConflict[] = [];
+  const theirsApplied: AuditedField[] = [];
+
+  MERGE_FIELDS.forEach((field) => {
+    const b = normalizeAuditValue(field, base[field]);
+    const m = normalizeAuditValue(field, mine[field]);
+    const t = normalizeAuditValue(field, theirs[field]);
+    const mineChanged = m !== b;
+    const theirsChanged = t !== b;
+
+    if (theirsChanged && !mineChanged) {
+      Object.assign(merged, { [field]: theirs[field] });
+      theirsApplied.push(field);
+    } else if (theirsChanged && mineChanged && m !== t) {
+      conflicts.push({ field, base: b, mine: m, theirs: t });
+    }
+  });
+
+  return { merged, conflicts, theirsApplied };
+}
+
+/** 按用户的选择落定冲突字段 */
+export function resolveConflicts(
+  result: MergeResult,
+  theirs: Employee,
+  choices: Partial<Record<AuditedField, MergeSide>>
+): Employee {
+  const resolved: Employee = { ...result.merged };
+  result.conflicts.forEach(({ field }) => {
+    if (choices[field] === 'theirs') Object.assign(resolved, { [field]: theirs[field] });
+  });
+  return resolved;
+}
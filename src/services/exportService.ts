@@ -0,0 +1,222 @@
+import * as XLSX from 'xlsx';
+import { maskValue } from './maskingPolicy';
+import { AIReport, ChartConfig, Employee } from '../../types';
+
+// --- Helpers ---
+
+const timestamp = () => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}_${pad(d.getHours())}${pad(d.getMinutes())}`;
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const escapeHtml = (text: unknown) =>
+  String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// --- Employee List ---
+
+export type EmployeeExportFormat = 'csv' | 'xlsx';
+
+export interface EmployeeExportOptions {
+  format: EmployeeExportFormat;
+  getDeptName: (id: string | number) => string;
+  // 按脱敏策略判断该单元格是否需要遮挡；只有用户在列表中手动显示过的记录才导出明文
+  isMasked: (empNo: string, field: string) => boolean;
+  fileName?: string;
+}
+
+const toDate = (value: unknown) => (value ? String(value).split('T')[0] : '');
+
+const EXPORT_COLUMNS: Array<{ label: string; field: string; value: (emp: Employee, opts: EmployeeExportOptions) => string }> = [
+  { label: '工号', field: 'P_emp_no', value: (emp) => emp.P_emp_no },
+  { label: '姓名', field: 'employeename', value: (emp) => emp.employeename },
+  { label: '部门', field: 'Departmentid', value: (emp, opts) => opts.getDeptName(emp.Departmentid) },
+  { label: '性别', field: 'P_emp_sex', value: (emp) => emp.P_emp_sex },
+  { label: '联系电话', field: 'p_emp_phone', value: (emp) => emp.p_emp_phone },
+  { label: '员工状态', field: 'P_emp_Status', value: (emp) => emp.P_emp_Status },
+  { label: '学历', field: 'p_emp_degree', value: (emp) => emp.p_emp_degree },
+  { label: '入职日期', field: 'P_emp_workJoindt', value: (emp) => toDate(emp.P_emp_workJoindt) },
+  { label: '离职日期', field: 'P_emp_leavedt', value: (emp) => toDate(emp.P_emp_leavedt) },
+];
+
+const cellValue = (column: (typeof EXPORT_COLUMNS)[number], emp: Employee, opts: EmployeeExportOptions) => {
+  const value = column.value(emp, opts) ?? '';
+  return opts.isMasked(emp.P_emp_no, column.field) ? maskValue(column.field, value) : value;
+};
+
+// CSV 没有单元格类型，以 = + - @（或制表符、回车）开头的内容会被 Excel 当作公式执行，前面加 ' 强制按文本显示
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const escapeFormula = (value: string) => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+/**
+ * 导出员工列表为 CSV / XLSX
+ * 所有单元格按文本写出，避免 Excel 把工号、电话的前导零吃掉；CSV 的数据单元格转义公式前缀，防止公式注入
+ * （XLSX 单元格已标记为文本类型，不会被当作公式，转义反而会把 ' 显示出来）
+ */
+export function exportEmployees(rows: Employee[], options: EmployeeExportOptions) {
+  const matrix = [
+    EXPORT_COLUMNS.map((c) => c.label),
+    ...rows.map((emp) =>
+      EXPORT_COLUMNS.map((c) => {
+        const value = cellValue(c, emp, options);
+        return options.format === 'csv' ? escapeFormula(value) : value;
+      })
+    ),
+  ];
+  const sheet = XLSX.utils.aoa_to_sheet(matrix);
+  const baseName = options.fileName || `员工档案_${timestamp()}`;
+
+  if (options.format === 'csv') {
+    // 带 BOM，Excel 双击打开时才能正确识别 UTF-8 中文
+    const csv = XLSX.utils.sheet_to_csv(sheet);
+    downloadBlob(new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  Object.keys(sheet).forEach((addr) => {
+    if (!addr.startsWith('!')) sheet[addr].t = 's';
+  });
+  sheet['!cols'] = EXPORT_COLUMNS.map((c) => ({ wch: c.label === '部门' ? 16 : 12 }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, '员工档案');
+  XLSX.writeFile(workbook, `${baseName}.xlsx`);
+}
+
+// --- AI Report ---
+
+export type ChartData = number | Array<{ name: string; value: number }>;
+
+export interface ReportExportOptions {
+  mode: 'print' | 'html';
+  query: string;
+  employeeCount: number;
+  aggregate: (chart: ChartConfig) => ChartData;
+}
+
+const RISK_LABEL: Record<string, string> = { high: '高', medium: '中', low: '低' };
+
+const renderChart = (chart: ChartConfig, data: ChartData) => {
+  const head = `<h3>${escapeHtml(chart.title)}</h3>`;
+  const insight = chart.insight ? `<p class="muted">${escapeHtml(chart.insight)}</p>` : '';
+  if (typeof data === 'number') {
+    return `<div class="card stat">${head}<div class="big">${data}</div>${insight}</div>`;
+  }
+
+  const total = data.reduce((sum, d) => sum + d.value, 0) || 1;
+  const max = Math.max(...data.map((d) => d.value), 1);
+  const bars = data
+    .slice(0, 12)
+    .map(
+      (d) => `<tr>
+        <td class="label">${escapeHtml(d.name)}</td>
+        <td class="bar"><span style="width:${((d.value / max) * 100).toFixed(1)}%"></span></td>
+        <td class="num">${d.value}</td>
+        <td class="num muted">${((d.value / total) * 100).toFixed(1)}%</td>
+      </tr>`
+    )
+    .join('');
+  return `<div class="card">${head}<table class="chart">${bars}</table>${insight}</div>`;
+};
+
+const REPORT_STYLE = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #0f172a; margin: 0; padding: 32px 40px; }
+  header { border-bottom: 2px solid #4f46e5; padding-bottom: 12px; margin-bottom: 24px; }
+  h1 { font-size: 22px; margin: 0 0 6px; }
+  h2 { font-size: 16px; margin: 28px 0 12px; color: #4338ca; }
+  h3 { font-size: 14px; margin: 0 0 8px; }
+  .muted { color: #64748b; font-size: 12px; }
+  .summary { font-size: 15px; line-height: 1.8; background: #eef2ff; padding: 16px 20px; border-radius: 8px; }
+  .grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px; }
+  .card { border: 1px solid #e2e8f0; border-radius: 8px; padding: 14px 16px; break-inside: avoid; }
+  .stat .big { font-size: 32px; font-weight: 700; color: #4f46e5; }
+  table.chart { width: 100%; border-collapse: collapse; font-size: 12px; }
+  table.chart td { padding: 3px 4px; }
+  td.label { width: 30%; white-space: nowrap; }
+  td.bar span { display: block; height: 10px; background: #6366f1; border-radius: 2px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  td.num { width: 48px; text-align: right; font-variant-numeric: tabular-nums; }
+  ul { padding-left: 18px; margin: 0; }
+  li { margin-bottom: 10px; line-height: 1.6; }
+  .level { display: inline-block; font-size: 11px; padding: 1px 8px; border-radius: 10px; margin-right: 6px; }
+  .level.high { background: #fee2e2; color: #b91c1c; }
+  .level.medium { background: #fef3c7; color: #b45309; }
+  .level.low { background: #dcfce7; color: #15803d; }
+  footer { margin-top: 32px; font-size: 11px; color: #94a3b8; text-align: center; }
+  @page { size: A4; margin: 14mm; }
+  @media print { body { padding: 0; } }
+`;
+
+export function buildReportHtml(report: AIReport, options: Omit<ReportExportOptions, 'mode'>) {
+  const generatedAt = new Date().toLocaleString('zh-CN');
+  const charts = (report.charts || []).map((chart) => renderChart(chart, options.aggregate(chart))).join('');
+  const risks = (report.risks || [])
+    .map(
+      (r) =>
+        `<li><span class="level ${escapeHtml(r.level)}">${RISK_LABEL[r.level] || escapeHtml(r.level)}风险</span><strong>${escapeHtml(r.title)}</strong><div class="muted">${escapeHtml(r.desc)}</div></li>`
+    )
+    .join('');
+  const suggestions = (report.suggestions || [])
+    .map(
+      (s) =>
+        `<li><strong>${escapeHtml(s.title)}</strong>${s.priority ? ` <span class="muted">(${escapeHtml(s.priority)})</span>` : ''}<div>${escapeHtml(s.action)}</div></li>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<title>人力数据分析报告 - ${escapeHtml(options.query)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<header>
+  <h1>人力数据分析报告</h1>
+  <div class="muted">分析主题：${escapeHtml(options.query)} · 样本：${options.employeeCount} 人 · 生成时间：${escapeHtml(generatedAt)}</div>
+</header>
+<h2>核心摘要</h2>
+<div class="summary">${escapeHtml(report.summary)}</div>
+${charts ? `<h2>数据图表</h2><div class="grid">${charts}</div>` : ''}
+${risks ? `<h2>风险提示</h2><ul>${risks}</ul>` : ''}
+${suggestions ? `<h2>行动建议</h2><ul>${suggestions}</ul>` : ''}
+${report.prediction ? `<h2>趋势预测</h2><p>${escapeHtml(report.prediction)}</p>` : ''}
+<footer>本报告由 AI 根据内部人事数据自动生成，仅供内部会议参考</footer>
+</body>
+</html>`;
+}
+
+/**
+ * 导出 AI 分析报告
+ * print：在新窗口中打开并调起打印（可选择「另存为 PDF」）；html：直接下载独立的 HTML 文件
+ */
+export function exportReport(report: AIReport, options: ReportExportOptions) {
+  const html = buildReportHtml(report, options);
+
+  if (options.mode === 'html') {
+    downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `分析报告_${timestamp()}.html`);
+    return;
+  }
+
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('浏览器拦截了弹出窗口，请允许弹窗后重试');
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  setTimeout(() => win.print(), 300);
+}
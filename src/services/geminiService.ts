@@ -1,18 +1,48 @@
 import { GoogleGenAI } from "@google/genai";
 import { supabase } from "./supabaseClient";
 import { dataService } from "./dataService";
+import { ChatMessage, VLMessage, isAbortError } from "./aliyunService";
+import { AiProxyFeature, aiProxyHeaders, aiProxyUrl, fetchAiProxyStatus, toQuotaError } from "./aiProxy";
 
-// NOTE: In a real production app, ensure API_KEY is loaded safely from env
-// For this environment, we assume process.env.API_KEY is available.
-const apiKey = process.env.API_KEY || '';
+export const GEMINI_DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export interface GeminiStreamOptions {
+  signal?: AbortSignal;
+  // 要求模型直接输出 JSON（responseMimeType = application/json）
+  json?: boolean;
+  feature?: AiProxyFeature;
+}
 
 class GeminiService {
-  private ai: GoogleGenAI;
+  private model: Promise<string> | null = null;
 
-  constructor() {
-    this.ai = new GoogleGenAI({ apiKey });
+  /**
+   * 代理端 gemini_config 中配置的模型；密钥只在 ai-proxy 中使用
+   */
+  async getModel(): Promise<string> {
+    this.model ??= fetchAiProxyStatus()
+      .then((status) => {
+        if (!status.gemini.configured) throw new Error("系统配置缺失：代理端未配置 Gemini API Key (key: gemini_config)。请联系管理员。");
+        return status.gemini.model || GEMINI_DEFAULT_MODEL;
+      })
+      .catch((error) => {
+        this.model = null;
+        throw error;
+      });
+    return this.model;
   }
 
+  /**
+   * SDK 的 baseUrl 指向 ai-proxy，由代理替换成真实的 x-goog-api-key
+   * 每次调用都重新创建，保证携带的是最新的会话 token
+   */
+  private async getClient(feature?: AiProxyFeature): Promise<{ ai: GoogleGenAI; model: string }> {
+    const [model, headers] = await Promise.all([this.getModel(), aiProxyHeaders(feature)]);
+    const ai = new GoogleGenAI({ apiKey: 'ai-proxy', httpOptions: { baseUrl: aiProxyUrl('gemini'), headers } });
+    return { ai, model };
+  }
+
+  // 活动日志（首页调用次数）；token 用量与费用由 ai-proxy 记入 ai_usage_events
   private async logAiUsage(model: string) {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -25,15 +55,16 @@ class GeminiService {
     }
   }
 
-  async generateContent(prompt: string, model: string = 'gemini-2.5-flash') {
-    if (!apiKey) throw new Error("API Key not found");
-    
+  async generateContent(prompt: string, model?: string) {
+    const client = await this.getClient();
+    const modelName = model || client.model;
+
     try {
       // Log first
-      await this.logAiUsage(model);
-      
-      const response = await this.ai.models.generateContent({
-        model: model,
+      await this.logAiUsage(modelName);
+
+      const response = await client.ai.models.generateContent({
+        model: modelName,
         contents: prompt,
       });
       return response.text;
@@ -43,15 +74,103 @@ class GeminiService {
     }
   }
 
-  async generateStream(prompt: string, model: string = 'gemini-2.5-flash') {
-     if (!apiKey) throw new Error("API Key not found");
+  async generateStream(prompt: string, model?: string) {
+    const client = await this.getClient();
+    const modelName = model || client.model;
+
+    await this.logAiUsage(modelName);
+    return await client.ai.models.generateContentStream({
+      model: modelName,
+      contents: prompt
+    });
+  }
+
+  /**
+   * 多轮对话（流式）
+   * system 消息合并为 systemInstruction，其余按 user / model 角色发送
+   */
+  async chatStream(messages: ChatMessage[], onChunk: (text: string) => void, options: GeminiStreamOptions = {}) {
+    const { ai, model } = await this.getClient(options.feature);
+    this.logAiUsage(model);
+
+    const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+    const contents = messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+    // 只有系统提示时（如报表生成），把它当作用户输入发送
+    const systemOnly = !contents.length;
+    if (systemOnly) contents.push({ role: 'user', parts: [{ text: system }] });
+
+    await this.consume(
+      ai.models.generateContentStream({
+        model,
+        contents,
+        config: {
+          abortSignal: options.signal,
+          systemInstruction: systemOnly || !system ? undefined : system,
+          responseMimeType: options.json ? 'application/json' : undefined,
+        },
+      }),
+      onChunk,
+      options.signal
+    );
+  }
+
+  /**
+   * 图片理解（流式）
+   * 图片以公开 URL 传入，先下载再以 inlineData 发送
+   */
+  async visionStream(messages: VLMessage[], onChunk: (text: string) => void, signal?: AbortSignal) {
+    const { ai, model } = await this.getClient('vision');
+    this.logAiUsage(model);
+
+    const contents = await Promise.all(
+      messages.map(async (m) => ({
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: await Promise.all(
+          m.content.map(async (part) => (part.image ? { inlineData: await this.fetchInlineImage(part.image, signal) } : { text: part.text || '' }))
+        ),
+      }))
+    );
+
+    await this.consume(ai.models.generateContentStream({ model, contents, config: { abortSignal: signal } }), onChunk, signal);
+  }
+
+  // --- Helper Methods ---
+
+  private async consume(
+    request: ReturnType<GoogleGenAI['models']['generateContentStream']>,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ) {
+    try {
+      for await (const chunk of await request) {
+        if (signal?.aborted) break;
+        if (chunk.text) onChunk(chunk.text);
+      }
+      // SDK 中止后可能只是停止迭代，统一以 AbortError 结束，便于调用方区分
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      console.error("Gemini API Error:", error);
+      // 代理的额度错误被 SDK 包进了 ApiError.message
+      throw toQuotaError(error?.status, error?.message) || error;
+    }
+  }
 
-     await this.logAiUsage(model);
-     return await this.ai.models.generateContentStream({
-       model: model,
-       contents: prompt
-     });
+  private async fetchInlineImage(url: string, signal?: AbortSignal) {
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`图片下载失败 (${response.status})`);
+    const blob = await response.blob();
+    const data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+    return { mimeType: blob.type || 'image/jpeg', data };
   }
 }
 
-export const geminiService = new GeminiService();
\ No newline at end of file
+export const geminiService = new GeminiService();
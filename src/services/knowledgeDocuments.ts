@@ -0,0 +1,144 @@
+import { supabase } from './supabaseClient';
+import { dataService } from './dataService';
+import { MAX_DOCUMENT_BYTES, detectDocumentKind, extractDocumentText } from './documentParser';
+import { IndexedPassage, chunkText, getDocumentIndexer } from './documentIndexer';
+import { KbDocument } from '../../types';
+
+/**
+ * 知识库文档上传与索引流程
+ * uploading（写入存储桶）→ parsing（提取文本）→ indexing（分片写入索引器）→ ready / failed
+ * 每一步都会更新 kb_documents.status，界面通过 onUpdate 回调实时展示；失败原因保存在 error 字段，可重新索引。
+ */
+
+const BUCKET = 'kb-documents';
+
+type DocumentListener = (doc: KbDocument) => void;
+
+async function updateDocument(id: string, patch: Partial<KbDocument>): Promise<KbDocument> {
+  const { data, error } = await supabase
+    .from('kb_documents')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating document:', error);
+    throw new Error(`更新文档状态失败：${error.message}`);
+  }
+  return data as KbDocument;
+}
+
+async function runIndexing(doc: KbDocument, file: File, onUpdate: DocumentListener): Promise<KbDocument> {
+  let current = doc;
+  const step = async (patch: Partial<KbDocument>) => {
+    current = await updateDocument(doc.id, patch);
+    onUpdate(current);
+  };
+
+  try {
+    await step({ status: 'parsing', error: null });
+    const chunks = chunkText(await extractDocumentText(file));
+
+    const indexer = await getDocumentIndexer();
+    await step({ status: 'indexing', indexer: indexer.name });
+    await indexer.index(current, chunks);
+
+    await step({ status: 'ready', chunk_count: chunks.length });
+  } catch (err: any) {
+    console.error('Document indexing failed:', err);
+    await step({ status: 'failed', error: err?.message || String(err) }).catch(() => undefined);
+  }
+  return current;
+}
+
+export const knowledgeDocuments = {
+  async list(): Promise<KbDocument[]> {
+    const { data, error } = await supabase.from('kb_documents').select('*').order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching documents:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  /** 上传并索引；校验不通过时直接抛错，之后的失败记录在文档状态中 */
+  async upload(file: File, onUpdate: DocumentListener = () => undefined): Promise<KbDocument> {
+    const kind = detectDocumentKind(file.name);
+    if (!kind) throw new Error('仅支持 PDF、DOCX、Markdown 文件');
+    if (file.size > MAX_DOCUMENT_BYTES) throw new Error(`文件超过 ${MAX_DOCUMENT_BYTES / 1024 / 1024}MB 上限`);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('登录已失效，请重新登录');
+
+    // 存储路径不使用原文件名，避免中文和特殊字符带来的转义问题
+    const extension = file.name.split('.').pop()!.toLowerCase();
+    const storagePath = `${user.id}/${Date.now()}_${Math.random().toString(36).substring(2, 8)}.${extension}`;
+
+    const { data, error } = await supabase
+      .from('kb_documents')
+      .insert({ file_name: file.name, storage_path: storagePath, mime_type: file.type, size_bytes: file.size, status: 'uploading' })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating document:', error);
+      throw new Error(error.code === '42501' ? '没有上传知识库文档的权限' : `创建文档记录失败：${error.message}`);
+    }
+    let doc = data as KbDocument;
+    onUpdate(doc);
+
+    const { error: uploadError } = await supabase.storage.from(BUCKET).upload(storagePath, file, { contentType: file.type || undefined });
+    if (uploadError) {
+      console.error('Document upload failed:', uploadError);
+      doc = await updateDocument(doc.id, { status: 'failed', error: `上传失败：${uploadError.message}` });
+      onUpdate(doc);
+      return doc;
+    }
+
+    dataService.logActivity(user.id, 'kb_document_upload', file.name, { documentId: doc.id, size: file.size });
+    return runIndexing(doc, file, onUpdate);
+  },
+
+  /** 从存储桶取回原文件，重新解析并覆盖索引 */
+  async reindex(doc: KbDocument, onUpdate: DocumentListener = () => undefined): Promise<KbDocument> {
+    const { data, error } = await supabase.storage.from(BUCKET).download(doc.storage_path);
+    if (error || !data) {
+      console.error('Document download failed:', error);
+      const failed = await updateDocument(doc.id, { status: 'failed', error: '原文件不存在或无法下载，请删除后重新上传' });
+      onUpdate(failed);
+      return failed;
+    }
+    return runIndexing(doc, new File([data], doc.file_name, { type: doc.mime_type }), onUpdate);
+  },
+
+  async remove(doc: KbDocument) {
+    if (doc.indexer) {
+      const indexer = await getDocumentIndexer();
+      await indexer.remove(doc.id).catch((err) => console.warn('Failed to remove index:', err));
+    }
+    const { error: storageError } = await supabase.storage.from(BUCKET).remove([doc.storage_path]);
+    if (storageError) console.warn('Failed to delete document file:', storageError);
+
+    const { error } = await supabase.from('kb_documents').delete().eq('id', doc.id);
+    if (error) {
+      console.error('Error deleting document:', error);
+      throw new Error(`删除失败：${error.message}`);
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) dataService.logActivity(user.id, 'kb_document_delete', doc.file_name, { documentId: doc.id });
+  },
+
+  /** 检索已就绪文档中与问题相关的片段；检索失败时返回空数组，不影响正常问答 */
+  async search(query: string, limit: number = 4): Promise<IndexedPassage[]> {
+    try {
+      const indexer = await getDocumentIndexer();
+      return await indexer.search(query, limit);
+    } catch (err) {
+      console.warn('Document search failed:', err);
+      return [];
+    }
+  },
+};
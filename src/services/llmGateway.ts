@@ -0,0 +1,185 @@
+import { supabase } from './supabaseClient';
+import { ALIYUN_MODELS, ChatMessage, ChatStreamOptions, VLMessage, aliyunService } from './aliyunService';
+import { GEMINI_DEFAULT_MODEL, geminiService } from './geminiService';
+
+/**
+ * 大模型网关
+ * 知识库问答、图像识别、智能报表只依赖 LlmProvider，具体用哪家模型由 system_settings.llm_providers 按功能配置，
+ * 切换模型时不需要改动 KnowledgeBase / AIRecon / ToolsPlatform。
+ */
+
+export const LLM_SETTING_KEY = 'llm_providers';
+
+export type LlmFeature = 'knowledge' | 'vision' | 'report';
+export type LlmProviderName = 'dashscope' | 'gemini' | 'mock';
+
+export const LLM_FEATURES: LlmFeature[] = ['knowledge', 'vision', 'report'];
+export const LLM_FEATURE_LABELS: Record<LlmFeature, string> = { knowledge: '知识库问答', vision: '图像识别', report: '智能报表' };
+export const LLM_PROVIDER_NAMES: LlmProviderName[] = ['dashscope', 'gemini', 'mock'];
+
+export interface LlmRequestOptions extends ChatStreamOptions {
+  // 要求输出 JSON；支持的模型会切换到结构化输出模式
+  json?: boolean;
+}
+
+export interface LlmJsonOptions extends LlmRequestOptions {
+  // 可选：同时接收原始输出片段（用于展示生成过程）
+  onChunk?: (text: string) => void;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  /** 该功能实际调用的模型，用于调用日志和回答反馈 */
+  model(feature: LlmFeature): string;
+  chatStream(messages: ChatMessage[], onChunk: (text: string) => void, options?: LlmRequestOptions): Promise<void>;
+  vision(messages: VLMessage[], onChunk: (text: string) => void, options?: LlmRequestOptions): Promise<void>;
+  /** 一次性返回完整回答 */
+  chat(messages: ChatMessage[], options?: LlmRequestOptions): Promise<string>;
+  /** 返回解析后的 JSON；输出中没有合法 JSON 时抛错 */
+  json<T>(messages: ChatMessage[], options?: LlmJsonOptions): Promise<T>;
+}
+
+type StreamingProvider = Pick<LlmProvider, 'name' | 'model' | 'chatStream' | 'vision'>;
+
+/** 从模型输出中取出 JSON：兼容 ```json 代码块和前后夹杂说明文字的情况 */
+export function extractJson<T>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.search(/[{[]/);
+  const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+  if (start < 0 || end < start) throw new Error('模型未返回 JSON 结果。');
+  try {
+    return JSON.parse(body.slice(start, end + 1)) as T;
+  } catch (err: any) {
+    throw new Error(`模型返回的 JSON 无法解析：${err?.message || String(err)}`);
+  }
+}
+
+/** chat / json 都基于流式接口实现，各家只需提供 chatStream 和 vision */
+const withHelpers = (base: StreamingProvider): LlmProvider => ({
+  ...base,
+  async chat(messages, options = {}) {
+    let text = '';
+    await base.chatStream(messages, (chunk) => (text += chunk), options);
+    return text;
+  },
+  async json<T>(messages: ChatMessage[], { onChunk, ...options }: LlmJsonOptions = {}) {
+    let text = '';
+    await base.chatStream(
+      messages,
+      (chunk) => {
+        text += chunk;
+        onChunk?.(chunk);
+      },
+      { ...options, json: true }
+    );
+    if (!text) throw new Error('模型返回内容为空。');
+    return extractJson<T>(text);
+  },
+});
+
+// --- Providers ---
+
+/** 阿里云 DashScope：文本走百炼应用（带知识库检索），图片走 Qwen-VL */
+export const dashscopeProvider = withHelpers({
+  name: 'dashscope',
+  model: (feature) => (feature === 'vision' ? ALIYUN_MODELS.vision : ALIYUN_MODELS.knowledge),
+  chatStream: (messages, onChunk, options = {}) => aliyunService.chatStream(messages, onChunk, options),
+  vision: (messages, onChunk, options = {}) => aliyunService.chatVLStream(messages, onChunk, options.signal),
+});
+
+let geminiModel: string | null = null;
+
+/** Google Gemini：没有百炼知识库，知识库问答只能依靠本地上传文档的检索片段 */
+export const geminiProvider = withHelpers({
+  name: 'gemini',
+  model: () => geminiModel || GEMINI_DEFAULT_MODEL,
+  chatStream: (messages, onChunk, options = {}) => geminiService.chatStream(messages, onChunk, options),
+  vision: (messages, onChunk, options = {}) => geminiService.visionStream(messages, onChunk, options.signal),
+});
+
+const abortError = () => {
+  const error = new Error('Aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+/** 按字逐段输出，模拟流式响应；可中止 */
+async function streamText(text: string, onChunk: (text: string) => void, signal?: AbortSignal) {
+  for (let i = 0; i < text.length; i += 4) {
+    if (signal?.aborted) throw abortError();
+    onChunk(text.slice(i, i + 4));
+    await new Promise((r) => setTimeout(r, 20));
+  }
+}
+
+const lastUserText = (messages: ChatMessage[]) =>
+  [...messages].reverse().find((m) => m.role === 'user')?.content || messages[messages.length - 1]?.content || '';
+
+/**
+ * 本地模拟：不发起任何网络请求，用于离线开发和界面联调
+ * 回答内容固定可预期，JSON 请求返回只含 summary 的对象
+ */
+export const mockProvider = withHelpers({
+  name: 'mock',
+  model: () => 'mock',
+  chatStream: (messages, onChunk, options = {}) =>
+    streamText(
+      options.json
+        ? JSON.stringify({ summary: '模拟模式：未调用真实模型，以下为占位结果。' })
+        : `**模拟回答**\n\n已收到问题：「${lastUserText(messages).slice(0, 200)}」\n\n当前为本地模拟模式，未调用真实模型。`,
+      onChunk,
+      options.signal
+    ),
+  vision: (messages, onChunk, options = {}) => {
+    const prompt = messages.flatMap((m) => m.content).find((p) => p.text)?.text || '';
+    return streamText(`**模拟识别结果**\n\n提示词：${prompt.slice(0, 200)}\n\n当前为本地模拟模式，未分析图片内容。`, onChunk, options.signal);
+  },
+});
+
+// --- Selection ---
+
+const PROVIDERS: Record<LlmProviderName, LlmProvider> = {
+  dashscope: dashscopeProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// 选择结果缓存一分钟：本页保存配置后立即失效，其他已打开的页面最多一分钟后切换
+const SELECTION_TTL_MS = 60 * 1000;
+
+let cachedSelection: { loadedAt: number; selection: Promise<Partial<Record<LlmFeature, LlmProviderName>>> } | null = null;
+
+/** 丢弃缓存的提供方选择，下次调用时重新读取 system_settings */
+export const resetLlmProviderSelection = () => {
+  cachedSelection = null;
+};
+
+const loadSelection = async () => {
+  const { data, error } = await supabase.from('system_settings').select('value').eq('key', LLM_SETTING_KEY).maybeSingle();
+  if (error) console.error('Error fetching llm provider setting:', error);
+  const selection = (data?.value || {}) as Partial<Record<LlmFeature, LlmProviderName>>;
+  // 模型名由代理返回，选用 Gemini 时预先取一次
+  if (Object.values(selection).includes('gemini')) {
+    geminiModel = await geminiService.getModel().catch(() => null);
+  }
+  return selection;
+};
+
+// 每次调用都带上功能名，ai-proxy 据此校验角色
+const bindFeature = (provider: LlmProvider, feature: LlmFeature): LlmProvider => ({
+  ...provider,
+  chatStream: (messages, onChunk, options = {}) => provider.chatStream(messages, onChunk, { feature, ...options }),
+  vision: (messages, onChunk, options = {}) => provider.vision(messages, onChunk, { feature, ...options }),
+  chat: (messages, options = {}) => provider.chat(messages, { feature, ...options }),
+  json: (messages, options = {}) => provider.json(messages, { feature, ...options }),
+});
+
+/** 按 system_settings 选择该功能使用的模型提供方，未配置或配置无效时使用 DashScope */
+export async function getLlmProvider(feature: LlmFeature): Promise<LlmProvider> {
+  if (!cachedSelection || Date.now() - cachedSelection.loadedAt > SELECTION_TTL_MS) {
+    cachedSelection = { loadedAt: Date.now(), selection: loadSelection() };
+  }
+  const name = (await cachedSelection.selection)[feature];
+  return bindFeature((name && PROVIDERS[name]) || PROVIDERS.dashscope, feature);
+}
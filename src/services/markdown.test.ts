@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { MdInline, parseInline, parseMarkdown, safeHref, stripHtml, texToText } from './markdown';
+
+// 行内节点中的全部链接地址
+const hrefsOf = (nodes: MdInline[]): string[] =>
+  nodes.flatMap((n) => ('children' in n ? [...(n.type === 'link' ? [n.href] : []), ...hrefsOf(n.children)] : []));
+
+describe('流式输出', () => {
+  it('未闭合的代码围栏按代码块渲染，不吞掉后续内容', () => {
+    expect(parseMarkdown('说明：\n```ts\nconst a = 1;\n**不是粗体**', true)).toEqual([
+      { type: 'paragraph', text: '说明：' },
+      { type: 'code', lang: 'ts', code: 'const a = 1;\n**不是粗体**', closed: false },
+    ]);
+  });
+
+  it('闭合后标记为 closed', () => {
+    const [, code] = parseMarkdown('说明：\n```\nx\n```\n后文');
+    expect(code).toEqual({ type: 'code', lang: '', code: 'x', closed: true });
+  });
+
+  it('只有表头时先不渲染，分隔行到达后渲染为表格', () => {
+    expect(parseMarkdown('结果如下：\n\n| 部门 | 人数 |', true)).toEqual([{ type: 'paragraph', text: '结果如下：' }]);
+    expect(parseMarkdown('| 部门 | 人数 |\n| :-- | --: |\n| 研发部 | 12 |\n| 生产部', true)).toEqual([
+      { type: 'table', header: ['部门', '人数'], align: ['left', 'right'], rows: [['研发部', '12'], ['生产部', '']] },
+    ]);
+  });
+
+  it('输出结束后的单独一行竖线按段落处理', () => {
+    expect(parseMarkdown('| 部门 | 人数 |')).toEqual([{ type: 'paragraph', text: '| 部门 | 人数 |' }]);
+  });
+
+  it('最后一段中未闭合的标记延伸到末尾，刚出现的半个标记先不显示', () => {
+    expect(parseInline('共 **12', true)).toEqual([{ type: 'text', text: '共 ' }, { type: 'strong', children: [{ type: 'text', text: '12' }] }]);
+    expect(parseInline('共 12 人*', true)).toEqual([{ type: 'text', text: '共 12 人' }]);
+    expect(parseInline('共 **12')).toEqual([{ type: 'text', text: '共 **12' }]);
+  });
+});
+
+describe('列表', () => {
+  it('嵌套列表解析为子块', () => {
+    const [list] = parseMarkdown('- 研发部\n  - 前端\n  - 后端\n- 生产部\n\n1. 第一\n2. 第二');
+    expect(list).toEqual({
+      type: 'list',
+      ordered: false,
+      start: 1,
+      items: [
+        {
+          text: '研发部',
+          checked: null,
+          children: [
+            {
+              type: 'list',
+              ordered: false,
+              start: 1,
+              items: [
+                { text: '前端', checked: null, children: [] },
+                { text: '后端', checked: null, children: [] },
+              ],
+            },
+          ],
+        },
+        { text: '生产部', checked: null, children: [] },
+      ],
+    });
+  });
+
+  it('有序列表保留起始序号，任务列表识别勾选状态', () => {
+    const [ordered, tasks] = parseMarkdown('3. 第三\n4. 第四\n\n- [x] 已完成\n- [ ] 未完成');
+    expect(ordered).toMatchObject({ type: 'list', ordered: true, start: 3 });
+    expect(tasks).toMatchObject({ items: [{ text: '已完成', checked: true }, { text: '未完成', checked: false }] });
+  });
+});
+
+describe('安全', () => {
+  it.each([
+    ['javascript:alert(1)', null],
+    [' JavaScript:alert(1)', null],
+    ['data:text/html;base64,PHNjcmlwdD4=', null],
+    ['/relative', null],
+    ['https://example.com/a', 'https://example.com/a'],
+    ['mailto:hr@example.com', 'mailto:hr@example.com'],
+  ])('safeHref(%s)', (url, expected) => {
+    expect(safeHref(url)).toBe(expected);
+  });
+
+  it('不安全的链接只保留文字', () => {
+    const nodes = parseInline('[点我](javascript:alert(1)) 和 [官网](https://example.com)');
+    expect(hrefsOf(nodes)).toEqual(['https://example.com']);
+    expect(nodes[0]).toEqual({ type: 'text', text: '点我 和 ' });
+  });
+
+  it('去除正文中的 script 和 HTML 标签，<br> 转换行', () => {
+    expect(stripHtml('你好<script>alert(1)</script><b>世界</b><br/>再见')).toBe('你好世界\n再见');
+    expect(stripHtml('<img src=x onerror=alert(1)>图片')).toBe('图片');
+    // 流式输出中尚未闭合的 script 也要去掉
+    expect(stripHtml('文字<script>alert(')).toBe('文字');
+  });
+
+  it('代码块和行内代码中的标签保持原样', () => {
+    expect(stripHtml('```html\n<script>alert(1)</script>\n```')).toBe('```html\n<script>alert(1)</script>\n```');
+    expect(stripHtml('用 `<br>` 换行')).toBe('用 `<br>` 换行');
+    const [, code] = parseMarkdown('示例：\n```html\n<script>x()</script>\n```');
+    expect(code).toMatchObject({ type: 'code', code: '<script>x()</script>' });
+  });
+});
+
+describe('公式', () => {
+  it('金额不会被当作公式', () => {
+    expect(parseInline('费用在 $5 和 $10 之间')).toEqual([{ type: 'text', text: '费用在 $5 和 $10 之间' }]);
+    expect(parseInline('单价 $5$10')).toEqual([{ type: 'text', text: '单价 $5$10' }]);
+  });
+
+  it('识别行内和块级公式', () => {
+    expect(parseInline('面积 $\\pi r^2$ 平方米')).toEqual([
+      { type: 'text', text: '面积 ' },
+      { type: 'math', tex: '\\pi r^2' },
+      { type: 'text', text: ' 平方米' },
+    ]);
+    expect(parseMarkdown('$$\n\\frac{a}{b}\n$$')).toEqual([{ type: 'math', tex: '\\frac{a}{b}' }]);
+    expect(texToText('\\frac{a}{b} \\times x^{2}')).toBe('(a)/(b) × x²');
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * 流式安全的 Markdown 解析
+ * 只解析成结构化数据，由 MarkdownContent 组件渲染为 React 元素，不使用 innerHTML，
+ * 原始 HTML 标签在解析前被去除（<br> 转为换行），链接只保留 http / https / mailto。
+ *
+ * 流式输出时文本随时可能停在半个语法上，约定如下：
+ * - 未闭合的代码围栏按代码块渲染（closed = false），不会把后续正文吞成普通段落
+ * - 最后一行只有表头、分隔行还没到时先不渲染，避免表格出现前闪一下竖线
+ * - 最后一段中未闭合的 ** / * / ` 等标记视为延伸到末尾（由 parseInline 的 open 参数控制）
+ */
+
+export type MdAlign = 'left' | 'center' | 'right' | null;
+
+export interface MdListItem {
+  text: string;
+  // 任务列表 [ ] / [x]；普通列表项为 null
+  checked: boolean | null;
+  children: MdBlock[];
+}
+
+export type MdBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'code'; lang: string; code: string; closed: boolean }
+  | { type: 'math'; tex: string }
+  | { type: 'list'; ordered: boolean; start: number; items: MdListItem[] }
+  | { type: 'table'; header: string[]; align: MdAlign[]; rows: string[][] }
+  | { type: 'quote'; blocks: MdBlock[] }
+  | { type: 'hr' };
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'math'; tex: string }
+  | { type: 'link'; href: string; children: MdInline[] }
+  | { type: 'break' };
+
+// --- Sanitizing ---
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+export const safeHref = (url: string): string | null => (SAFE_URL.test(url.trim()) ? url.trim() : null);
+
+/** 去除原始 HTML：<br> 转换行，其余标签只保留内部文字；代码块和行内代码保持原样 */
+export function stripHtml(text: string): string {
+  return text
+    .split(/(```[\s\S]*?(?:```|$)|~~~[\s\S]*?(?:~~~|$)|`[^`\n]+`)/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? part
+        : part
+            .replace(/<br\s*\/?>/gi, '\n')
+            .replace(/<(script|style)[^>]*>[\s\S]*?(<\/\1>|$)/gi, '')
+            .replace(/<\/?[a-z][\w-]*(\s[^<>]*)?\/?>/gi, '')
+    )
+    .join('');
+}
+
+// --- Block Parsing ---
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-*:?\s*)*\|?\s*$/;
+
+const isTableRow = (line: string) => line.includes('|') && line.trim() !== '';
+const indentOf = (line: string) => line.replace(/\t/g, '    ').match(/^\s*/)![0].length;
+
+export const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): MdAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const startsBlock = (line: string, next: string | undefined) =>
+  FENCE.test(line) ||
+  HEADING.test(line) ||
+  HR.test(line) ||
+  QUOTE.test(line) ||
+  LIST_ITEM.test(line) ||
+  /^\s*\$\$/.test(line) ||
+  (isTableRow(line) && next !== undefined && next.includes('-') && TABLE_SEPARATOR.test(next));
+
+function parseLines(lines: string[], streaming: boolean): MdBlock[] {
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // 代码围栏
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        if (lines[i].trim().startsWith(marker[0].repeat(marker.length)) && !lines[i].trim().replace(/[`~]/g, '')) {
+          closed = true;
+          i++;
+          break;
+        }
+        body.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: body.join('\n'), closed });
+      continue;
+    }
+
+    // 块级公式 $$ ... $$
+    if (/^\s*\$\$/.test(line)) {
+      const first = line.trim().slice(2);
+      if (first.endsWith('$$') && first.length >= 2) {
+        blocks.push({ type: 'math', tex: first.slice(0, -2).trim() });
+        i++;
+        continue;
+      }
+      const body = [first];
+      i++;
+      while (i < lines.length && !lines[i].includes('$$')) body.push(lines[i++]);
+      if (i < lines.length) body.push(lines[i++].split('$$')[0]);
+      blocks.push({ type: 'math', tex: body.join('\n').trim() });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && lines[i].trim() && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ''));
+      blocks.push({ type: 'quote', blocks: parseLines(body, streaming && i >= lines.length) });
+      continue;
+    }
+
+    // 表格：表头 + 分隔行 + 数据行
+    if (isTableRow(line) && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && isTableRow(lines[i])) {
+        const cells = splitTableRow(lines[i++]);
+        rows.push(header.map((_, c) => cells[c] ?? ''));
+      }
+      blocks.push({ type: 'table', header, align, rows });
+      continue;
+    }
+    // 流式输出中的表头，等分隔行到达后再渲染
+    if (streaming && i === lines.length - 1 && line.trim().startsWith('|')) break;
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const baseIndent = indentOf(line);
+      const ordered = /\d/.test(item[2]);
+      const list: MdBlock & { type: 'list' } = { type: 'list', ordered, start: ordered ? parseInt(item[2], 10) : 1, items: [] };
+      let current: { text: string[]; checked: boolean | null; childLines: string[] } | null = null;
+      const flush = () => {
+        if (!current) return;
+        list.items.push({
+          text: current.text.join('\n'),
+          checked: current.checked,
+          children: parseLines(current.childLines, streaming && i >= lines.length),
+        });
+      };
+
+      while (i < lines.length) {
+        const l = lines[i];
+        const m = l.match(LIST_ITEM);
+        if (m && indentOf(l) <= baseIndent + 1 && /\d/.test(m[2]) === ordered) {
+          flush();
+          const task = m[3].match(/^\[([ xX])\]\s+(.*)$/);
+          current = { text: [task ? task[2] : m[3]], checked: task ? task[1] !== ' ' : null, childLines: [] };
+          i++;
+          continue;
+        }
+        if (!l.trim()) {
+          // 空行后仍是缩进内容或同级列表项时，列表继续
+          const next = lines[i + 1];
+          if (next !== undefined && (indentOf(next) > baseIndent || (LIST_ITEM.test(next) && indentOf(next) <= baseIndent + 1))) {
+            if (current) current.childLines.push('');
+            i++;
+            continue;
+          }
+          break;
+        }
+        if (indentOf(l) > baseIndent && current) {
+          const strip = Math.min(indentOf(l), baseIndent + 2);
+          if (current.childLines.length || LIST_ITEM.test(l)) current.childLines.push(l.replace(/\t/g, '    ').slice(strip));
+          else current.text.push(l.trim());
+          i++;
+          continue;
+        }
+        // 紧跟在列表项后的普通文字视为该项的延续
+        if (current && !startsBlock(l, lines[i + 1]) && !current.childLines.length) {
+          current.text.push(l.trim());
+          i++;
+          continue;
+        }
+        break;
+      }
+      flush();
+      blocks.push(list);
+      continue;
+    }
+
+    // 段落：直到空行或其他块开始
+    const body = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i], lines[i + 1])) {
+      if (streaming && i === lines.length - 1 && lines[i].trim().startsWith('|')) break;
+      body.push(lines[i++]);
+    }
+    blocks.push({ type: 'paragraph', text: body.join('\n') });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(text: string, streaming: boolean = false): MdBlock[] {
+  return parseLines(stripHtml(text.replace(/\r\n?/g, '\n')).split('\n'), streaming);
+}
+
+// --- Inline Parsing ---
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~$>]/;
+
+// 在 text 中从 from 开始查找闭合标记；要求闭合标记前不是空白
+const findCloser = (text: string, marker: string, from: number) => {
+  let at = text.indexOf(marker, from);
+  while (at >= 0) {
+    const single = marker.length === 1 && text[at + 1] === marker;
+    if (at > from && !/\s/.test(text[at - 1]) && !single) return at;
+    at = text.indexOf(marker, at + (single ? 2 : 1));
+  }
+  return -1;
+};
+
+const pushText = (out: MdInline[], text: string) => {
+  if (!text) return;
+  const last = out[out.length - 1];
+  if (last?.type === 'text') last.text += text;
+  else out.push({ type: 'text', text });
+};
+
+/**
+ * 行内解析；open 为 true 时（流式输出的最后一段）未闭合的标记延伸到末尾
+ */
+export function parseInline(text: string, open: boolean = false): MdInline[] {
+  const out: MdInline[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === '\\' && ESCAPABLE.test(text[i + 1] || '')) {
+      pushText(out, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      out.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end >= 0 || open) {
+        out.push({ type: 'code', text: text.slice(i + ticks.length, end >= 0 ? end : text.length).trim() });
+        i = end >= 0 ? end + ticks.length : text.length;
+        continue;
+      }
+    }
+
+    // 行内公式：$x$ 要求 $ 内侧不是空白，且闭合 $ 后不是数字（避免把 $5 和 $10 当成公式）
+    if (ch === '$' && text[i + 1] !== '$' && text[i + 1] && !/\s/.test(text[i + 1])) {
+      const match = rest.match(/^\$([^$\n]*?[^\s$\\])\$(?!\d)/);
+      if (match) {
+        out.push({ type: 'math', tex: match[1] });
+        i += match[0].length;
+        continue;
+      }
+    }
+    if (rest.startsWith('\\(')) {
+      const end = text.indexOf('\\)', i + 2);
+      if (end >= 0) {
+        out.push({ type: 'math', tex: text.slice(i + 2, end).trim() });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+      const match = rest.match(/^!?\[([^\]\n]*)\]\(\s*((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\s*\)/);
+      if (match) {
+        const href = safeHref(match[2]);
+        const label = match[1] || match[2];
+        if (href) out.push({ type: 'link', href, children: parseInline(label) });
+        else pushText(out, label);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    const url = rest.match(/^https?:\/\/[^\s<>"'）)\]，。]+/);
+    if (url && (i === 0 || !/[\w/]/.test(text[i - 1]))) {
+      out.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+      i += url[0].length;
+      continue;
+    }
+
+    const marker = rest.startsWith('**') ? '**' : rest.startsWith('__') ? '__' : rest.startsWith('~~') ? '~~' : ch === '*' ? '*' : null;
+    if (marker && text[i + marker.length] && !/\s/.test(text[i + marker.length])) {
+      const end = findCloser(text, marker, i + marker.length);
+      if (end >= 0 || open) {
+        const inner = text.slice(i + marker.length, end >= 0 ? end : text.length);
+        const type = marker === '~~' ? 'del' : marker === '*' ? 'em' : 'strong';
+        out.push({ type, children: parseInline(inner, open && end < 0) });
+        i = end >= 0 ? end + marker.length : text.length;
+        continue;
+      }
+    }
+    // 流式输出末尾刚出现的半个标记先不显示
+    if (open && marker && i + marker.length === text.length) break;
+
+    pushText(out, ch);
+    i++;
+  }
+
+  return out;
+}
+
+// --- Math Fallback ---
+
+const TEX_SYMBOLS: Record<string, string> = {
+  times: '×', div: '÷', cdot: '·', pm: '±', mp: '∓', le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠',
+  approx: '≈', equiv: '≡', infty: '∞', sum: '∑', prod: '∏', int: '∫', partial: '∂', to: '→', rightarrow: '→',
+  leftarrow: '←', Rightarrow: '⇒', in: '∈', notin: '∉', subset: '⊂', cup: '∪', cap: '∩', forall: '∀', exists: '∃',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', Delta: 'Δ', epsilon: 'ε', theta: 'θ', lambda: 'λ', mu: 'μ',
+  pi: 'π', rho: 'ρ', sigma: 'σ', Sigma: 'Σ', tau: 'τ', phi: 'φ', omega: 'ω', Omega: 'Ω', percent: '%', quad: ' ',
+  qquad: '  ', ldots: '…', cdots: '⋯', circ: '°', degree: '°',
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹', '+': '⁺', '-': '⁻', n: 'ⁿ',
+};
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉', '+': '₊', '-': '₋',
+};
+
+const mapScript = (value: string, table: Record<string, string>, fallback: string) =>
+  [...value].every((c) => table[c]) ? [...value].map((c) => table[c]).join('') : `${fallback}(${value})`;
+
+/**
+ * 不引入 LaTeX 渲染库，把常见写法转换成可读的纯文本
+ * 例如 \frac{a}{b} → (a)/(b)，x^{2} → x²，\sqrt{x} → √(x)；无法识别的命令保留原文
+ */
+export function texToText(tex: string): string {
+  let out = tex;
+  // 由内向外展开嵌套的 \frac / \sqrt
+  for (let guard = 0; guard < 10 && /\\(d?frac|sqrt)\{/.test(out); guard++) {
+    out = out
+      .replace(/\\d?frac\{([^{}]*)\}\{([^{}]*)\}/g, (_, a, b) => `(${a})/(${b})`)
+      .replace(/\\sqrt\{([^{}]*)\}/g, '√($1)');
+  }
+  return out
+    .replace(/\\(text|mathrm|mathbf|operatorname)\{([^{}]*)\}/g, '$2')
+    .replace(/\\left|\\right/g, '')
+    .replace(/\^\{([^{}]*)\}|\^(\w)/g, (_, a, b) => mapScript(a ?? b, SUPERSCRIPTS, '^'))
+    .replace(/_\{([^{}]*)\}|_(\w)/g, (_, a, b) => mapScript(a ?? b, SUBSCRIPTS, '_'))
+    .replace(/\\([a-zA-Z]+)/g, (match, name) => TEX_SYMBOLS[name] ?? match)
+    .replace(/\\([%$&#_{}])/g, '$1')
+    .replace(/\\\\/g, '\n');
+}
@@ -0,0 +1,96 @@
+import { supabase } from './supabaseClient';
+import { AppRole, ROLE_LABELS, normalizeRole } from './permissions';
+import { Employee, Profile } from '../../types';
+
+/**
+ * 员工敏感字段脱敏策略
+ * 配置保存在 system_settings（key: employee_masking_policy），作用于列表、编辑器、导出和 AI 分析提示词。
+ * 注意这里只是展示层脱敏，明文仍会随查询结果返回到前端；真正不可见的字段应在网关侧裁剪。
+ */
+
+export const MASKING_SETTING_KEY = 'employee_masking_policy';
+
+// 支持脱敏的字段；配置中出现的其他字段会被忽略
+export const MASKABLE_FIELDS = {
+  p_emp_phone: '联系电话',
+  p_emp_degree: '学历',
+  P_emp_workJoindt: '入职日期',
+  P_emp_leavedt: '离职日期',
+  remark: '备注',
+} as const;
+
+export type MaskableField = keyof typeof MASKABLE_FIELDS;
+
+export interface MaskingPolicy {
+  sensitiveFields: MaskableField[];
+  // 可以查看明文的角色
+  unmaskRoles: AppRole[];
+  // 查看明文时是否写入操作日志
+  logReveals: boolean;
+}
+
+export const DEFAULT_MASKING_POLICY: MaskingPolicy = {
+  sensitiveFields: ['p_emp_phone'],
+  unmaskRoles: ['admin', 'hr_manager'],
+  logReveals: true,
+};
+
+const isMaskableField = (field: string): field is MaskableField => field in MASKABLE_FIELDS;
+
+/** 容错解析配置值，缺失的项使用默认值 */
+export function normalizeMaskingPolicy(value: any): MaskingPolicy {
+  if (!value || typeof value !== 'object') return DEFAULT_MASKING_POLICY;
+  const fields = Array.isArray(value.sensitiveFields)
+    ? value.sensitiveFields.filter((f: unknown) => typeof f === 'string' && isMaskableField(f))
+    : DEFAULT_MASKING_POLICY.sensitiveFields;
+  const roles = Array.isArray(value.unmaskRoles)
+    ? value.unmaskRoles.filter((r: unknown): r is AppRole => typeof r === 'string' && r in ROLE_LABELS)
+    : DEFAULT_MASKING_POLICY.unmaskRoles;
+  return {
+    sensitiveFields: fields,
+    unmaskRoles: roles,
+    logReveals: typeof value.logReveals === 'boolean' ? value.logReveals : DEFAULT_MASKING_POLICY.logReveals,
+  };
+}
+
+/** 读取策略；读取失败时按默认策略处理（宁可多遮挡） */
+export async function fetchMaskingPolicy(): Promise<MaskingPolicy> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('key', MASKING_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) console.error('Failed to fetch masking policy:', error);
+  return normalizeMaskingPolicy(data?.value);
+}
+
+// --- Helpers ---
+
+export const isSensitiveField = (policy: MaskingPolicy, field: string) =>
+  isMaskableField(field) && policy.sensitiveFields.includes(field);
+
+export const canUnmask = (policy: MaskingPolicy, profile: Profile | null) =>
+  !!profile && policy.unmaskRoles.includes(normalizeRole(profile.role));
+
+// 11 位手机号保留前 3 后 4 位
+export const maskPhone = (phone?: string | null) => (phone ? phone.replace(/(\d{3})\d{4}(\d{4})/, '$1****$2') : '');
+
+/** 按字段类型生成遮挡后的文本；空值保持为空 */
+export function maskValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '';
+  const text = String(value);
+  if (field === 'p_emp_phone') return maskPhone(text);
+  // 日期只保留年份
+  if (field === 'P_emp_workJoindt' || field === 'P_emp_leavedt') return `${text.slice(0, 4)}-**-**`;
+  return text.length <= 1 ? '*' : `${text[0]}${'*'.repeat(Math.min(text.length - 1, 6))}`;
+}
+
+/** 返回去掉敏感字段的数据字典，用于发送给大模型 */
+export function redactSchema(schema: Record<string, string>, policy: MaskingPolicy) {
+  return Object.fromEntries(Object.entries(schema).filter(([col]) => !isSensitiveField(policy, col)));
+}
+
+/** 员工记录中有值的敏感字段 */
+export const sensitiveFieldsOf = (emp: Employee, policy: MaskingPolicy) =>
+  policy.sensitiveFields.filter((field) => emp[field] !== null && emp[field] !== undefined && emp[field] !== '');
@@ -0,0 +1,231 @@
+import type { SqlParams, SqlQuery, SqlStatementName, SqlTransport } from './sqlGateway';
+import { SqlCaller, checkStatementPermission } from './permissions';
+import { Department, Employee } from '../../types';
+
+/**
+ * 离线 SQL 网关
+ * 在内存中模拟 p_employeetab / P_DepartmentTab，按语句名分发到对应处理函数，
+ * 用于本地开发和脱离 ERP 服务器的联调（app_configs.api_url 配置为 mock://local 即可启用）。
+ */
+
+export interface MockSqlTables {
+  employees: Employee[];
+  departments: Department[];
+}
+
+interface MockResponse {
+  data: any[];
+  affected: number;
+  error?: string;
+  code?: 'Forbidden';
+  total?: number;
+  nextCursor?: string | null;
+}
+
+type MockHandlers = {
+  [K in SqlStatementName]: (tables: MockSqlTables, params: SqlParams<K>) => MockResponse;
+};
+
+const SEED_DEPARTMENTS: Department[] = [
+  { Departmentid: 1, departmentname: '总经办' },
+  { Departmentid: 2, departmentname: '研发部' },
+  { Departmentid: 3, departmentname: '生产部' },
+  { Departmentid: 4, departmentname: '品质部' },
+  { Departmentid: 5, departmentname: '人事行政部' },
+];
+
+const SEED_EMPLOYEES: Employee[] = [
+  { P_emp_no: 'LS0001', employeename: '张伟', Departmentid: 1, P_emp_sex: '男', p_emp_phone: '13800000001', P_emp_Status: '正式', p_emp_degree: '硕士', P_emp_workJoindt: '2016-03-01' },
+  { P_emp_no: 'LS0002', employeename: '王芳', Departmentid: 2, P_emp_sex: '女', p_emp_phone: '13800000002', P_emp_Status: '正式', p_emp_degree: '本科', P_emp_workJoindt: '2019-07-15' },
+  { P_emp_no: 'LS0003', employeename: '李强', Departmentid: 2, P_emp_sex: '男', p_emp_phone: '13800000003', P_emp_Status: '试用', p_emp_degree: '本科', P_emp_workJoindt: '2024-05-20' },
+  { P_emp_no: 'LS0004', employeename: '刘洋', Departmentid: 3, P_emp_sex: '男', p_emp_phone: '', P_emp_Status: '正式', p_emp_degree: '大专', P_emp_workJoindt: '2021-09-01' },
+  { P_emp_no: 'LS0005', employeename: '陈静', Departmentid: 3, P_emp_sex: '女', p_emp_phone: '13800000005', P_emp_Status: '正式', p_emp_degree: '', P_emp_workJoindt: '2022-02-10' },
+  { P_emp_no: 'LS0006', employeename: '杨磊', Departmentid: 4, P_emp_sex: '男', p_emp_phone: '13800000006', P_emp_Status: '离职', p_emp_degree: '本科', P_emp_workJoindt: '2020-11-30' },
+  { P_emp_no: 'LS0007', employeename: '赵敏', Departmentid: 5, P_emp_sex: '女', p_emp_phone: '13800000007', P_emp_Status: '正式', p_emp_degree: '本科', P_emp_workJoindt: '2023-04-03' },
+  { P_emp_no: 'LS0008', employeename: '黄勇', Departmentid: 3, P_emp_sex: '男', p_emp_phone: '13800000008', P_emp_Status: '试用', p_emp_degree: '高中', P_emp_workJoindt: '2025-01-06' },
+];
+
+const clone = <T>(rows: T[]): T[] => rows.map((row) => ({ ...row }));
+
+const compareValues = (a: any, b: any) => {
+  const na = Number(a);
+  const nb = Number(b);
+  if (a !== '' && b !== '' && !isNaN(na) && !isNaN(nb)) return na - nb;
+  return String(a ?? '').localeCompare(String(b ?? ''), 'zh-CN');
+};
+
+// 模拟 rowversion：全库单调递增
+let versionCounter = 100;
+const nextVersion = () => String(++versionCounter);
+
+const versionMatches = (row: Employee, expected?: string | null) =>
+  expected === null || expected === undefined || String(row.row_version ?? '') === String(expected);
+
+const handlers: MockHandlers = {
+  'employee.list': (tables) => ({ data: clone(tables.employees), affected: tables.employees.length }),
+
+  'employee.page': (tables, params) => {
+    const keyword = params.keyword.trim();
+    const filtered = tables.employees.filter((emp) => {
+      const matchKeyword = !keyword || emp.employeename?.includes(keyword) || emp.P_emp_no?.includes(keyword);
+      const matchDept = params.departmentId === null || Number(emp.Departmentid) === params.departmentId;
+      return matchKeyword && matchDept;
+    });
+
+    const direction = params.sortDir === 'desc' ? -1 : 1;
+    filtered.sort(
+      (a, b) =>
+        compareValues(a[params.sortBy], b[params.sortBy]) * direction || a.P_emp_no.localeCompare(b.P_emp_no)
+    );
+
+    // 离线网关直接用偏移量充当游标
+    const offset = Number(params.cursor) || 0;
+    const page = filtered.slice(offset, offset + params.limit);
+    const nextOffset = offset + page.length;
+
+    return {
+      data: clone(page),
+      affected: page.length,
+      total: filtered.length,
+      nextCursor: nextOffset < filtered.length ? String(nextOffset) : null,
+    };
+  },
+
+  'employee.stats': (tables) => {
+    const emps = tables.employees;
+    const filled = (field: keyof Employee) => emps.filter((e) => !!e[field]).length;
+    const joinYears = emps.map((e) => Number(String(e.P_emp_workJoindt || '').slice(0, 4))).filter((y) => y > 0);
+    const latestJoinYear = joinYears.length ? Math.max(...joinYears) : null;
+    return {
+      data: [
+        {
+          total: emps.length,
+          departments: new Set(emps.map((e) => String(e.Departmentid))).size,
+          phoneFilled: filled('p_emp_phone'),
+          degreeFilled: filled('p_emp_degree'),
+          joinDateFilled: filled('P_emp_workJoindt'),
+          latestJoinYear,
+          latestJoinYearHires: joinYears.filter((y) => y === latestJoinYear).length,
+        },
+      ],
+      affected: 1,
+    };
+  },
+
+  'department.list': (tables) => ({ data: clone(tables.departments), affected: tables.departments.length }),
+
+  'employee.update': (tables, { expectedVersion, ...params }) => {
+    const index = tables.employees.findIndex((e) => e.P_emp_no === params.P_emp_no);
+    if (index === -1 || !versionMatches(tables.employees[index], expectedVersion)) return { data: [], affected: 0 };
+    tables.employees[index] = { ...tables.employees[index], ...params, row_version: nextVersion() };
+    return { data: [{ row_version: tables.employees[index].row_version }], affected: 1 };
+  },
+
+  'employee.get': (tables, params) => {
+    const found = tables.employees.filter((e) => e.P_emp_no === params.P_emp_no);
+    return { data: clone(found), affected: found.length };
+  },
+
+  'employee.exists': (tables, params) => {
+    const found = tables.employees.filter((e) => e.P_emp_no === params.P_emp_no).map((e) => ({ P_emp_no: e.P_emp_no }));
+    return { data: found, affected: found.length };
+  },
+
+  'employee.create': (tables, params) => {
+    if (tables.employees.some((e) => e.P_emp_no === params.P_emp_no)) return { data: [], affected: 0 };
+    tables.employees.push({ ...params, row_version: nextVersion() });
+    return { data: [], affected: 1 };
+  },
+
+  'employee.patch': (tables, params) => {
+    const index = tables.employees.findIndex((e) => e.P_emp_no === params.P_emp_no);
+    if (index === -1 || !versionMatches(tables.employees[index], params.expectedVersion)) return { data: [], affected: 0 };
+    tables.employees[index] = { ...tables.employees[index], ...params.fields, row_version: nextVersion() };
+    return { data: [{ row_version: tables.employees[index].row_version }], affected: 1 };
+  },
+
+  'employee.upsert': (tables, { P_emp_no, fields, expectedVersion }) => {
+    const index = tables.employees.findIndex((e) => e.P_emp_no === P_emp_no);
+    if (index === -1) {
+      if (expectedVersion !== null) return { data: [], affected: 0 };
+      tables.employees.push({
+        P_emp_no,
+        P_emp_sex: '',
+        p_emp_phone: '',
+        P_emp_Status: '试用',
+        p_emp_degree: '',
+        P_emp_workJoindt: '',
+        ...fields,
+        row_version: nextVersion(),
+      });
+    } else {
+      if (expectedVersion === null || !versionMatches(tables.employees[index], expectedVersion)) {
+        return { data: [], affected: 0 };
+      }
+      tables.employees[index] = { ...tables.employees[index], ...fields, row_version: nextVersion() };
+    }
+    return { data: [], affected: 1 };
+  },
+};
+
+const inScope = (dept: unknown, scope: number) => Number(dept) === scope;
+
+const forbidden = (error: string): MockResponse => ({ data: [], affected: 0, error, code: 'Forbidden' });
+
+/**
+ * 模拟网关侧的部门隔离：部门经理的读语句只返回本部门数据，
+ * 写语句的目标行和写入后的部门都必须属于本部门，否则按越权拒绝（不与版本冲突的 affected = 0 混淆）
+ */
+function runScoped(tables: MockSqlTables, query: SqlQuery, scope: number): MockResponse {
+  const params: any = query.params;
+  const scopedTables: MockSqlTables = {
+    employees: tables.employees.filter((e) => inScope(e.Departmentid, scope)),
+    departments: tables.departments.filter((d) => inScope(d.Departmentid, scope)),
+  };
+
+  switch (query.statement) {
+    case 'employee.page':
+      return handlers['employee.page'](scopedTables, { ...params, departmentId: scope });
+    case 'employee.list':
+    case 'employee.stats':
+    case 'employee.get':
+    case 'employee.exists':
+    case 'department.list':
+      return (handlers[query.statement] as (t: MockSqlTables, p: unknown) => MockResponse)(scopedTables, params);
+    case 'employee.update':
+    case 'employee.patch': {
+      const target = tables.employees.find((e) => e.P_emp_no === params.P_emp_no);
+      const nextDept = query.statement === 'employee.patch' ? params.fields.Departmentid : params.Departmentid;
+      if (target && !inScope(target.Departmentid, scope)) return forbidden(`无权修改本部门以外的员工 ${params.P_emp_no}`);
+      if (nextDept !== undefined && !inScope(nextDept, scope)) return forbidden('不能把员工调到本部门以外');
+      break;
+    }
+    default:
+      break;
+  }
+  return (handlers[query.statement] as (t: MockSqlTables, p: unknown) => MockResponse)(tables, params);
+}
+
+export function createMockSqlTransport(seed?: Partial<MockSqlTables>): SqlTransport {
+  const tables: MockSqlTables = {
+    employees: clone(seed?.employees ?? SEED_EMPLOYEES).map((e) => ({ ...e, row_version: e.row_version ?? nextVersion() })),
+    departments: clone(seed?.departments ?? SEED_DEPARTMENTS),
+  };
+
+  return async (query: SqlQuery, caller?: SqlCaller) => {
+    const handler = handlers[query.statement] as (t: MockSqlTables, p: unknown) => MockResponse;
+    if (!handler) throw new Error(`未知的 SQL 语句: ${query.statement}`);
+    if (query.params === null || typeof query.params !== 'object') {
+      throw new Error(`参数格式无效: ${query.statement}`);
+    }
+    if (caller) {
+      // 与真实网关一致：越权语句直接以 error 响应；写语句按目标行写入前的值判断是否办理离职
+      const empNo = (query.params as { P_emp_no?: unknown }).P_emp_no;
+      const current = tables.employees.find((e) => e.P_emp_no === empNo) ?? null;
+      const denied = checkStatementPermission(caller, query, current);
+      if (denied) return forbidden(denied);
+      if (caller.departmentId !== null) return runScoped(tables, query, caller.departmentId);
+    }
+    return handler(tables, query.params);
+  };
+}
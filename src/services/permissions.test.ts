@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AppRole, SqlCaller, checkStatementPermission, getDepartmentScope, toSqlCaller } from './permissions';
+import type { SqlQuery } from './sqlGateway';
+import { Employee, Profile } from '../../types';
+
+const callerOf = (role: AppRole, departmentId: number | null = null): SqlCaller => ({ role, departmentId });
+
+const departed: Employee = {
+  P_emp_no: 'LS0006',
+  employeename: '杨磊',
+  Departmentid: 4,
+  P_emp_sex: '男',
+  p_emp_phone: '13800000006',
+  P_emp_Status: '离职',
+  p_emp_degree: '本科',
+  P_emp_workJoindt: '2020-11-30',
+  P_emp_leavedt: '2025-06-30',
+};
+
+const active: Employee = { ...departed, P_emp_no: 'LS0002', P_emp_Status: '正式', P_emp_leavedt: null };
+
+// employee.update 与编辑器一致，总是带上整行
+const updateOf = (emp: Employee, changes: Partial<Employee> = {}): SqlQuery => ({
+  statement: 'employee.update',
+  params: {
+    P_emp_no: emp.P_emp_no,
+    employeename: emp.employeename,
+    Departmentid: Number(emp.Departmentid),
+    P_emp_sex: emp.P_emp_sex,
+    p_emp_phone: emp.p_emp_phone,
+    P_emp_Status: emp.P_emp_Status,
+    p_emp_degree: emp.p_emp_degree,
+    P_emp_workJoindt: emp.P_emp_workJoindt,
+    ...changes,
+    expectedVersion: null,
+  } as any,
+});
+
+const patchOf = (emp: Employee, fields: Record<string, unknown>): SqlQuery => ({
+  statement: 'employee.patch',
+  params: { P_emp_no: emp.P_emp_no, fields },
+});
+
+describe('checkStatementPermission', () => {
+  it.each<[AppRole, SqlQuery['statement'], boolean]>([
+    ['admin', 'employee.upsert', true],
+    ['hr_manager', 'employee.create', true],
+    ['dept_manager', 'employee.page', true],
+    ['dept_manager', 'employee.update', true],
+    ['dept_manager', 'employee.create', false],
+    ['dept_manager', 'employee.upsert', false],
+    ['viewer', 'employee.page', false],
+    ['viewer', 'department.list', false],
+  ])('%s 执行 %s：%s', (role, statement, allowed) => {
+    const denied = checkStatementPermission(callerOf(role, role === 'dept_manager' ? 4 : null), {
+      statement,
+      params: {},
+    } as SqlQuery);
+    expect(denied === null).toBe(allowed);
+  });
+
+  it('部门经理可以修改已离职员工的其他字段', () => {
+    const caller = callerOf('dept_manager', 4);
+    expect(checkStatementPermission(caller, updateOf(departed, { p_emp_phone: '13900000000' }), departed)).toBeNull();
+    expect(checkStatementPermission(caller, patchOf(departed, { p_emp_phone: '13900000000' }), departed)).toBeNull();
+    // 离职日期只是格式不同（带时间部分）不算修改
+    expect(checkStatementPermission(caller, patchOf(departed, { P_emp_leavedt: '2025-06-30T00:00:00' }), departed)).toBeNull();
+  });
+
+  it('部门经理不能办理离职或改动离职日期', () => {
+    const caller = callerOf('dept_manager', 4);
+    const cases: Array<[SqlQuery, Employee | null]> = [
+      [updateOf(active, { P_emp_Status: '离职' }), active],
+      [patchOf(active, { P_emp_Status: '离职', P_emp_leavedt: '2026-10-19' }), active],
+      [patchOf(departed, { P_emp_leavedt: '2026-01-01' }), departed],
+      [patchOf(departed, { P_emp_leavedt: '' }), departed],
+      [patchOf(active, { P_emp_Status: '离职' }), null],
+    ];
+    for (const [query, current] of cases) {
+      expect(checkStatementPermission(caller, query, current)).toMatch('无权办理员工离职');
+    }
+  });
+
+  it('人事经理可以办理离职', () => {
+    expect(checkStatementPermission(callerOf('hr_manager'), patchOf(active, { P_emp_Status: '离职' }), active)).toBeNull();
+  });
+});
+
+describe('toSqlCaller', () => {
+  const profile = (role: Profile['role'], department_id: Profile['department_id']) => ({ role, department_id }) as Profile;
+
+  it('只有部门经理带部门范围，未配置部门时匹配不到任何员工', () => {
+    expect(toSqlCaller(profile('dept_manager', '3'))).toEqual({ role: 'dept_manager', departmentId: 3 });
+    expect(getDepartmentScope(profile('dept_manager', null))).toBe(-1);
+    expect(toSqlCaller(profile('hr_manager', 3))).toEqual({ role: 'hr_manager', departmentId: null });
+    expect(toSqlCaller(profile('user', null))).toEqual({ role: 'viewer', departmentId: null });
+    expect(toSqlCaller(null).role).toBe('viewer');
+  });
+});
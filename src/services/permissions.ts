@@ -0,0 +1,144 @@
+import type { SqlQuery, SqlStatementName } from './sqlGateway';
+import { normalizeAuditValue } from './employeeAudit';
+import { Employee, Profile, UserRole } from '../../types';
+
+/**
+ * 角色权限矩阵
+ * 前端用它决定显示哪些入口和按钮；SQL 网关与 Supabase RLS 按同一套矩阵再校验一次，
+ * 前端隐藏按钮只是体验层面的限制，不能替代服务端校验。
+ */
+
+export type AppRole = Exclude<UserRole, 'user'>;
+
+export type Permission =
+  | 'view:knowledge'
+  | 'view:tools'
+  | 'view:vision'
+  | 'view:admin'
+  | 'knowledge:upload'
+  | 'usage:view_all'
+  | 'employee:read'
+  | 'employee:create'
+  | 'employee:edit'
+  | 'employee:archive'
+  | 'employee:bulk'
+  | 'employee:import'
+  | 'employee:export';
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  admin: '系统管理员',
+  hr_manager: '人事经理',
+  dept_manager: '部门经理',
+  viewer: '只读成员',
+};
+
+const ROLE_PERMISSIONS: Record<AppRole, Permission[]> = {
+  admin: [
+    'view:knowledge', 'view:tools', 'view:vision', 'view:admin', 'knowledge:upload', 'usage:view_all',
+    'employee:read', 'employee:create', 'employee:edit', 'employee:archive',
+    'employee:bulk', 'employee:import', 'employee:export',
+  ],
+  hr_manager: [
+    'view:knowledge', 'view:tools', 'view:vision', 'knowledge:upload',
+    'employee:read', 'employee:create', 'employee:edit', 'employee:archive',
+    'employee:bulk', 'employee:import', 'employee:export',
+  ],
+  // 部门经理：只能查看和编辑本部门员工，不能新增、导入或办理离职
+  dept_manager: ['view:knowledge', 'view:tools', 'view:vision', 'employee:read', 'employee:edit', 'employee:export'],
+  viewer: ['view:knowledge', 'view:vision'],
+};
+
+// currentView -> 所需权限；未列出的视图（如 dashboard）所有登录用户可见
+const VIEW_PERMISSIONS: Record<string, Permission> = {
+  knowledge: 'view:knowledge',
+  tools: 'view:tools',
+  vision: 'view:vision',
+  admin: 'view:admin',
+};
+
+/** 每条命名语句所需的权限，网关侧须保持一致 */
+export const STATEMENT_PERMISSIONS: Record<SqlStatementName, Permission> = {
+  'employee.list': 'employee:read',
+  'employee.page': 'employee:read',
+  'employee.stats': 'employee:read',
+  'employee.get': 'employee:read',
+  'employee.exists': 'employee:read',
+  'department.list': 'employee:read',
+  'employee.update': 'employee:edit',
+  'employee.patch': 'employee:edit',
+  'employee.create': 'employee:create',
+  'employee.upsert': 'employee:import',
+};
+
+export const normalizeRole = (role?: UserRole | null): AppRole => (!role || role === 'user' ? 'viewer' : role);
+
+export const can = (profile: Profile | null, permission: Permission) =>
+  !!profile && ROLE_PERMISSIONS[normalizeRole(profile.role)].includes(permission);
+
+export const canAccessView = (profile: Profile | null, view: string) => {
+  const required = VIEW_PERMISSIONS[view];
+  return !required || can(profile, required);
+};
+
+/** 部门经理返回其所属部门，其他角色返回 null（不限制） */
+export const getDepartmentScope = (profile: Profile | null): number | null => {
+  if (!profile || normalizeRole(profile.role) !== 'dept_manager') return null;
+  const id = Number(profile.department_id);
+  // 没有配置部门的部门经理不应看到任何员工
+  return Number.isFinite(id) && profile.department_id !== null ? id : -1;
+};
+
+// --- Gateway Enforcement ---
+
+/** 发起 SQL 语句的调用者；真实网关从 JWT 解析，离线网关由前端直接传入 */
+export interface SqlCaller {
+  role: AppRole;
+  departmentId: number | null;
+}
+
+export const toSqlCaller = (profile: Profile | null): SqlCaller => ({
+  role: normalizeRole(profile?.role),
+  departmentId: getDepartmentScope(profile),
+});
+
+// 会写入的员工列；读语句返回 null
+const writtenFields = (query: SqlQuery): Partial<Record<string, unknown>> | null => {
+  switch (query.statement) {
+    case 'employee.patch':
+      return (query.params as SqlQuery<'employee.patch'>['params']).fields;
+    case 'employee.upsert':
+      return (query.params as SqlQuery<'employee.upsert'>['params']).fields;
+    case 'employee.update':
+    case 'employee.create':
+      return query.params as Record<string, unknown>;
+    default:
+      return null;
+  }
+};
+
+// 与写入前的记录相比是否办理了离职：状态改为离职，或离职日期被写入、修改或清空；
+// employee.update 总是带上整行，已离职员工的其他字段照常可改
+const changesLeave = (fields: Partial<Record<string, unknown>>, current: Partial<Employee> | null) =>
+  (fields.P_emp_Status === '离职' && current?.P_emp_Status !== '离职') ||
+  ('P_emp_leavedt' in fields &&
+    normalizeAuditValue('P_emp_leavedt', fields.P_emp_leavedt) !== normalizeAuditValue('P_emp_leavedt', current?.P_emp_leavedt));
+
+/**
+ * 语句级权限校验，返回错误信息；通过时返回 null
+ * current 为写语句目标员工写入前的记录（新建时为 null），网关在校验前按工号读取；
+ * 任何写语句办理离职（含单条、批量和导入）都额外要求 employee:archive
+ */
+export function checkStatementPermission(
+  caller: SqlCaller,
+  query: SqlQuery,
+  current: Partial<Employee> | null = null
+): string | null {
+  const granted = ROLE_PERMISSIONS[caller.role];
+  const required: Permission[] = [STATEMENT_PERMISSIONS[query.statement]];
+  const fields = writtenFields(query);
+  if (fields && changesLeave(fields, current)) required.push('employee:archive');
+  const missing = required.find((p) => !granted.includes(p));
+  if (!missing) return null;
+  const action = missing === 'employee:archive' ? '办理员工离职' : `执行 ${query.statement}`;
+  return `当前角色（${ROLE_LABELS[caller.role]}）无权${action}`;
+}
@@ -0,0 +1,193 @@
+import { MASKABLE_FIELDS } from './maskingPolicy';
+import { ROLE_LABELS } from './permissions';
+import { LLM_FEATURES, LLM_FEATURE_LABELS, LLM_PROVIDER_NAMES, LLM_SETTING_KEY } from './llmGateway';
+import { GEMINI_DEFAULT_MODEL } from './geminiService';
+import { VOICE_KEYWORDS_SETTING_KEY } from './voiceKeywords';
+
+/**
+ * system_settings.value 的结构校验
+ * 只实现后台表单用得到的 JSON Schema 子集：type / required / properties / additionalProperties / items / enum / minLength / pattern / minimum。
+ * 未登记 schema 的 key 只要求是合法 JSON。
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  // false 禁止未登记的键；为 schema 时用于校验未登记键的值（如按 ID 索引的对象）
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean>;
+  minLength?: number;
+  pattern?: string;
+  minimum?: number;
+}
+
+const AI_QUOTA_LIMITS: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    requests: { type: 'integer', minimum: 0, description: '调用次数' },
+    tokens: { type: 'integer', minimum: 0, description: '输入 + 输出 token' },
+    cost: { type: 'number', minimum: 0, description: '估算费用（元）' },
+  },
+};
+
+const VOICE_KEYWORD_GROUP: JsonSchema = {
+  type: 'object',
+  required: ['words'],
+  additionalProperties: false,
+  properties: {
+    words: { type: 'array', items: { type: 'string', minLength: 1 }, description: '正式写法，至少一个' },
+    variants: { type: 'array', items: { type: 'string', minLength: 1 }, description: '拼音相同或相近的常见误识别写法' },
+  },
+};
+
+const AI_QUOTA_WINDOW: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: { daily: AI_QUOTA_LIMITS, monthly: AI_QUOTA_LIMITS },
+};
+
+export const SETTING_SCHEMAS: Record<string, JsonSchema> = {
+  aliyun_config: {
+    type: 'object',
+    required: ['apiKey', 'appId'],
+    properties: {
+      apiKey: { type: 'string', minLength: 1, description: 'DashScope API Key（仅 ai-proxy 读取；设置了函数 Secret DASHSCOPE_API_KEY 时以 Secret 为准）' },
+      appId: { type: 'string', minLength: 1, description: '百炼应用 ID（知识库）' },
+      visionModel: { type: 'string', minLength: 1, description: '图像识别允许使用的模型，默认 qwen-vl-max' },
+      asrModel: { type: 'string', minLength: 1, description: '语音转写允许使用的模型，默认 paraformer-2' },
+    },
+  },
+  employee_masking_policy: {
+    type: 'object',
+    required: ['sensitiveFields', 'unmaskRoles'],
+    additionalProperties: false,
+    properties: {
+      sensitiveFields: { type: 'array', items: { type: 'string', enum: Object.keys(MASKABLE_FIELDS) } },
+      unmaskRoles: { type: 'array', items: { type: 'string', enum: Object.keys(ROLE_LABELS) } },
+      logReveals: { type: 'boolean' },
+    },
+  },
+  gemini_config: {
+    type: 'object',
+    required: ['apiKey'],
+    properties: {
+      apiKey: { type: 'string', minLength: 1, description: 'Google AI Studio API Key（仅 ai-proxy 读取；设置了函数 Secret GEMINI_API_KEY 时以 Secret 为准）' },
+      model: { type: 'string', minLength: 1, description: `默认 ${GEMINI_DEFAULT_MODEL}` },
+    },
+  },
+  [LLM_SETTING_KEY]: {
+    type: 'object',
+    additionalProperties: false,
+    properties: Object.fromEntries(
+      LLM_FEATURES.map((feature) => [feature, { type: 'string', enum: LLM_PROVIDER_NAMES, description: LLM_FEATURE_LABELS[feature] }])
+    ),
+  },
+  ai_quota: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      user: { ...AI_QUOTA_WINDOW, description: '每位用户的额度' },
+      department: { ...AI_QUOTA_WINDOW, description: '每个部门（合计）的额度' },
+      userOverrides: { type: 'object', additionalProperties: AI_QUOTA_WINDOW, description: '按用户 ID 单独设置' },
+      departmentOverrides: { type: 'object', additionalProperties: AI_QUOTA_WINDOW, description: '按部门 ID 单独设置' },
+      prices: {
+        type: 'object',
+        description: '各模型每千 token 单价（元），覆盖 ai-proxy 内置单价',
+        additionalProperties: {
+          type: 'object',
+          required: ['input', 'output'],
+          properties: { input: { type: 'number', minimum: 0 }, output: { type: 'number', minimum: 0 } },
+        },
+      },
+    },
+  },
+  [VOICE_KEYWORDS_SETTING_KEY]: {
+    type: 'object',
+    required: ['wake', 'sleep'],
+    additionalProperties: false,
+    properties: {
+      wake: { ...VOICE_KEYWORD_GROUP, description: '唤醒词' },
+      sleep: { ...VOICE_KEYWORD_GROUP, description: '休眠词（唤醒状态下说出后回到待命）' },
+    },
+  },
+  kb_document_indexer: {
+    type: 'object',
+    required: ['provider'],
+    properties: {
+      provider: { type: 'string', enum: ['supabase', 'memory'], description: '知识库文档索引器' },
+    },
+  },
+};
+
+const typeOf = (value: unknown) => {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: NonNullable<JsonSchema['type']>) => {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+};
+
+/** 返回所有校验错误，path 使用 a.b[0] 形式；空数组表示通过 */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path} 应为 ${schema.type}，实际为 ${typeOf(value)}`];
+  }
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path} 只能是 ${schema.enum.join(' / ')} 之一`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} 不能为空`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${path} 格式不正确`);
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path} 不能小于 ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`)));
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>;
+    (schema.required || []).forEach((key) => {
+      if (obj[key] === undefined) errors.push(`${path}.${key} 为必填项`);
+    });
+    Object.entries(obj).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) errors.push(...validateJsonSchema(child, childSchema, `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key} 不是可识别的配置项`);
+      else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(child, schema.additionalProperties, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * 解析并校验后台表单中输入的配置值
+ * 返回解析后的值，或错误列表
+ */
+export function parseSettingValue(key: string, text: string): { value?: unknown; errors: string[] } {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err: any) {
+    return { errors: [`不是合法的 JSON：${err?.message || String(err)}`] };
+  }
+  const schema = SETTING_SCHEMAS[key];
+  return { value, errors: schema ? validateJsonSchema(value, schema) : [] };
+}
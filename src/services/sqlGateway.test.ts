@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SqlQuery, SqlTransport, createHttpTransport, createSqlGateway, isSqlPermissionError } from './sqlGateway';
+import { createMockSqlTransport } from './mockSqlGateway';
+import { AppRole, SqlCaller } from './permissions';
+
+// HTTP 传输只需要会话里的 access_token
+vi.mock('./supabaseClient', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: { access_token: 'jwt', user: { id: 'u1' } } } }) } },
+}));
+
+const gatewayOf = (respond: (query: SqlQuery) => unknown) => {
+  const sent: SqlQuery[] = [];
+  const transport: SqlTransport = async (query) => {
+    sent.push(query);
+    return respond(query);
+  };
+  return { gateway: createSqlGateway(transport), sent };
+};
+
+// 以指定角色访问一份新的离线网关（每个用例独立的内存表）
+const mockGatewayAs = (role: AppRole, departmentId: number | null = null) => {
+  const transport = createMockSqlTransport();
+  const caller: SqlCaller = { role, departmentId };
+  return createSqlGateway((query) => transport(query, caller));
+};
+
+const rejectionOf = (promise: Promise<unknown>) => promise.then(() => null, (err: Error) => err);
+
+describe('SqlGatewayClient', () => {
+  it('只发送语句名和绑定参数', async () => {
+    const { gateway, sent } = gatewayOf(() => []);
+    await gateway.query('employee.get', { P_emp_no: "LS0001' OR 1=1 --" });
+    expect(sent).toEqual([{ statement: 'employee.get', params: { P_emp_no: "LS0001' OR 1=1 --" } }]);
+  });
+
+  it.each<[string, unknown, object]>([
+    ['数组', [{ P_emp_no: 'A' }], { rows: [{ P_emp_no: 'A' }], affected: 1 }],
+    ['data 包装', { data: [{ P_emp_no: 'A' }], total: '12', nextCursor: 50 }, { rows: [{ P_emp_no: 'A' }], affected: 1, total: 12, nextCursor: '50' }],
+    ['rowsAffected', { rowsAffected: 3 }, { rows: [], affected: 3, nextCursor: null }],
+    ['版本冲突', { data: [], affected: 0 }, { rows: [], affected: 0, nextCursor: null }],
+  ])('规范化响应：%s', async (_label, raw, expected) => {
+    const { gateway } = gatewayOf(() => raw);
+    expect(await gateway.query('employee.get', { P_emp_no: 'A' })).toMatchObject(expected);
+  });
+
+  it('Forbidden 响应抛出越权错误，其他 error 抛出普通错误', async () => {
+    const forbidden = await rejectionOf(gatewayOf(() => ({ error: '无权修改', code: 'Forbidden' })).gateway.rows('employee.get', { P_emp_no: 'A' }));
+    expect(isSqlPermissionError(forbidden)).toBe(true);
+    expect(forbidden?.message).toBe('无权修改');
+
+    const failed = await rejectionOf(gatewayOf(() => ({ error: '连接超时' })).gateway.rows('employee.get', { P_emp_no: 'A' }));
+    expect(failed?.message).toBe('连接超时');
+    expect(isSqlPermissionError(failed)).toBe(false);
+  });
+
+  it('batch 中 affected = 0 与抛错的行记为失败，其余行照常执行', async () => {
+    const { gateway } = gatewayOf(({ params }: any) =>
+      params.P_emp_no === 'B' ? { data: [], affected: 0 } : params.P_emp_no === 'C' ? { error: 'x', code: 'Forbidden' } : { data: [], affected: 1 }
+    );
+    const results = await gateway.batch('employee.patch', ['A', 'B', 'C'].map((P_emp_no) => ({ P_emp_no, fields: {} })));
+    expect(results.map((r) => r.ok)).toEqual([true, false, false]);
+    expect(results[2].error).toBe('x');
+  });
+});
+
+describe('createHttpTransport', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('带上会话令牌，401 / 403 按越权处理', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 403 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const transport = createHttpTransport(async () => ({ queryUrl: 'https://erp.example/query', apiToken: 't' }));
+
+    const err = await rejectionOf(transport({ statement: 'employee.get', params: { P_emp_no: 'A' } }));
+    expect(isSqlPermissionError(err)).toBe(true);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer jwt');
+    expect(JSON.parse(String(init.body))).toEqual({ Token: 't', Statement: 'employee.get', Params: { P_emp_no: 'A' } });
+  });
+});
+
+describe('离线网关的角色校验', () => {
+  it('只读成员不能读取员工档案', async () => {
+    const err = await rejectionOf(mockGatewayAs('viewer').rows('employee.list', {}));
+    expect(isSqlPermissionError(err)).toBe(true);
+  });
+
+  it('管理员和人事经理看到全部员工，可以新增和办理离职', async () => {
+    expect(await mockGatewayAs('admin').rows('employee.list', {})).toHaveLength(8);
+
+    const hr = mockGatewayAs('hr_manager');
+    const { affected } = await hr.query('employee.patch', { P_emp_no: 'LS0001', fields: { P_emp_Status: '离职', P_emp_leavedt: '2026-10-19' } });
+    expect(affected).toBe(1);
+    const created = await hr.query('employee.create', {
+      P_emp_no: 'LS0100', employeename: '新人', Departmentid: 2, P_emp_sex: '女', p_emp_phone: '', P_emp_Status: '试用', p_emp_degree: '', P_emp_workJoindt: '2026-10-19',
+    });
+    expect(created.affected).toBe(1);
+  });
+
+  it('版本不一致时不写入', async () => {
+    const hr = mockGatewayAs('hr_manager');
+    const [emp] = await hr.rows('employee.get', { P_emp_no: 'LS0002' });
+    expect((await hr.query('employee.patch', { P_emp_no: 'LS0002', fields: { p_emp_phone: '1' }, expectedVersion: emp.row_version })).affected).toBe(1);
+    expect((await hr.query('employee.patch', { P_emp_no: 'LS0002', fields: { p_emp_phone: '2' }, expectedVersion: emp.row_version })).affected).toBe(0);
+  });
+});
+
+describe('离线网关的部门隔离', () => {
+  const manager = () => mockGatewayAs('dept_manager', 3);
+
+  it('读语句只返回本部门数据', async () => {
+    const gateway = manager();
+    const page = await gateway.query('employee.page', { keyword: '', departmentId: null, sortBy: 'P_emp_no', sortDir: 'asc', cursor: null, limit: 50 });
+    expect(page.rows.map((e) => e.P_emp_no)).toEqual(['LS0004', 'LS0005', 'LS0008']);
+    expect(page.total).toBe(3);
+    expect(await gateway.rows('employee.get', { P_emp_no: 'LS0001' })).toEqual([]);
+    // 不能借工号查重探测其他部门的员工
+    expect(await gateway.rows('employee.exists', { P_emp_no: 'LS0001' })).toEqual([]);
+    expect(await gateway.rows('employee.exists', { P_emp_no: 'LS0004' })).toEqual([{ P_emp_no: 'LS0004' }]);
+    expect(await gateway.rows('department.list', {})).toEqual([{ Departmentid: 3, departmentname: '生产部' }]);
+    expect((await gateway.rows('employee.stats', {}))[0].total).toBe(3);
+  });
+
+  it('可以修改本部门员工', async () => {
+    const gateway = manager();
+    expect((await gateway.query('employee.patch', { P_emp_no: 'LS0004', fields: { p_emp_phone: '13900000004' } })).affected).toBe(1);
+  });
+
+  it('修改其他部门员工或把员工调出本部门按越权拒绝', async () => {
+    const gateway = manager();
+    const outside = await rejectionOf(gateway.query('employee.patch', { P_emp_no: 'LS0001', fields: { p_emp_phone: '1' } }));
+    expect(isSqlPermissionError(outside)).toBe(true);
+    const transfer = await rejectionOf(gateway.query('employee.patch', { P_emp_no: 'LS0004', fields: { Departmentid: 1 } }));
+    expect(isSqlPermissionError(transfer)).toBe(true);
+  });
+
+  it('不能办理离职，但可以修改已离职员工的其他字段', async () => {
+    const archiveAttempt = await rejectionOf(
+      manager().query('employee.patch', { P_emp_no: 'LS0004', fields: { P_emp_Status: '离职', P_emp_leavedt: '2026-10-19' } })
+    );
+    expect(isSqlPermissionError(archiveAttempt)).toBe(true);
+    expect(archiveAttempt?.message).toMatch('无权办理员工离职');
+
+    const qualityManager = mockGatewayAs('dept_manager', 4);
+    const [departed] = await qualityManager.rows('employee.get', { P_emp_no: 'LS0006' });
+    const { affected } = await qualityManager.query('employee.update', {
+      ...departed,
+      Departmentid: 4,
+      p_emp_phone: '13900000006',
+      expectedVersion: departed.row_version ?? null,
+    });
+    expect(affected).toBe(1);
+  });
+
+  it('不能新增或导入员工', async () => {
+    const err = await rejectionOf(
+      manager().query('employee.upsert', { P_emp_no: 'LS0101', fields: { employeename: '外部', Departmentid: 3 }, expectedVersion: null })
+    );
+    expect(isSqlPermissionError(err)).toBe(true);
+  });
+});
@@ -0,0 +1,268 @@
+import { ApiConfig, fetchAppConfig } from './appConfig';
+import { dataService } from './dataService';
+import { createMockSqlTransport } from './mockSqlGateway';
+import { SqlCaller, toSqlCaller } from './permissions';
+import { supabase } from './supabaseClient';
+import { Department, Employee } from '../../types';
+
+// --- Statement Catalogue ---
+
+export type EmployeeUpdateParams = Pick<
+  Employee,
+  'P_emp_no' | 'employeename' | 'P_emp_sex' | 'p_emp_phone' | 'P_emp_Status' | 'p_emp_degree' | 'P_emp_workJoindt'
+> & { Departmentid: number };
+
+// 可单独修改的列（白名单），网关按键名拼接 SET 子句前必须校验
+export type EmployeePatch = Partial<Omit<EmployeeUpdateParams, 'P_emp_no'> & { P_emp_leavedt: string }>;
+
+// expectedVersion 为编辑器打开时读到的 row_version；与库中不一致时不写入（affected = 0），传 null 跳过校验
+export interface EmployeeVersionedUpdateParams extends EmployeeUpdateParams {
+  expectedVersion: string | null;
+}
+
+export interface EmployeePatchParams {
+  P_emp_no: string;
+  fields: EmployeePatch;
+  expectedVersion?: string | null;
+}
+
+// 导入：fields 只包含表格中已映射且非空的列，已有记录的其余列保持不变
+export interface EmployeeUpsertParams {
+  P_emp_no: string;
+  fields: EmployeePatch & Pick<EmployeeUpdateParams, 'employeename' | 'Departmentid'>;
+  // 导入前读到的 row_version；null 表示按新工号插入，此时若工号已存在则不写入
+  expectedVersion: string | null;
+}
+
+// 概览卡片用的汇总值；部门经理同样只统计本部门
+export interface EmployeeStats {
+  total: number;
+  departments: number;
+  phoneFilled: number;
+  degreeFilled: number;
+  joinDateFilled: number;
+  // 最近一个有人入职的年份及当年入职人数，没有入职日期时为 null / 0
+  latestJoinYear: number | null;
+  latestJoinYearHires: number;
+}
+
+export type EmployeeSortField = 'employeename' | 'P_emp_no' | 'Departmentid' | 'P_emp_Status' | 'P_emp_workJoindt';
+export type SortDirection = 'asc' | 'desc';
+
+export interface EmployeePageParams {
+  keyword: string;
+  departmentId: number | null;
+  sortBy: EmployeeSortField;
+  sortDir: SortDirection;
+  // 上一页响应中的 nextCursor，首页传 null；游标内容由网关定义，前端不解析
+  cursor: string | null;
+  limit: number;
+}
+
+/**
+ * 本地 SQL 网关的命名语句目录
+ * 浏览器只发送「语句名 + 绑定参数」，SQL 文本由网关侧维护（注释仅供对照），前端不再拼接任何 SQL。
+ * 写语句必须在响应中返回 affected（受影响行数），新增语句时需同步在网关和 mockSqlGateway 中实现。
+ *
+ * 权限：请求头携带 Supabase 会话的 Authorization: Bearer <access_token>，网关校验 JWT 后
+ * 从 profiles 读取 role / department_id，按 permissions.ts 中的 checkStatementPermission 拒绝越权语句
+ * （写语句先按工号读出目标行，与写入前的值比较判断是否办理离职）；
+ * 部门经理的读语句追加 Departmentid = @callerDepartmentId 条件；写语句先查目标行所属部门，目标行或写入后的部门
+ * 不属于本部门时以 { error, code: 'Forbidden' } 响应，与版本冲突的 affected = 0 区分开。
+ */
+export interface SqlStatements {
+  /** SELECT * FROM p_employeetab */
+  'employee.list': { params: Record<string, never>; row: Employee };
+  /**
+   * SELECT * FROM p_employeetab
+   * WHERE (@keyword = '' OR employeename LIKE '%' + @keyword + '%' OR P_emp_no LIKE '%' + @keyword + '%')
+   *   AND (@departmentId IS NULL OR Departmentid = @departmentId)
+   * ORDER BY <sortBy 白名单列> <sortDir>, P_emp_no
+   * 返回 { data, total, nextCursor }
+   */
+  'employee.page': { params: EmployeePageParams; row: Employee };
+  /**
+   * WITH s AS (SELECT * FROM p_employeetab), y AS (SELECT MAX(YEAR(P_emp_workJoindt)) AS latest FROM s)
+   * SELECT COUNT(*) AS total, COUNT(DISTINCT Departmentid) AS departments,
+   *   SUM(CASE WHEN ISNULL(p_emp_phone, '') <> '' THEN 1 ELSE 0 END) AS phoneFilled, ...degreeFilled, joinDateFilled,
+   *   MAX(y.latest) AS latestJoinYear, SUM(CASE WHEN YEAR(P_emp_workJoindt) = y.latest THEN 1 ELSE 0 END) AS latestJoinYearHires
+   * FROM s CROSS JOIN y
+   * 只返回一行汇总，不返回员工明细
+   */
+  'employee.stats': { params: Record<string, never>; row: EmployeeStats };
+  /** SELECT Departmentid, departmentname FROM P_DepartmentTab */
+  'department.list': { params: Record<string, never>; row: Department };
+  /**
+   * UPDATE p_employeetab SET employeename = @employeename, ...
+   * OUTPUT CONVERT(varchar(20), CONVERT(bigint, inserted.row_version)) AS row_version
+   * WHERE P_emp_no = @P_emp_no
+   *   AND (@expectedVersion IS NULL OR CONVERT(bigint, row_version) = CONVERT(bigint, @expectedVersion))
+   * 版本不一致时 affected = 0
+   */
+  'employee.update': { params: EmployeeVersionedUpdateParams; row: { row_version: string } };
+  /** SELECT *, CONVERT(varchar(20), CONVERT(bigint, row_version)) AS row_version FROM p_employeetab WHERE P_emp_no = @P_emp_no */
+  'employee.get': { params: { P_emp_no: string }; row: Employee };
+  /** SELECT P_emp_no FROM p_employeetab WHERE P_emp_no = @P_emp_no */
+  'employee.exists': { params: { P_emp_no: string }; row: { P_emp_no: string } };
+  /** INSERT INTO p_employeetab (P_emp_no, employeename, ...) VALUES (@P_emp_no, @employeename, ...)，工号重复时 affected = 0 */
+  'employee.create': { params: EmployeeUpdateParams; row: never };
+  /**
+   * UPDATE p_employeetab SET <fields 中的白名单列> OUTPUT ... AS row_version
+   * WHERE P_emp_no = @P_emp_no AND (@expectedVersion IS NULL OR ...)
+   */
+  'employee.patch': { params: EmployeePatchParams; row: { row_version: string } };
+  /**
+   * MERGE p_employeetab AS t USING (SELECT @P_emp_no AS P_emp_no) AS s ON t.P_emp_no = s.P_emp_no
+   * WHEN MATCHED AND CONVERT(bigint, t.row_version) = CONVERT(bigint, @expectedVersion)
+   *   THEN UPDATE SET <fields 中的白名单列>
+   * WHEN NOT MATCHED AND @expectedVersion IS NULL
+   *   THEN INSERT (P_emp_no, <fields 中的列>, P_emp_Status) VALUES (@P_emp_no, ..., ISNULL(@P_emp_Status, '试用'))
+   * 版本不一致、记录已被删除或工号已被他人新建时 affected = 0
+   */
+  'employee.upsert': { params: EmployeeUpsertParams; row: never };
+}
+
+export type SqlStatementName = keyof SqlStatements;
+export type SqlParams<K extends SqlStatementName> = SqlStatements[K]['params'];
+export type SqlRow<K extends SqlStatementName> = SqlStatements[K]['row'];
+
+export interface SqlQuery<K extends SqlStatementName = SqlStatementName> {
+  statement: K;
+  params: SqlParams<K>;
+}
+
+export interface SqlBatchItemResult {
+  index: number;
+  ok: boolean;
+  affected: number;
+  error?: string;
+}
+
+export interface SqlResult<Row> {
+  rows: Row[];
+  affected: number;
+  // 仅分页语句返回：符合条件的总行数与下一页游标（没有下一页时为 null）
+  total?: number;
+  nextCursor?: string | null;
+}
+
+/** 网关拒绝的越权操作：角色无权执行该语句，或部门经理写入本部门以外的员工 */
+export const sqlPermissionError = (message: string) => Object.assign(new Error(message), { name: 'SqlPermissionError' });
+
+export const isSqlPermissionError = (error: unknown): error is Error =>
+  error instanceof Error && error.name === 'SqlPermissionError';
+
+/**
+ * 传输层：把一条命名查询送到网关并返回原始响应
+ * 网关既可能直接返回数组，也可能返回 { data, affected, total, nextCursor, error } 包装
+ */
+export type SqlTransport = (query: SqlQuery, caller?: SqlCaller) => Promise<unknown>;
+
+// --- Transports ---
+
+// app_configs.api_url 配置为 mock:// 时使用内置的离线网关
+const isMockUrl = (url: string) => url.startsWith('mock:');
+
+let sharedMockTransport: SqlTransport | null = null;
+const getMockTransport = () => {
+  if (!sharedMockTransport) sharedMockTransport = createMockSqlTransport();
+  return sharedMockTransport;
+};
+
+// 离线网关无法校验 JWT，直接把当前用户的角色交给它模拟服务端的权限判断
+let cachedCaller: { userId: string; caller: SqlCaller } | null = null;
+const resolveMockCaller = async (userId: string) => {
+  if (cachedCaller?.userId !== userId) {
+    cachedCaller = { userId, caller: toSqlCaller(await dataService.getUserProfile(userId)) };
+  }
+  return cachedCaller.caller;
+};
+
+/** resolveConfig 默认读取 app_configs；后台「测试连接」会传入尚未保存的配置 */
+export const createHttpTransport =
+  (resolveConfig: () => Promise<Pick<ApiConfig, 'queryUrl' | 'apiToken'>> = fetchAppConfig): SqlTransport =>
+  async (query) => {
+    const { queryUrl, apiToken } = await resolveConfig();
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('登录已失效，请重新登录');
+
+    if (isMockUrl(queryUrl)) return getMockTransport()(query, await resolveMockCaller(session.user.id));
+
+    const res = await fetch(queryUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.access_token}` },
+      body: JSON.stringify({ Token: apiToken, Statement: query.statement, Params: query.params }),
+    });
+    if (res.status === 401 || res.status === 403) throw sqlPermissionError('没有执行该操作的权限');
+    if (!res.ok) throw new Error(`API Error: ${res.status}`);
+    return res.json();
+  };
+
+function normalizeResult<Row>(raw: any): SqlResult<Row> {
+  if (Array.isArray(raw)) return { rows: raw, affected: raw.length };
+  if (raw?.error) throw raw.code === 'Forbidden' ? sqlPermissionError(String(raw.error)) : new Error(String(raw.error));
+
+  const rows = Array.isArray(raw?.data) ? raw.data : [];
+  const affected = Number(raw?.affected ?? raw?.rowsAffected ?? rows.length) || 0;
+  const total = raw?.total === undefined ? undefined : Number(raw.total) || 0;
+  const nextCursor = raw?.nextCursor ? String(raw.nextCursor) : null;
+  return { rows, affected, total, nextCursor };
+}
+
+// --- Client ---
+
+export class SqlGatewayClient {
+  private transport: SqlTransport;
+
+  constructor(transport: SqlTransport) {
+    this.transport = transport;
+  }
+
+  async query<K extends SqlStatementName>(statement: K, params: SqlParams<K>): Promise<SqlResult<SqlRow<K>>> {
+    const raw = await this.transport({ statement, params } as SqlQuery);
+    return normalizeResult<SqlRow<K>>(raw);
+  }
+
+  async rows<K extends SqlStatementName>(statement: K, params: SqlParams<K>): Promise<SqlRow<K>[]> {
+    const { rows } = await this.query(statement, params);
+    return rows;
+  }
+
+  /**
+   * 逐条执行同一语句并收集每一行的结果，单行失败不影响其余行
+   * affected = 0 视为失败（例如记录不存在或工号重复）
+   */
+  async batch<K extends SqlStatementName>(
+    statement: K,
+    paramsList: SqlParams<K>[],
+    onProgress?: (done: number, total: number) => void,
+    concurrency: number = 4
+  ): Promise<SqlBatchItemResult[]> {
+    const results: SqlBatchItemResult[] = new Array(paramsList.length);
+    let nextIndex = 0;
+    let done = 0;
+
+    const worker = async () => {
+      while (nextIndex < paramsList.length) {
+        const index = nextIndex++;
+        try {
+          const { affected } = await this.query(statement, paramsList[index]);
+          results[index] = affected > 0
+            ? { index, ok: true, affected }
+            : { index, ok: false, affected, error: '未影响任何记录' };
+        } catch (err: any) {
+          results[index] = { index, ok: false, affected: 0, error: err?.message || String(err) };
+        }
+        done += 1;
+        onProgress?.(done, paramsList.length);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, paramsList.length) }, worker));
+    return results;
+  }
+}
+
+export const createSqlGateway = (transport: SqlTransport) => new SqlGatewayClient(transport);
+
+export const sqlGateway = new SqlGatewayClient(createHttpTransport());
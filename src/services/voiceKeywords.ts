@@ -0,0 +1,68 @@
+import { supabase } from './supabaseClient';
+
+/**
+ * 语音助手的唤醒词 / 休眠词
+ * 配置保存在 system_settings（key: voice_keywords），前端 useVoiceAssistant 与 smart-processor 函数读取同一份，
+ * 管理员在系统设置中修改后无需重新部署。
+ */
+
+export const VOICE_KEYWORDS_SETTING_KEY = 'voice_keywords';
+
+export interface VoiceKeywordGroup {
+  words: string[];
+  // 语音识别常见的误写（如「小龙」「晓朗」），与 words 同等对待；同音字会自动匹配，这里主要用于收录近音写法
+  variants: string[];
+}
+
+export interface VoiceKeywords {
+  wake: VoiceKeywordGroup;
+  sleep: VoiceKeywordGroup;
+}
+
+// 与 supabase/functions/smart-processor 中的默认值保持一致
+export const DEFAULT_VOICE_KEYWORDS: VoiceKeywords = {
+  wake: { words: ['小朗'], variants: ['小浪', '小狼', '晓朗', '小郎', '小龙'] },
+  sleep: { words: ['退下吧', '退下', '休眠', '退出待命', '回去吧', '休息吧'], variants: [] },
+};
+
+// 与识别文本使用相同的规范化：去掉空白和标点
+const normalizeWord = (word: string) => word.replace(/\s+/g, '').replace(/[，。！？、,.!?]/g, '');
+
+const toWordList = (value: unknown): string[] | null =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((w): w is string => typeof w === 'string').map(normalizeWord).filter(Boolean)))
+    : null;
+
+function normalizeGroup(value: any, fallback: VoiceKeywordGroup): VoiceKeywordGroup {
+  if (!value || typeof value !== 'object') return fallback;
+  const words = toWordList(value.words);
+  return {
+    // 唤醒词 / 休眠词不能配置为空，否则助手无法唤醒或退出
+    words: words && words.length ? words : fallback.words,
+    variants: toWordList(value.variants) ?? fallback.variants,
+  };
+}
+
+/** 容错解析配置值，缺失的项使用默认值 */
+export function normalizeVoiceKeywords(value: any): VoiceKeywords {
+  if (!value || typeof value !== 'object') return DEFAULT_VOICE_KEYWORDS;
+  return {
+    wake: normalizeGroup(value.wake, DEFAULT_VOICE_KEYWORDS.wake),
+    sleep: normalizeGroup(value.sleep, DEFAULT_VOICE_KEYWORDS.sleep),
+  };
+}
+
+/** 读取配置；读取失败时使用默认词表，不影响语音助手启动 */
+export async function fetchVoiceKeywords(): Promise<VoiceKeywords> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('value')
+    .eq('key', VOICE_KEYWORDS_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) console.error('Failed to fetch voice keywords:', error);
+  return normalizeVoiceKeywords(data?.value);
+}
+
+/** 参与匹配的全部写法：正式词 + 变体 */
+export const keywordsOf = (group: VoiceKeywordGroup) => [...group.words, ...group.variants];
@@ -0,0 +1,495 @@
+// Supabase Edge Function: ai-proxy
+// 浏览器调用大模型的唯一出口：校验登录用户的 JWT，检查调用额度，由服务端补上 API Key 后转发（SSE 原样透传）。
+// 密钥优先读取函数 Secrets（DASHSCOPE_API_KEY / GEMINI_API_KEY），未设置时读取 system_settings 中的 aliyun_config / gemini_config。
+// 转发前通过 ai_usage_reserve 在锁内检查额度并预留一条调用记录；转发的同时从响应中解析 token 用量，
+// 按 ai_quota.prices 估算费用后回填。客户端中途取消时按最后读到的用量（或已转发内容的估算）计费。
+// 只放行前端实际用到的接口和已配置的模型；请求头 X-AI-Feature 标明调用来自哪个功能，按角色校验是否可用。
+//
+//   GET  /ai-proxy                 -> 代理状态（各服务是否已配置、Gemini 模型、个人与部门的额度使用情况）
+//   POST /ai-proxy/app             -> 百炼应用 completion（appId 由服务端补全）
+//   POST /ai-proxy/multimodal      -> 通义千问 VL 多模态生成
+//   POST /ai-proxy/asr             -> 语音识别（multipart 原样转发）
+//   POST /ai-proxy/gemini/<path>   -> Gemini API（@google/genai 的 baseUrl 指向这里）
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS, GET",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-dashscope-sse, x-goog-api-client, x-goog-api-key, x-ai-feature",
+};
+
+// DashScope 风格的错误体，前端 handleError 读取 message 字段
+const fail = (status: number, code: string, message: string, quota?: unknown) =>
+  new Response(JSON.stringify({ code, message, quota }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json; charset=utf-8" },
+  });
+
+const ok = (obj: unknown) =>
+  new Response(JSON.stringify(obj), {
+    headers: { ...corsHeaders, "Content-Type": "application/json; charset=utf-8" },
+  });
+
+const DASHSCOPE_BASE = "https://dashscope.aliyuncs.com";
+const GEMINI_BASE = "https://generativelanguage.googleapis.com";
+const GEMINI_DEFAULT_MODEL = "gemini-2.5-flash";
+const DASHSCOPE_VISION_MODEL = "qwen-vl-max";
+const DASHSCOPE_ASR_MODEL = "paraformer-2";
+
+// 只允许生成类接口；文件上传、cachedContents、tunedModels 等一律拒绝
+const GEMINI_METHOD = /^v1(?:beta)?\/models\/([^/:]+):(generateContent|streamGenerateContent)$/;
+
+type Feature = "knowledge" | "vision" | "report";
+
+const FEATURE_LABELS: Record<Feature, string> = { knowledge: "知识库问答", vision: "图像识别", report: "智能报表" };
+
+// 与 src/services/permissions.ts 中 view:knowledge / view:vision / view:tools 的授权保持一致
+const FEATURE_ROLES: Record<Feature, string[]> = {
+  knowledge: ["admin", "hr_manager", "dept_manager", "viewer"],
+  vision: ["admin", "hr_manager", "dept_manager", "viewer"],
+  report: ["admin", "hr_manager", "dept_manager"],
+};
+
+// 各代理目标能服务的功能，第一个为未声明 X-AI-Feature 时的默认值；asr 为语音输入
+const TARGET_FEATURES: Record<string, Feature[]> = {
+  app: ["knowledge", "report"],
+  multimodal: ["vision"],
+  asr: ["knowledge", "vision"],
+  gemini: ["knowledge", "vision", "report"],
+};
+
+// 未配置 ai_quota 时的额度：每人每天 200 次
+const DEFAULT_QUOTA: QuotaConfig = { user: { daily: { requests: 200 } } };
+
+// 每千 token 单价（元），ai_quota.prices 中同名模型覆盖此处
+const DEFAULT_PRICES: Record<string, Price> = {
+  "qwen-vl-max": { input: 0.003, output: 0.009 },
+  "qwen-max": { input: 0.0024, output: 0.0096 },
+  "qwen-plus": { input: 0.0008, output: 0.002 },
+  "qwen-turbo": { input: 0.0003, output: 0.0006 },
+  "gemini-2.5-flash": { input: 0.0022, output: 0.018 },
+  "gemini-2.5-pro": { input: 0.009, output: 0.072 },
+};
+
+type Metric = "requests" | "tokens" | "cost";
+type Period = "daily" | "monthly";
+type Scope = "user" | "department";
+type Limits = Partial<Record<Metric, number>>;
+type QuotaWindow = Partial<Record<Period, Limits>>;
+type Price = { input: number; output: number };
+
+interface QuotaConfig {
+  user?: QuotaWindow;
+  department?: QuotaWindow;
+  userOverrides?: Record<string, QuotaWindow>;
+  departmentOverrides?: Record<string, QuotaWindow>;
+  prices?: Record<string, Price>;
+}
+
+interface QuotaUsage {
+  scope: Scope;
+  period: Period;
+  used: Record<Metric, number>;
+  limit: Limits;
+}
+
+interface Usage {
+  model: string | null;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+const SCOPE_LABELS: Record<Scope, string> = { user: "个人", department: "部门" };
+const PERIOD_LABELS: Record<Period, string> = { daily: "今日", monthly: "本月" };
+const METRIC_LABELS: Record<Metric, string> = { requests: "调用次数", tokens: "Token 用量", cost: "费用" };
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { persistSession: false },
+});
+
+async function readSetting(key: string): Promise<any> {
+  const { data, error } = await admin.from("system_settings").select("value").eq("key", key).maybeSingle();
+  if (error) console.error(`Failed to read ${key}:`, error);
+  return data?.value ?? null;
+}
+
+async function dashscopeConfig() {
+  const config = (await readSetting("aliyun_config")) || {};
+  return {
+    apiKey: Deno.env.get("DASHSCOPE_API_KEY") || config.apiKey || "",
+    appId: Deno.env.get("DASHSCOPE_APP_ID") || config.appId || "",
+    visionModel: String(config.visionModel || DASHSCOPE_VISION_MODEL),
+    asrModel: String(config.asrModel || DASHSCOPE_ASR_MODEL),
+  };
+}
+
+async function geminiConfig() {
+  const config = (await readSetting("gemini_config")) || {};
+  return {
+    apiKey: Deno.env.get("GEMINI_API_KEY") || config.apiKey || "",
+    model: String(config.model || GEMINI_DEFAULT_MODEL),
+  };
+}
+
+/** 用请求头里的用户 JWT 换取用户信息；匿名 key 或过期 token 都视为未登录 */
+async function authenticate(req: Request) {
+  const token = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  const { data, error } = await admin.auth.getUser(token);
+  if (error || !data?.user) return null;
+  return data.user;
+}
+
+/** 角色与部门；没有资料或旧的 user 角色按 viewer 处理 */
+async function profileOf(userId: string): Promise<{ role: string; departmentId: number | null }> {
+  const { data, error } = await admin.from("profiles").select("role, department_id").eq("id", userId).maybeSingle();
+  if (error) console.error("Failed to read profile:", error);
+  const role = data?.role && data.role !== "user" ? String(data.role) : "viewer";
+  return { role, departmentId: data?.department_id ?? null };
+}
+
+/** 个人、部门适用的额度上限（单独设置优先） */
+const quotaWindows = (userId: string, departmentId: number | null, config: QuotaConfig): Record<Scope, QuotaWindow> => ({
+  user: config.userOverrides?.[userId] ?? config.user ?? {},
+  department: (departmentId !== null && config.departmentOverrides?.[String(departmentId)]) || config.department || {},
+});
+
+/** 个人、部门在今日 / 本月的用量与对应上限；未配置上限的窗口也返回，用于展示 */
+async function quotaStatus(userId: string, departmentId: number | null, config: QuotaConfig): Promise<QuotaUsage[]> {
+  const { data, error } = await admin.rpc("ai_usage_totals", { p_user_id: userId, p_department_id: departmentId });
+  if (error) console.error("Failed to sum usage:", error);
+  const windows = quotaWindows(userId, departmentId, config);
+  return (data || [])
+    .filter((row: any) => row.scope === "user" || departmentId !== null)
+    .map((row: any) => ({
+      scope: row.scope,
+      period: row.period,
+      used: { requests: Number(row.requests) || 0, tokens: Number(row.tokens) || 0, cost: Number(row.cost) || 0 },
+      limit: windows[row.scope as Scope][row.period as Period] ?? {},
+    }));
+}
+
+interface Reservation {
+  eventId: number | null;
+  // 超出额度时为第一个已用满的额度
+  exceeded: { scope: Scope; period: Period; metric: Metric; used: number; limit: number } | null;
+}
+
+/** 在数据库锁内检查额度并插入一条待结算的调用记录，并发请求不会同时越过上限 */
+async function reserveUsage(
+  userId: string,
+  departmentId: number | null,
+  config: QuotaConfig,
+  call: { target: string; model: string | null; inputTokens: number; cost: number }
+): Promise<Reservation> {
+  const { data, error } = await admin.rpc("ai_usage_reserve", {
+    p_user_id: userId,
+    p_department_id: departmentId,
+    p_target: call.target,
+    p_model: call.model,
+    p_input_tokens: call.inputTokens,
+    p_cost: call.cost,
+    p_limits: quotaWindows(userId, departmentId, config),
+  });
+  if (error) throw error;
+  const row = Array.isArray(data) ? data[0] : data;
+  if (row?.event_id) return { eventId: Number(row.event_id), exceeded: null };
+  if (!row?.metric) throw new Error("ai_usage_reserve returned no row");
+  return {
+    eventId: null,
+    exceeded: { scope: row.scope, period: row.period, metric: row.metric, used: Number(row.used) || 0, limit: Number(row.quota) || 0 },
+  };
+}
+
+const formatMetric = (metric: Metric, value: number) => (metric === "cost" ? `¥${value.toFixed(2)}` : value.toLocaleString());
+
+// 上游返回的模型名可能带版本后缀（如 qwen-plus-2025-01-25），按最长前缀匹配单价
+const priceOf = (model: string, prices: Record<string, Price>) =>
+  prices[model] ??
+  Object.entries(prices)
+    .filter(([name]) => model.startsWith(name))
+    .sort((a, b) => b[0].length - a[0].length)[0]?.[1];
+
+// 粗略估算 token 数：汉字约 1 个 token，其余字符约 4 个一个；只用于没有上游用量时计费，宁可偏高
+const estimateTokens = (text: string) => {
+  const han = text.match(/[\u3400-\u9fff]/g)?.length ?? 0;
+  return han + Math.ceil((text.length - han) / 4);
+};
+
+// 请求体中的图片等 base64 数据不按文本估算
+const estimateInputTokens = (body: ArrayBuffer) =>
+  estimateTokens(new TextDecoder().decode(body).replace(/[A-Za-z0-9+/=]{256,}/g, ""));
+
+const estimateCost = (usage: Usage, prices: Record<string, Price>) => {
+  const price = usage.model ? priceOf(usage.model, prices) : undefined;
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000;
+};
+
+/**
+ * 从单个响应事件中读取 token 用量
+ * 百炼应用：usage.models[]；DashScope 模型：usage.input_tokens / output_tokens；Gemini：usageMetadata
+ * 流式响应中用量是累计值，只需保留最后一次
+ */
+function readUsage(json: any): Usage | null {
+  if (Array.isArray(json?.usage?.models) && json.usage.models.length) {
+    const models = json.usage.models;
+    return {
+      model: models[0].model_id ?? null,
+      inputTokens: models.reduce((sum: number, m: any) => sum + (Number(m.input_tokens) || 0), 0),
+      outputTokens: models.reduce((sum: number, m: any) => sum + (Number(m.output_tokens) || 0), 0),
+    };
+  }
+  if (json?.usage && (json.usage.input_tokens !== undefined || json.usage.output_tokens !== undefined)) {
+    return { model: null, inputTokens: Number(json.usage.input_tokens) || 0, outputTokens: Number(json.usage.output_tokens) || 0 };
+  }
+  const meta = json?.usageMetadata;
+  if (meta) {
+    return {
+      model: json.modelVersion ?? null,
+      inputTokens: Number(meta.promptTokenCount) || 0,
+      outputTokens: (Number(meta.candidatesTokenCount) || 0) + (Number(meta.thoughtsTokenCount) || 0),
+    };
+  }
+  return null;
+}
+
+/**
+ * 原样透传响应体，同时解析其中的用量；SSE 按 data: 行解析，普通 JSON 在结束时整体解析
+ * 正常结束、上游出错或客户端取消都会调用一次 onDone：usage 为最后读到的用量（流式用量是累计值），
+ * streamedTokens 为已转发内容的估算 token 数，供没有读到用量时计费
+ */
+function meterStream(
+  body: ReadableStream<Uint8Array>,
+  isSse: boolean,
+  onDone: (usage: Usage | null, streamedTokens: number) => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let usage: Usage | null = null;
+  let streamedTokens = 0;
+  let finished = false;
+
+  const scanLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    try {
+      usage = readUsage(JSON.parse(line.slice(5).trim())) ?? usage;
+    } catch {
+      // 非 JSON 行（如 [DONE]）忽略
+    }
+  };
+
+  const finish = (complete: boolean) => {
+    if (finished) return;
+    finished = true;
+    if (isSse) scanLine(buffer);
+    else if (complete) {
+      try {
+        usage = readUsage(JSON.parse(buffer));
+      } catch {
+        usage = null;
+      }
+    }
+    onDone(usage, streamedTokens);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish(true);
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+        const text = decoder.decode(value, { stream: true });
+        streamedTokens += estimateTokens(text);
+        buffer += text;
+        if (!isSse) return;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        lines.forEach(scanLine);
+      } catch (e) {
+        finish(false);
+        controller.error(e);
+      }
+    },
+    // 客户端断开（如用户停止生成）时上游已经产生了费用，按目前读到的内容结算
+    cancel(reason) {
+      finish(false);
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/** 只转发内容相关的请求头，Authorization 由服务端重新设置 */
+function forwardHeaders(req: Request, extra: Record<string, string>) {
+  const headers = new Headers(extra);
+  for (const name of ["content-type", "x-dashscope-sse", "accept", "x-goog-api-client"]) {
+    const value = req.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  return headers;
+}
+
+/** 请求体中指定的模型：JSON 的 model 字段，或 multipart 表单的 model 字段 */
+async function requestedModel(raw: ArrayBuffer, contentType: string | null): Promise<string | null> {
+  try {
+    if (contentType?.includes("application/json")) return JSON.parse(new TextDecoder().decode(raw)).model ?? null;
+    if (contentType?.includes("multipart/form-data")) {
+      const value = (await new Response(raw, { headers: { "content-type": contentType } }).formData()).get("model");
+      return typeof value === "string" ? value : null;
+    }
+  } catch {
+    // 无法解析的请求体按未指定模型处理
+  }
+  return null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const user = await authenticate(req);
+  if (!user) return fail(401, "Unauthorized", "请先登录后再使用 AI 功能。");
+
+  // 路径形如 /ai-proxy/app 或 /functions/v1/ai-proxy/gemini/v1beta/...
+  const url = new URL(req.url);
+  const route = url.pathname.replace(/^.*?\/ai-proxy\/?/, "");
+  const [target, ...rest] = route.split("/");
+
+  const [{ role, departmentId }, quotaConfig] = await Promise.all([
+    profileOf(user.id),
+    readSetting("ai_quota").then((value) => (value || DEFAULT_QUOTA) as QuotaConfig),
+  ]);
+
+  if (req.method === "GET" && !target) {
+    const [dashscope, gemini, quota] = await Promise.all([
+      dashscopeConfig(),
+      geminiConfig(),
+      quotaStatus(user.id, departmentId, quotaConfig),
+    ]);
+    return ok({
+      dashscope: Boolean(dashscope.apiKey && dashscope.appId),
+      gemini: { configured: Boolean(gemini.apiKey), model: gemini.model },
+      quota,
+    });
+  }
+
+  if (req.method !== "POST") return fail(405, "MethodNotAllowed", `Method ${req.method} not allowed`);
+
+  const features = TARGET_FEATURES[target];
+  if (!features) return fail(404, "NotFound", `未知的代理目标：${target || "(空)"}`);
+  const feature = (req.headers.get("x-ai-feature") || features[0]) as Feature;
+  if (!features.includes(feature)) return fail(400, "BadRequest", `${target} 不支持功能 ${feature}`);
+  if (!FEATURE_ROLES[feature].includes(role)) {
+    return fail(403, "Forbidden", `当前角色无权使用${FEATURE_LABELS[feature]}。`);
+  }
+
+  const body = await req.arrayBuffer();
+  let upstream: string;
+  let headers: Headers;
+  let model: string | null;
+  if (target === "gemini") {
+    const gemini = await geminiConfig();
+    if (!gemini.apiKey) return fail(503, "NotConfigured", "服务端未配置 Gemini API Key。");
+    const method = rest.join("/").match(GEMINI_METHOD);
+    if (!method) return fail(400, "BadRequest", "不支持的 Gemini 接口。");
+    if (method[1] !== gemini.model) return fail(400, "BadRequest", `不允许使用模型 ${method[1]}。`);
+    model = method[1];
+    upstream = `${GEMINI_BASE}/${rest.join("/")}${url.search}`;
+    headers = forwardHeaders(req, { "x-goog-api-key": gemini.apiKey });
+  } else {
+    const dashscope = await dashscopeConfig();
+    if (!dashscope.apiKey) return fail(503, "NotConfigured", "服务端未配置 DashScope API Key。");
+    const paths: Record<string, string> = {
+      app: `/api/v1/apps/${dashscope.appId}/completion`,
+      multimodal: "/api/v1/services/aigc/multimodal-generation/generation",
+      asr: "/stream/v1/audio/recognition",
+    };
+    if (target === "app" && !dashscope.appId) return fail(503, "NotConfigured", "服务端未配置百炼应用 appId。");
+    // 百炼应用的模型由应用本身决定，请求中不允许指定
+    const allowed: Record<string, string[]> = { app: [], multimodal: [dashscope.visionModel], asr: [dashscope.asrModel] };
+    model = await requestedModel(body, req.headers.get("content-type"));
+    if (target === "app" ? model !== null : !allowed[target].includes(model || "")) {
+      return fail(400, "BadRequest", `不允许使用模型 ${model ?? "(未指定)"}。`);
+    }
+    upstream = `${DASHSCOPE_BASE}${paths[target]}`;
+    headers = forwardHeaders(req, { Authorization: `Bearer ${dashscope.apiKey}` });
+  }
+
+  // 在锁内检查额度并预留一条调用（计入次数额度）；输入 token 先按请求体估算，用量在响应结束后回填
+  const prices = { ...DEFAULT_PRICES, ...(quotaConfig.prices || {}) };
+  const reservedInput = target === "asr" ? 0 : estimateInputTokens(body);
+  let reservation: Reservation;
+  try {
+    reservation = await reserveUsage(user.id, departmentId, quotaConfig, {
+      target,
+      model,
+      inputTokens: reservedInput,
+      cost: estimateCost({ model, inputTokens: reservedInput, outputTokens: 0 }, prices),
+    });
+  } catch (e) {
+    console.error("Failed to reserve usage:", e);
+    return fail(503, "UsageUnavailable", "暂时无法校验 AI 调用额度，请稍后再试。");
+  }
+
+  const { eventId, exceeded } = reservation;
+  if (exceeded) {
+    const { scope, period, metric, used, limit } = exceeded;
+    return fail(
+      429,
+      "QuotaExceeded",
+      `${SCOPE_LABELS[scope]}${PERIOD_LABELS[period]}的 AI ${METRIC_LABELS[metric]}已达上限` +
+        `（${formatMetric(metric, used)} / ${formatMetric(metric, limit)}），请稍后再试或联系管理员调整额度。`,
+      { scope, period, metric, used, limit }
+    );
+  }
+
+  const record = async (fields: Record<string, unknown>) => {
+    const { error } = await admin.from("ai_usage_events").update(fields).eq("id", eventId);
+    if (error) console.error("Failed to update usage:", error);
+  };
+  // 上游没有处理的请求不计 token，只保留次数
+  const unbilled = { input_tokens: 0, output_tokens: 0, cost: 0, estimated: false };
+
+  let response: Response;
+  try {
+    response = await fetch(upstream, { method: "POST", headers, body, signal: req.signal });
+  } catch (e) {
+    console.error("Upstream request failed:", e);
+    record({ status: 502, ...unbilled });
+    return fail(502, "UpstreamError", `上游服务请求失败：${String(e)}`);
+  }
+
+  // 流式响应直接透传，不在函数内缓冲
+  const responseHeaders = new Headers(corsHeaders);
+  for (const name of ["content-type", "cache-control"]) {
+    const value = response.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+  if (!response.ok || !response.body) {
+    record({ status: response.status, ...(response.ok ? {} : unbilled) });
+    return new Response(response.body, { status: response.status, headers: responseHeaders });
+  }
+
+  const isSse = (response.headers.get("content-type") || "").includes("text/event-stream");
+  const metered = meterStream(response.body, isSse, (usage, streamedTokens) => {
+    // 没有读到用量时输入沿用预留时的估算，输出按已转发的内容估算
+    const billed = usage ?? { model, inputTokens: reservedInput, outputTokens: streamedTokens };
+    const billedModel = billed.model || model;
+    record({
+      status: response.status,
+      model: billedModel,
+      input_tokens: billed.inputTokens,
+      output_tokens: billed.outputTokens,
+      cost: estimateCost({ ...billed, model: billedModel }, prices),
+      estimated: !usage,
+    });
+  });
+  return new Response(metered, { status: response.status, headers: responseHeaders });
+});
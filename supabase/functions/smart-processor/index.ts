@@ -1,5 +1,8 @@
 // Supabase Edge Function: smart-processor
 // Handles wake word detection, exit handling, and command extraction with CORS-safe parsing.
+// 唤醒词 / 休眠词读取 system_settings.voice_keywords（与前端 useVoiceAssistant 共用），缓存 60 秒。
+
+import { createClient } from "npm:@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,8 +20,47 @@ function normalizeZh(s: string) {
   return (s || "").replace(/[，。！？、,.!?]/g, "").replace(/\s+/g, "").trim();
 }
 
-const WAKE_WORDS = ["小朗", "小狼", "小郎", "小浪"];
-const SLEEP_WORDS = ["退下吧", "退下", "回去吧", "休息吧"];
+interface KeywordGroup {
+  words: string[];
+  variants: string[];
+}
+
+// 与 src/services/voiceKeywords.ts 的 DEFAULT_VOICE_KEYWORDS 保持一致
+const DEFAULT_KEYWORDS: { wake: KeywordGroup; sleep: KeywordGroup } = {
+  wake: { words: ["小朗"], variants: ["小浪", "小狼", "晓朗", "小郎", "小龙"] },
+  sleep: { words: ["退下吧", "退下", "休眠", "退出待命", "回去吧", "休息吧"], variants: [] },
+};
+
+const KEYWORDS_TTL_MS = 60_000;
+
+const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+  auth: { persistSession: false },
+});
+
+let keywordsCache: { at: number; wake: string[]; sleep: string[] } | null = null;
+
+const toWords = (value: unknown): string[] | null =>
+  Array.isArray(value) ? value.filter((w): w is string => typeof w === "string").map(normalizeZh).filter(Boolean) : null;
+
+// 配置缺失或格式不对时使用默认词表；words 为空视为未配置
+function groupWords(value: any, fallback: KeywordGroup) {
+  const words = toWords(value?.words);
+  const variants = toWords(value?.variants);
+  return [...(words?.length ? words : fallback.words), ...(variants ?? fallback.variants)];
+}
+
+async function loadKeywords() {
+  if (keywordsCache && Date.now() - keywordsCache.at < KEYWORDS_TTL_MS) return keywordsCache;
+  const { data, error } = await admin.from("system_settings").select("value").eq("key", "voice_keywords").maybeSingle();
+  if (error) console.error("Failed to read voice_keywords:", error);
+  const value = data?.value || {};
+  keywordsCache = {
+    at: Date.now(),
+    wake: groupWords(value.wake, DEFAULT_KEYWORDS.wake),
+    sleep: groupWords(value.sleep, DEFAULT_KEYWORDS.sleep),
+  };
+  return keywordsCache;
+}
 
 Deno.serve(async (req) => {
   // ✅ 1) OPTIONS 预检：直接返回，不要 req.json()
@@ -62,8 +104,9 @@ Deno.serve(async (req) => {
     });
   }
 
-  const hitWake = WAKE_WORDS.some((w) => text.includes(w));
-  const hitSleep = SLEEP_WORDS.some((w) => text.includes(w));
+  const keywords = await loadKeywords();
+  const hitWake = keywords.wake.some((w) => text.includes(w));
+  const hitSleep = keywords.sleep.some((w) => text.includes(w));
 
   if ((state === "wake_listen" || state === "idle") && hitWake) {
     return ok({
@@ -0,0 +1,30 @@
+-- 员工档案变更审计：每个被修改的字段一行，只允许追加
+create table if not exists public.employee_audit_logs (
+  id bigint generated by default as identity primary key,
+  emp_no text not null,
+  field text not null,
+  old_value text,
+  new_value text,
+  action text not null default 'update'
+    check (action in ('create', 'update', 'archive', 'bulk_update', 'import', 'revert')),
+  batch_id uuid,
+  user_id uuid references auth.users (id) on delete set null default auth.uid(),
+  editor_name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists employee_audit_logs_emp_no_idx
+  on public.employee_audit_logs (emp_no, created_at desc);
+
+alter table public.employee_audit_logs enable row level security;
+
+create policy "employee_audit_logs_select_authenticated"
+  on public.employee_audit_logs for select
+  to authenticated
+  using (true);
+
+-- 只能以自己的身份写入；不提供 update / delete 策略，审计记录不可篡改
+create policy "employee_audit_logs_insert_own"
+  on public.employee_audit_logs for insert
+  to authenticated
+  with check (user_id = auth.uid());
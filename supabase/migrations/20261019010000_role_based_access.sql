@@ -0,0 +1,122 @@
+-- 基于角色的访问控制：admin / hr_manager / dept_manager / viewer
+-- 与 src/services/permissions.ts 中的权限矩阵保持一致；旧数据中的 'user' 视为 viewer
+
+alter table public.profiles
+  add column if not exists department_id bigint;
+
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check
+  check (role in ('admin', 'hr_manager', 'dept_manager', 'viewer', 'user'));
+
+-- 当前登录用户的角色；security definer 避免在 profiles 自身的策略里递归
+create or replace function public.current_app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case when p.role is null or p.role = 'user' then 'viewer' else p.role end
+  from public.profiles p
+  where p.id = auth.uid()
+$$;
+
+grant execute on function public.current_app_role() to authenticated;
+
+-- 普通用户可以更新自己的资料（头像、昵称等），但角色和部门只能由管理员调整
+create or replace function public.protect_profile_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.role is distinct from old.role or new.department_id is distinct from old.department_id)
+     and coalesce(public.current_app_role(), '') <> 'admin' then
+    raise exception '只有系统管理员可以修改角色或所属部门';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_role on public.profiles;
+create trigger profiles_protect_role
+  before update on public.profiles
+  for each row execute function public.protect_profile_role();
+
+-- --- 员工档案审计 ---
+-- 只读成员看不到员工档案，也就不应看到变更历史
+
+drop policy if exists "employee_audit_logs_select_authenticated" on public.employee_audit_logs;
+drop policy if exists "employee_audit_logs_insert_own" on public.employee_audit_logs;
+
+create policy "employee_audit_logs_select_staff"
+  on public.employee_audit_logs for select
+  to authenticated
+  using (public.current_app_role() in ('admin', 'hr_manager', 'dept_manager'));
+
+create policy "employee_audit_logs_insert_staff"
+  on public.employee_audit_logs for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and public.current_app_role() in ('admin', 'hr_manager', 'dept_manager')
+  );
+
+-- --- 系统配置类表：所有登录用户可读，仅管理员可写 ---
+
+alter table public.system_settings enable row level security;
+alter table public.modules enable row level security;
+alter table public.announcements enable row level security;
+alter table public.app_configs enable row level security;
+
+drop policy if exists "system_settings_select_authenticated" on public.system_settings;
+create policy "system_settings_select_authenticated"
+  on public.system_settings for select to authenticated using (true);
+drop policy if exists "system_settings_write_admin" on public.system_settings;
+create policy "system_settings_write_admin"
+  on public.system_settings for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+drop policy if exists "modules_select_authenticated" on public.modules;
+create policy "modules_select_authenticated"
+  on public.modules for select to authenticated using (true);
+drop policy if exists "modules_write_admin" on public.modules;
+create policy "modules_write_admin"
+  on public.modules for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+drop policy if exists "announcements_select_authenticated" on public.announcements;
+create policy "announcements_select_authenticated"
+  on public.announcements for select to authenticated using (true);
+drop policy if exists "announcements_write_admin" on public.announcements;
+create policy "announcements_write_admin"
+  on public.announcements for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+drop policy if exists "app_configs_select_authenticated" on public.app_configs;
+create policy "app_configs_select_authenticated"
+  on public.app_configs for select to authenticated using (true);
+drop policy if exists "app_configs_write_admin" on public.app_configs;
+create policy "app_configs_write_admin"
+  on public.app_configs for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+-- --- 操作日志：只能写自己的；管理员可查看全部 ---
+
+alter table public.activity_logs enable row level security;
+
+drop policy if exists "activity_logs_insert_own" on public.activity_logs;
+create policy "activity_logs_insert_own"
+  on public.activity_logs for insert to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "activity_logs_select_own_or_admin" on public.activity_logs;
+create policy "activity_logs_select_own_or_admin"
+  on public.activity_logs for select to authenticated
+  using (user_id = auth.uid() or public.current_app_role() = 'admin');
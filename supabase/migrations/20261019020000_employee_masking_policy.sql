@@ -0,0 +1,8 @@
+-- 员工敏感字段脱敏策略（见 src/services/maskingPolicy.ts），已有配置时不覆盖
+insert into public.system_settings (key, value, description)
+values (
+  'employee_masking_policy',
+  '{"sensitiveFields": ["p_emp_phone"], "unmaskRoles": ["admin", "hr_manager"], "logReveals": true}'::jsonb,
+  '员工敏感字段脱敏策略：sensitiveFields 需遮挡的字段，unmaskRoles 可查看明文的角色，logReveals 查看明文时是否记录日志'
+)
+on conflict (key) do nothing;
@@ -0,0 +1,52 @@
+-- 知识库对话历史：每个用户只能访问自己的会话
+create extension if not exists pg_trgm;
+
+create table if not exists public.kb_conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  title text not null,
+  pinned boolean not null default false,
+  -- 重置上下文后，之前的消息条数；这些消息只展示，不再发送给模型
+  context_start integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists kb_conversations_user_idx
+  on public.kb_conversations (user_id, pinned desc, updated_at desc);
+
+create table if not exists public.kb_messages (
+  id bigint generated by default as identity primary key,
+  conversation_id uuid not null references public.kb_conversations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists kb_messages_conversation_idx
+  on public.kb_messages (conversation_id, id);
+
+-- 中文没有分词，全文检索使用三元组索引支撑 ilike '%关键词%'
+create index if not exists kb_messages_content_trgm_idx
+  on public.kb_messages using gin (content gin_trgm_ops);
+create index if not exists kb_conversations_title_trgm_idx
+  on public.kb_conversations using gin (title gin_trgm_ops);
+
+alter table public.kb_conversations enable row level security;
+alter table public.kb_messages enable row level security;
+
+create policy "kb_conversations_own"
+  on public.kb_conversations for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "kb_messages_own"
+  on public.kb_messages for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.kb_conversations c where c.id = conversation_id and c.user_id = auth.uid())
+  );
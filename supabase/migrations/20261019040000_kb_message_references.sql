@@ -0,0 +1,3 @@
+-- 知识库回答的检索来源（文档名、片段、相关度），历史会话中也能查看引用
+alter table public.kb_messages
+  add column if not exists doc_references jsonb;
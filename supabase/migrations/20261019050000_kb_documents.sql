@@ -0,0 +1,96 @@
+-- 知识库文档：原文件存放在 kb-documents 存储桶，解析后的分片写入 kb_document_chunks 供检索
+-- 所有登录用户可以检索已就绪的文档；上传、重建索引和删除限管理员与人事经理
+create extension if not exists pg_trgm;
+
+create table if not exists public.kb_documents (
+  id uuid primary key default gen_random_uuid(),
+  file_name text not null,
+  storage_path text not null unique,
+  mime_type text not null default '',
+  size_bytes bigint not null default 0,
+  status text not null default 'uploading'
+    check (status in ('uploading', 'parsing', 'indexing', 'ready', 'failed')),
+  chunk_count integer not null default 0,
+  indexer text,
+  error text,
+  uploaded_by uuid references auth.users (id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists kb_documents_created_idx on public.kb_documents (created_at desc);
+
+create table if not exists public.kb_document_chunks (
+  id bigint generated by default as identity primary key,
+  document_id uuid not null references public.kb_documents (id) on delete cascade,
+  chunk_index integer not null,
+  content text not null,
+  unique (document_id, chunk_index)
+);
+
+create index if not exists kb_document_chunks_content_trgm_idx
+  on public.kb_document_chunks using gin (content gin_trgm_ops);
+
+alter table public.kb_documents enable row level security;
+alter table public.kb_document_chunks enable row level security;
+
+create policy "kb_documents_select_authenticated"
+  on public.kb_documents for select
+  to authenticated
+  using (true);
+
+create policy "kb_documents_write_editors"
+  on public.kb_documents for all
+  to authenticated
+  using (public.current_app_role() in ('admin', 'hr_manager'))
+  with check (public.current_app_role() in ('admin', 'hr_manager'));
+
+create policy "kb_document_chunks_select_authenticated"
+  on public.kb_document_chunks for select
+  to authenticated
+  using (true);
+
+create policy "kb_document_chunks_write_editors"
+  on public.kb_document_chunks for all
+  to authenticated
+  using (public.current_app_role() in ('admin', 'hr_manager'))
+  with check (public.current_app_role() in ('admin', 'hr_manager'));
+
+-- 按三元组相似度检索已就绪文档的分片；中文没有分词，用 word_similarity 兼顾短查询
+create or replace function public.match_kb_chunks(query text, match_count integer default 4)
+returns table (document_id uuid, file_name text, chunk_index integer, content text, score real)
+language sql
+stable
+set search_path = public
+as $$
+  select c.document_id, d.file_name, c.chunk_index, c.content, word_similarity(query, c.content) as score
+  from public.kb_document_chunks c
+  join public.kb_documents d on d.id = c.document_id
+  where d.status = 'ready'
+    and query <% c.content
+  order by score desc
+  limit greatest(1, least(match_count, 20))
+$$;
+
+grant execute on function public.match_kb_chunks(text, integer) to authenticated;
+
+-- --- Storage ---
+
+insert into storage.buckets (id, name, public)
+values ('kb-documents', 'kb-documents', false)
+on conflict (id) do nothing;
+
+create policy "kb_documents_bucket_read"
+  on storage.objects for select
+  to authenticated
+  using (bucket_id = 'kb-documents');
+
+create policy "kb_documents_bucket_write"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'kb-documents' and public.current_app_role() in ('admin', 'hr_manager'));
+
+create policy "kb_documents_bucket_delete"
+  on storage.objects for delete
+  to authenticated
+  using (bucket_id = 'kb-documents' and public.current_app_role() in ('admin', 'hr_manager'));
@@ -0,0 +1,60 @@
+-- AI 回答反馈：知识库与图像识别的点赞/点踩和纠正内容，连同提问、模型和耗时一起保存
+-- 用户只能读写自己的反馈；管理员可以查看全部，用于找出答得最差的问题并修正对应文档
+create table if not exists public.ai_feedback (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  feature text not null check (feature in ('knowledge', 'vision')),
+  rating smallint not null check (rating in (-1, 1)),
+  correction text,
+  prompt text not null,
+  answer text not null,
+  model text,
+  latency_ms integer,
+  conversation_id uuid references public.kb_conversations (id) on delete set null,
+  message_id bigint references public.kb_messages (id) on delete set null,
+  doc_references jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- 同一条已保存的回答，每个用户只保留一条反馈（message_id 为空的记录互不冲突）
+alter table public.ai_feedback
+  add constraint ai_feedback_user_message_key unique (user_id, message_id);
+
+create index if not exists ai_feedback_feature_idx on public.ai_feedback (feature, created_at desc);
+
+alter table public.ai_feedback enable row level security;
+
+create policy "ai_feedback_own"
+  on public.ai_feedback for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "ai_feedback_select_admin"
+  on public.ai_feedback for select
+  to authenticated
+  using (public.current_app_role() = 'admin');
+
+-- 按问题汇总评分：同一问题忽略大小写和首尾空白归为一组
+-- security_invoker 让视图沿用调用者的 RLS，普通用户只能汇总到自己的反馈
+create or replace view public.ai_feedback_report
+with (security_invoker = true)
+as
+select
+  feature,
+  lower(btrim(prompt)) as question_key,
+  (array_agg(prompt order by created_at desc))[1] as question,
+  count(*)::integer as total,
+  count(*) filter (where rating < 0)::integer as down_votes,
+  count(*) filter (where rating > 0)::integer as up_votes,
+  round(avg(rating)::numeric, 2)::float as score,
+  round(avg(latency_ms))::integer as avg_latency_ms,
+  (array_agg(correction order by created_at desc) filter (where correction is not null and correction <> ''))[1] as latest_correction,
+  (array_agg(answer order by created_at desc) filter (where rating < 0))[1] as latest_bad_answer,
+  (array_agg(doc_references order by created_at desc) filter (where rating < 0 and doc_references is not null))[1] as doc_references,
+  max(created_at) as last_feedback_at
+from public.ai_feedback
+group by feature, lower(btrim(prompt));
+
+grant select on public.ai_feedback_report to authenticated;
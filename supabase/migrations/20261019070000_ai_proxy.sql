@@ -0,0 +1,35 @@
+-- AI 代理（supabase/functions/ai-proxy）：API Key 只在服务端使用，浏览器不再读取
+
+-- 密钥类配置只有管理员可读；代理函数使用 service role 读取，不受 RLS 限制
+drop policy if exists "system_settings_select_authenticated" on public.system_settings;
+create policy "system_settings_select_authenticated"
+  on public.system_settings for select to authenticated
+  using (key not in ('aliyun_config', 'gemini_config') or public.current_app_role() = 'admin');
+
+-- 代理转发的每次调用，用于按用户统计额度；只由代理函数写入
+create table if not exists public.ai_usage_events (
+  id bigint generated by default as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  target text not null,
+  model text,
+  status integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_events_user_idx on public.ai_usage_events (user_id, created_at desc);
+
+alter table public.ai_usage_events enable row level security;
+
+create policy "ai_usage_events_select_own"
+  on public.ai_usage_events for select
+  to authenticated
+  using (user_id = auth.uid() or public.current_app_role() = 'admin');
+
+-- 每人每天的调用上限（按 UTC 自然日），已有配置时不覆盖
+insert into public.system_settings (key, value, description)
+values (
+  'ai_proxy_quota',
+  '{"dailyRequests": 200}'::jsonb,
+  'AI 代理调用额度：dailyRequests 每位用户每天最多调用次数'
+)
+on conflict (key) do nothing;
@@ -0,0 +1,67 @@
+-- AI 用量计费：ai-proxy 从上游响应中解析 token 用量并按单价估算费用（元）
+-- 额度按用户、部门分别配置日 / 月上限（system_settings.ai_quota），取代 ai_proxy_quota
+
+alter table public.ai_usage_events
+  add column if not exists department_id bigint,
+  add column if not exists input_tokens integer not null default 0,
+  add column if not exists output_tokens integer not null default 0,
+  add column if not exists cost double precision not null default 0;
+
+create index if not exists ai_usage_events_department_idx on public.ai_usage_events (department_id, created_at desc);
+
+-- 当前日 / 月（UTC）内的用量，scope 为 user 或 department；只供 ai-proxy 使用
+create or replace function public.ai_usage_totals(p_user_id uuid, p_department_id bigint)
+returns table (scope text, period text, requests integer, tokens bigint, cost double precision)
+language sql
+stable
+as $$
+  with windows (period, since) as (
+    values
+      ('daily', date_trunc('day', now() at time zone 'utc') at time zone 'utc'),
+      ('monthly', date_trunc('month', now() at time zone 'utc') at time zone 'utc')
+  )
+  select
+    s.scope,
+    w.period,
+    count(e.id)::integer,
+    coalesce(sum(e.input_tokens + e.output_tokens), 0)::bigint,
+    coalesce(sum(e.cost), 0)::double precision
+  from windows w
+  cross join (values ('user'), ('department')) as s (scope)
+  left join public.ai_usage_events e
+    on e.created_at >= w.since
+   and case when s.scope = 'user' then e.user_id = p_user_id else e.department_id = p_department_id end
+  group by s.scope, w.period
+$$;
+
+revoke execute on function public.ai_usage_totals(uuid, bigint) from public, anon, authenticated;
+grant execute on function public.ai_usage_totals(uuid, bigint) to service_role;
+
+-- 按天、模型汇总，供首页用量图表；沿用 ai_usage_events 的 RLS（本人或管理员）
+create or replace view public.ai_usage_daily
+with (security_invoker = true)
+as
+select
+  (created_at at time zone 'utc')::date as day,
+  user_id,
+  department_id,
+  coalesce(model, target) as model,
+  count(*)::integer as requests,
+  sum(input_tokens)::bigint as input_tokens,
+  sum(output_tokens)::bigint as output_tokens,
+  sum(cost)::double precision as cost
+from public.ai_usage_events
+group by 1, 2, 3, 4;
+
+grant select on public.ai_usage_daily to authenticated;
+
+-- 沿用原有的每日次数上限
+insert into public.system_settings (key, value, description)
+select
+  'ai_quota',
+  jsonb_build_object('user', jsonb_build_object('daily', jsonb_build_object('requests', coalesce((value ->> 'dailyRequests')::integer, 200)))),
+  'AI 调用额度：user / department 下分 daily / monthly，可限制 requests、tokens、cost（元）；departmentOverrides / userOverrides 按 ID 单独设置；prices 为各模型每千 token 单价'
+from (select (select value from public.system_settings where key = 'ai_proxy_quota') as value) old
+on conflict (key) do nothing;
+
+delete from public.system_settings where key = 'ai_proxy_quota';
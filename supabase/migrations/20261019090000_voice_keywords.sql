@@ -0,0 +1,11 @@
+-- 语音助手唤醒词 / 休眠词（见 src/services/voiceKeywords.ts），前端与 smart-processor 共用，已有配置时不覆盖
+insert into public.system_settings (key, value, description)
+values (
+  'voice_keywords',
+  '{
+    "wake": {"words": ["小朗"], "variants": ["小浪", "小狼", "晓朗", "小郎", "小龙"]},
+    "sleep": {"words": ["退下吧", "退下", "休眠", "退出待命", "回去吧", "休息吧"], "variants": []}
+  }'::jsonb,
+  '语音助手关键词：wake 唤醒词，sleep 休眠词；words 为正式写法，variants 为拼音相同或相近的常见误识别写法'
+)
+on conflict (key) do nothing;
@@ -0,0 +1,56 @@
+-- 员工档案审计按部门隔离：部门经理只能看到本部门员工的变更历史
+-- 员工数据在 ERP 中，库里无法关联，因此写入时把员工（变更后）所属部门记在日志行上；
+-- 本迁移之前的历史记录没有部门，部门经理看不到
+
+alter table public.employee_audit_logs
+  add column if not exists department_id bigint;
+
+create index if not exists employee_audit_logs_department_idx
+  on public.employee_audit_logs (department_id, created_at desc);
+
+-- 当前登录用户所属部门；与 current_app_role 一样用 security definer 读取 profiles
+create or replace function public.current_department_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.department_id from public.profiles p where p.id = auth.uid()
+$$;
+
+grant execute on function public.current_department_id() to authenticated;
+
+-- 部门经理只能改本部门员工（网关侧已隔离），日志的部门一律取其所属部门，不信任前端传入的值
+create or replace function public.employee_audit_logs_scope_department()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.current_app_role() = 'dept_manager' then
+    new.department_id := public.current_department_id();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists employee_audit_logs_scope_department on public.employee_audit_logs;
+create trigger employee_audit_logs_scope_department
+  before insert on public.employee_audit_logs
+  for each row execute function public.employee_audit_logs_scope_department();
+
+drop policy if exists "employee_audit_logs_select_staff" on public.employee_audit_logs;
+
+create policy "employee_audit_logs_select_staff"
+  on public.employee_audit_logs for select
+  to authenticated
+  using (
+    public.current_app_role() in ('admin', 'hr_manager')
+    or (
+      public.current_app_role() = 'dept_manager'
+      and department_id is not null
+      and department_id = public.current_department_id()
+    )
+  );
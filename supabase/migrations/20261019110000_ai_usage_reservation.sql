@@ -0,0 +1,60 @@
+-- AI 额度原子预留：ai-proxy 转发前调用 ai_usage_reserve，在锁内检查额度并插入一条待结算的调用记录，
+-- 避免并发请求同时通过「先查询后写入」的检查；用量在响应结束（或客户端取消）后由代理回填
+
+-- 没有从上游读到用量（客户端中途取消、上游未返回 usage）时按内容长度估算，estimated 标记这类记录
+alter table public.ai_usage_events
+  add column if not exists estimated boolean not null default false;
+
+-- p_limits 形如 {"user": {"daily": {"requests": 200}}, "department": {...}}，由代理按 ai_quota 解析后传入
+-- 超出额度时返回第一个已用满的额度（event_id 为 null）；否则返回新记录的 id
+create or replace function public.ai_usage_reserve(
+  p_user_id uuid,
+  p_department_id bigint,
+  p_target text,
+  p_model text,
+  p_input_tokens integer,
+  p_cost double precision,
+  p_limits jsonb
+)
+returns table (event_id bigint, scope text, period text, metric text, used double precision, quota double precision)
+language plpgsql
+as $$
+#variable_conflict use_column
+declare
+  total record;
+  m text;
+  limit_value double precision;
+  used_value double precision;
+begin
+  -- 同一用户、同一部门的预留串行执行；总是先锁用户再锁部门，不会互相等待
+  perform pg_advisory_xact_lock(hashtextextended('ai_usage:user:' || p_user_id::text, 0));
+  if p_department_id is not null then
+    perform pg_advisory_xact_lock(hashtextextended('ai_usage:department:' || p_department_id::text, 0));
+  end if;
+
+  for total in
+    select t.* from public.ai_usage_totals(p_user_id, p_department_id) t
+    where t.scope = 'user' or p_department_id is not null
+  loop
+    foreach m in array array['requests', 'tokens', 'cost'] loop
+      limit_value := (p_limits -> total.scope -> total.period ->> m)::double precision;
+      continue when limit_value is null;
+      used_value := case m when 'requests' then total.requests when 'tokens' then total.tokens else total.cost end;
+      if used_value >= limit_value then
+        return query select null::bigint, total.scope, total.period, m, used_value, limit_value;
+        return;
+      end if;
+    end loop;
+  end loop;
+
+  return query
+    insert into public.ai_usage_events (user_id, department_id, target, model, status, input_tokens, cost, estimated)
+    values (p_user_id, p_department_id, p_target, p_model, 0, p_input_tokens, p_cost, true)
+    returning id, null::text, null::text, null::text, null::double precision, null::double precision;
+end;
+$$;
+
+revoke execute on function public.ai_usage_reserve(uuid, bigint, text, text, integer, double precision, jsonb)
+  from public, anon, authenticated;
+grant execute on function public.ai_usage_reserve(uuid, bigint, text, text, integer, double precision, jsonb)
+  to service_role;
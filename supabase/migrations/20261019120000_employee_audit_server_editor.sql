@@ -0,0 +1,23 @@
+-- 员工档案审计的操作人由数据库填写：user_id 取当前登录用户，editor_name 取其 profiles 中的姓名（没有时用邮箱），
+-- 忽略前端传入的值，避免伪造操作人
+
+create or replace function public.employee_audit_logs_set_editor()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.user_id := auth.uid();
+  select coalesce(nullif(p.full_name, ''), p.email)
+    into new.editor_name
+    from public.profiles p
+    where p.id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists employee_audit_logs_set_editor on public.employee_audit_logs;
+create trigger employee_audit_logs_set_editor
+  before insert on public.employee_audit_logs
+  for each row execute function public.employee_audit_logs_set_editor();
@@ -1,10 +1,15 @@
+// 'user' 为早期账号的默认角色，按 viewer 处理
+export type UserRole = 'admin' | 'hr_manager' | 'dept_manager' | 'viewer' | 'user';
+
 export interface Profile {
   id: string;
   email: string | null;
   full_name: string | null;
   avatar_url: string | null;
   department: string | null;
-  role: 'user' | 'admin';
+  // 对应 ERP P_DepartmentTab.Departmentid，部门经理只能访问本部门员工
+  department_id: string | number | null;
+  role: UserRole;
   created_at: string;
   updated_at: string;
 }
@@ -16,6 +21,16 @@ export interface SystemSetting {
   updated_at: string;
 }
 
+// app_configs：外部服务连接配置（如 local_sql_server）
+export interface AppConfigEntry {
+  id: number;
+  config_name: string;
+  api_url: string | null;
+  api_token: string | null;
+  description?: string | null;
+  updated_at?: string;
+}
+
 export interface ActivityLog {
   id: number;
   user_id: string | null;
@@ -61,7 +76,195 @@ export interface Module {
   created_at?: string;
 }
 
+// --- Knowledge Base History ---
+// 百炼应用返回的检索来源（见 src/services/citations.ts）
+export interface DocReference {
+  // 正文中引用的序号，从 1 开始
+  index: number;
+  docId: string | null;
+  docName: string;
+  title: string | null;
+  // 命中的文本片段
+  text: string;
+  score: number | null;
+  pageNumber: number | null;
+}
+
+export interface KbConversation {
+  id: string;
+  user_id: string;
+  title: string;
+  pinned: boolean;
+  context_start: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface KbMessage {
+  id: number;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  doc_references: DocReference[] | null;
+  created_at: string;
+}
+
+export interface KbSearchHit {
+  conversation: KbConversation;
+  // 命中的消息片段；标题命中时为 null
+  snippet: string | null;
+}
+
+// --- Knowledge Base Documents ---
+export type KbDocumentStatus = 'uploading' | 'parsing' | 'indexing' | 'ready' | 'failed';
+
+export interface KbDocument {
+  id: string;
+  file_name: string;
+  // kb-documents 存储桶中的路径
+  storage_path: string;
+  mime_type: string;
+  size_bytes: number;
+  status: KbDocumentStatus;
+  chunk_count: number;
+  // 索引器名称（见 src/services/documentIndexer.ts）
+  indexer: string | null;
+  error: string | null;
+  uploaded_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// --- AI Feedback ---
+export type AiFeedbackFeature = 'knowledge' | 'vision';
+
+export interface AiFeedback {
+  id: number;
+  user_id: string;
+  feature: AiFeedbackFeature;
+  // 1 = 有帮助，-1 = 没帮助
+  rating: 1 | -1;
+  correction: string | null;
+  prompt: string;
+  answer: string;
+  model: string | null;
+  latency_ms: number | null;
+  conversation_id: string | null;
+  message_id: number | null;
+  doc_references: DocReference[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ai_feedback_report 视图：按问题汇总的评分
+export interface AiFeedbackReportRow {
+  feature: AiFeedbackFeature;
+  question_key: string;
+  question: string;
+  total: number;
+  down_votes: number;
+  up_votes: number;
+  score: number;
+  avg_latency_ms: number | null;
+  latest_correction: string | null;
+  latest_bad_answer: string | null;
+  doc_references: DocReference[] | null;
+  last_feedback_at: string;
+}
+
+// --- AI Usage & Quota ---
+export type AiQuotaMetric = 'requests' | 'tokens' | 'cost';
+export type AiQuotaPeriod = 'daily' | 'monthly';
+export type AiQuotaScope = 'user' | 'department';
+
+// 当前日 / 月（UTC）内个人或部门的用量及上限（ai-proxy 计算）；limit 中未设置的指标不限制
+export interface AiQuotaUsage {
+  scope: AiQuotaScope;
+  period: AiQuotaPeriod;
+  used: Record<AiQuotaMetric, number>;
+  limit: Partial<Record<AiQuotaMetric, number>>;
+}
+
+// ai-proxy 拒绝请求时返回的超额信息
+export interface AiQuotaExceeded {
+  scope: AiQuotaScope;
+  period: AiQuotaPeriod;
+  metric: AiQuotaMetric;
+  used: number;
+  limit: number;
+}
+
+// ai_usage_daily 视图：按天、用户、模型汇总；cost 为估算费用（元）
+export interface AiUsageDailyRow {
+  day: string;
+  user_id: string;
+  department_id: number | null;
+  model: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost: number;
+}
+
 export interface DashboardStats {
   aiCalls: number;
   moduleClicks: number;
-}
\ No newline at end of file
+}
+// --- Local SQL Server (ERP) ---
+export interface Department {
+  Departmentid: string | number;
+  departmentname: string;
+}
+
+export interface Employee {
+  employeename: string;
+  webbmp?: string | null;
+  P_emp_no: string;
+  Departmentid: string | number;
+  P_emp_sex: string;
+  p_emp_phone: string;
+  P_emp_Status: string;
+  p_emp_degree: string;
+  P_emp_workJoindt: string;
+  P_emp_leavedt?: string | null;
+  // 行版本号（SQL Server rowversion 转成的字符串），每次写入都会变化，用于乐观并发校验
+  row_version?: string | null;
+  [key: string]: any;
+}
+
+export type EmployeeAuditAction = 'create' | 'update' | 'archive' | 'bulk_update' | 'import' | 'revert';
+
+export interface EmployeeAuditLog {
+  id: number;
+  emp_no: string;
+  field: string;
+  old_value: string | null;
+  new_value: string | null;
+  action: EmployeeAuditAction;
+  batch_id: string | null;
+  // 员工变更后所属部门，部门经理只能查看本部门的记录
+  department_id: number | null;
+  user_id: string | null;
+  editor_name: string | null;
+  created_at: string;
+}
+
+// --- AI Analysis Report ---
+export interface ChartConfig {
+  id: string;
+  type: 'stat' | 'pie' | 'bar';
+  title: string;
+  field: string;
+  operation?: 'count' | 'distinct';
+  color?: string;
+  description?: string;
+  insight?: string;
+}
+
+export interface AIReport {
+  summary: string;
+  charts: ChartConfig[];
+  risks: Array<{ title: string; level: 'high' | 'medium' | 'low'; desc: string }>;
+  suggestions: Array<{ title: string; action: string; priority?: string }>;
+  prediction: string;
+}